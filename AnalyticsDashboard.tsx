@@ -0,0 +1,277 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationResult, SystemData } from './types';
+import { Selection } from './editor';
+import { costBreakdown, generationStack, lmpRange, loadingDurationCurves } from './analytics';
+import { intervalLabel } from './time';
+
+// Charts of a run over the horizon: generation stack by unit, LMP heatmap by
+// bus, line loading duration curves, commitment Gantt chart and the cost of
+// each interval by kind. Clicking a bar, cell or point shows that interval on
+// the map with the element selected.
+
+interface AnalyticsDashboardProps {
+  data: SystemData; // Case the results were computed for
+  results: SimulationResult;
+  currentInterval: number;
+  selection: Selection;
+  onJump: (interval: number, selection?: Selection) => void; // selection undefined: keep the current one
+}
+
+type Tab = 'Stack' | 'Prices' | 'Duration' | 'Commitment' | 'Costs';
+const TABS: [Tab, string][] = [['Stack', '发电堆叠'], ['Prices', '电价热力图'], ['Duration', '负载持续曲线'], ['Commitment', '机组组合'], ['Costs', '成本构成']];
+
+const WIDTH = 720;
+const LEFT = 48; // Room for the row and axis labels
+const RIGHT = 8;
+const LINE_COLORS = ['#f87171', '#fbbf24', '#34d399', '#60a5fa', '#a78bfa', '#f472b6', '#22d3ee', '#a3e635'];
+const COST_KINDS = [['energy', '电能', '#60a5fa'], ['noLoad', '空载', '#a78bfa'], ['startup', '启动', '#f87171'], ['other', '其他', '#64748b']] as const;
+const DURATION_LINES = 8; // Most loaded lines drawn
+
+// Blue (low) to red (high)
+const heat = (f: number) => `hsl(${Math.round(220 - 220 * Math.min(1, Math.max(0, f)))}, 75%, ${45 + 10 * Math.abs(f - 0.5)}%)`;
+
+const tick = (value: number) => (Math.abs(value) >= 1000 ? `${(value / 1000).toFixed(1)}k` : value.toFixed(0));
+
+// Horizontal grid lines with their values
+const Grid: React.FC<{ max: number; height: number; top: number; unit: string }> = ({ max, height, top, unit }) => (
+  <g>
+    {[0, 0.25, 0.5, 0.75, 1].map(f => (
+      <g key={f}>
+        <line x1={LEFT} x2={WIDTH - RIGHT} y1={top + height * (1 - f)} y2={top + height * (1 - f)} stroke="#1e293b" />
+        <text x={LEFT - 4} y={top + height * (1 - f) + 3} textAnchor="end" fill="#64748b" fontSize="9">{tick(max * f)}</text>
+      </g>
+    ))}
+    <text x={2} y={top - 2} fill="#64748b" fontSize="9">{unit}</text>
+  </g>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ data, results, currentInterval, selection, onJump }) => {
+  const [tab, setTab] = useState<Tab>('Stack');
+  const stack = useMemo(() => generationStack(data, results), [data, results]);
+  const prices = useMemo(() => lmpRange(results), [results]);
+  const curves = useMemo(() => loadingDurationCurves(data, results).slice(0, DURATION_LINES), [data, results]);
+  const costs = useMemo(() => costBreakdown(data, results), [data, results]);
+
+  const T = Math.max(1, results.length);
+  const cell = (WIDTH - LEFT - RIGHT) / T;
+  const x = (t: number) => LEFT + t * cell;
+  const labelStep = Math.max(1, Math.ceil(T / 12));
+  const timeAxis = (y: number) => results.map((r, t) => (t % labelStep === 0
+    ? <text key={t} x={x(t) + cell / 2} y={y} textAnchor="middle" fill="#64748b" fontSize="9">{intervalLabel(data, r.interval)}</text>
+    : null));
+  const current = (height: number, top = 0) => (
+    <rect x={x(currentInterval)} y={top} width={cell} height={height} fill="#3b82f6" fillOpacity="0.15" stroke="#3b82f6" strokeWidth="0.5" pointerEvents="none" />
+  );
+
+  const renderStack = () => {
+    const height = 180;
+    const top = 10;
+    const max = Math.max(1, ...results.map((r, t) => Math.max(r.servedLoad, stack.reduce((sum, s) => sum + s.values[t], 0)))) * 1.05;
+    const y = (mw: number) => top + height * (1 - mw / max);
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height + 30}`} className="w-full">
+        <Grid max={max} height={height} top={top} unit="MW" />
+        {results.map((r, t) => {
+          let base = 0;
+          return stack.map(s => {
+            const mw = s.values[t];
+            if (mw <= 1e-6) return null;
+            const y0 = y(base + mw);
+            base += mw;
+            const isUnit = data.generators.some(g => g.id === s.id);
+            const selected = selection?.kind === 'Generator' && selection.id === s.id;
+            return (
+              <rect
+                key={`${t}-${s.id}`} x={x(t) + cell * 0.1} y={y0} width={cell * 0.8} height={height * mw / max}
+                fill={s.color} fillOpacity={selected ? 1 : 0.8} stroke={selected ? '#f59e0b' : 'none'} className="cursor-pointer"
+                onClick={() => onJump(t, isUnit ? { kind: 'Generator', id: s.id } : undefined)}
+              >
+                <title>{`${intervalLabel(data, r.interval)} ${s.id}: ${mw.toFixed(1)} MW`}</title>
+              </rect>
+            );
+          });
+        })}
+        <polyline
+          points={results.map((r, t) => `${x(t) + cell / 2},${y(r.servedLoad)}`).join(' ')}
+          fill="none" stroke="#f8fafc" strokeWidth="1.5" strokeDasharray="4 2" pointerEvents="none"
+        />
+        {current(height, top)}
+        {timeAxis(height + top + 14)}
+      </svg>
+    );
+  };
+
+  const renderPrices = () => {
+    const row = Math.max(6, Math.min(20, 200 / Math.max(1, data.buses.length)));
+    const height = row * data.buses.length;
+    const span = Math.max(1e-6, prices.max - prices.min);
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height + 20}`} className="w-full">
+        {data.buses.map((b, i) => (
+          <g key={b.id}>
+            <text
+              x={LEFT - 4} y={i * row + row / 2 + 3} textAnchor="end" fontSize="9"
+              fill={selection?.kind === 'Bus' && selection.id === b.id ? '#f59e0b' : '#94a3b8'}
+            >
+              {b.id}
+            </text>
+            {results.map((r, t) => {
+              const lmp = r.lmp[b.id];
+              return (
+                <rect
+                  key={t} x={x(t)} y={i * row} width={cell + 0.3} height={row + 0.3} className="cursor-pointer"
+                  fill={lmp === undefined ? '#0f172a' : heat((lmp - prices.min) / span)}
+                  onClick={() => onJump(t, { kind: 'Bus', id: b.id })}
+                >
+                  <title>{`节点 ${b.id} ${intervalLabel(data, r.interval)}: ${lmp === undefined ? '—' : `$${lmp.toFixed(2)}/MWh`}`}</title>
+                </rect>
+              );
+            })}
+          </g>
+        ))}
+        {current(height)}
+        {timeAxis(height + 14)}
+      </svg>
+    );
+  };
+
+  const renderDuration = () => {
+    const height = 180;
+    const top = 10;
+    const max = Math.max(110, ...curves.map(c => c.points[0]?.loading ?? 0)) * 1.05;
+    const px = (k: number) => LEFT + (WIDTH - LEFT - RIGHT) * (T > 1 ? k / (T - 1) : 0.5);
+    const py = (loading: number) => top + height * (1 - loading / max);
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height + 30}`} className="w-full">
+        <Grid max={max} height={height} top={top} unit="%" />
+        <line x1={LEFT} x2={WIDTH - RIGHT} y1={py(100)} y2={py(100)} stroke="#ef4444" strokeDasharray="4 3" />
+        {curves.map((c, k) => {
+          const color = LINE_COLORS[k % LINE_COLORS.length];
+          const selected = selection?.kind === 'Line' && selection.id === c.lineId;
+          return (
+            <g key={c.lineId}>
+              <polyline
+                points={c.points.map((p, j) => `${px(j)},${py(p.loading)}`).join(' ')}
+                fill="none" stroke={color} strokeWidth={selected ? 3 : 1.5}
+              />
+              {c.points.map((p, j) => (
+                <circle key={j} cx={px(j)} cy={py(p.loading)} r={3} fill={color} fillOpacity={0.6} className="cursor-pointer"
+                  onClick={() => onJump(p.interval, { kind: 'Line', id: c.lineId })}
+                >
+                  <title>{`${c.lineId} ${intervalLabel(data, p.interval)}: ${p.loading.toFixed(1)}%`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+        {[0, 25, 50, 75, 100].map(f => (
+          <text key={f} x={px((T - 1) * f / 100)} y={height + top + 14} textAnchor="middle" fill="#64748b" fontSize="9">{f}%</text>
+        ))}
+      </svg>
+    );
+  };
+
+  const renderCommitment = () => {
+    const row = Math.max(8, Math.min(18, 220 / Math.max(1, data.generators.length)));
+    const height = row * data.generators.length;
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height + 20}`} className="w-full">
+        {data.generators.map((g, i) => (
+          <g key={g.id}>
+            <text
+              x={LEFT - 4} y={i * row + row / 2 + 3} textAnchor="end" fontSize="9"
+              fill={selection?.kind === 'Generator' && selection.id === g.id ? '#f59e0b' : '#94a3b8'}
+            >
+              {g.id}
+            </text>
+            {results.map((r, t) => {
+              const on = r.genStatus[g.id];
+              const started = r.startups.includes(g.id);
+              return (
+                <g key={t} className="cursor-pointer" onClick={() => onJump(t, { kind: 'Generator', id: g.id })}>
+                  <rect x={x(t)} y={i * row + 1} width={cell + 0.3} height={row - 2} fill={on ? g.color : '#1e293b'} fillOpacity={on ? 0.85 : 1} />
+                  {started && <rect x={x(t)} y={i * row + 1} width={Math.max(1.5, cell * 0.15)} height={row - 2} fill="#f8fafc" />}
+                  <title>{`${g.id} ${intervalLabel(data, r.interval)}: ${on ? `运行 ${(r.genOutput[g.id] ?? 0).toFixed(1)} MW` : '停机'}${started ? ' (启动)' : ''}`}</title>
+                </g>
+              );
+            })}
+          </g>
+        ))}
+        {current(height)}
+        {timeAxis(height + 14)}
+      </svg>
+    );
+  };
+
+  const renderCosts = () => {
+    const height = 180;
+    const top = 10;
+    const max = Math.max(1, ...costs.map(c => COST_KINDS.reduce((sum, [key]) => sum + Math.max(0, c[key]), 0))) * 1.05;
+    return (
+      <svg viewBox={`0 0 ${WIDTH} ${height + 30}`} className="w-full">
+        <Grid max={max} height={height} top={top} unit="$" />
+        {costs.map((c, t) => {
+          let base = 0;
+          return COST_KINDS.map(([key, label, color]) => {
+            const value = Math.max(0, c[key]);
+            if (value <= 1e-6) return null;
+            base += value;
+            return (
+              <rect
+                key={`${t}-${key}`} x={x(t) + cell * 0.1} y={top + height * (1 - base / max)} width={cell * 0.8} height={height * value / max}
+                fill={color} className="cursor-pointer" onClick={() => onJump(t)}
+              >
+                <title>{`${intervalLabel(data, results[t].interval)} ${label}: $${value.toFixed(0)}`}</title>
+              </rect>
+            );
+          });
+        })}
+        {current(height, top)}
+        {timeAxis(height + top + 14)}
+      </svg>
+    );
+  };
+
+  const legend = (): [string, string, string?][] => {
+    switch (tab) {
+      case 'Stack':
+        return [...stack.map(s => [s.color, s.id] as [string, string]), ['#f8fafc', '负荷 (虚线)']];
+      case 'Prices':
+        return [[heat(0), `$${prices.min.toFixed(2)}`], [heat(0.5), `$${((prices.min + prices.max) / 2).toFixed(2)}`], [heat(1), `$${prices.max.toFixed(2)}/MWh`]];
+      case 'Duration':
+        return curves.map((c, k) => [LINE_COLORS[k % LINE_COLORS.length], c.lineId, `峰值 ${(c.points[0]?.loading ?? 0).toFixed(0)}%`]);
+      case 'Commitment':
+        return [['#f8fafc', '启动'], ['#1e293b', '停机']];
+      case 'Costs':
+        return COST_KINDS.map(([key, label, color]) => [color, label, `$${costs.reduce((sum, c) => sum + c[key], 0).toFixed(0)}`]);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex gap-1">
+        {TABS.map(([t, label]) => (
+          <button key={t} onClick={() => setTab(t)} className={`px-3 py-1 rounded-md ${tab === t ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="bg-slate-950/50 p-2 rounded-lg border border-slate-800/50">
+        {results.length === 0 ? <div className="text-slate-500 p-4">计算中</div>
+          : tab === 'Stack' ? renderStack()
+            : tab === 'Prices' ? renderPrices()
+              : tab === 'Duration' ? renderDuration()
+                : tab === 'Commitment' ? renderCommitment()
+                  : renderCosts()}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-400">
+        {legend().map(([color, label, note]) => (
+          <span key={label} className="flex items-center gap-1">
+            <i className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: color }} />
+            {label}{note && <span className="text-slate-500 font-mono">{note}</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,72 +1,256 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { SystemData, SimulationResult } from './types';
-import { runSimulation } from './simulation';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Diagnostic, SystemData, SimulationProgress, SimulationResult } from './types';
+import { RunnerState, SimulationRunner, createSimulationRunner } from './runner';
 import { GridMap } from './GridMap';
+import { buildNetwork } from './network';
+import { listContingencies, postContingencyFlows } from './contingency';
+import { bidMW, busLoad } from './loads';
+import { hourOf, horizonHours, intervalHours, intervalLabel, intervalMinutes } from './time';
+import { hasErrors, outagesAt, validateSystem } from './topology';
+import { FIVE_BUS } from './cases';
+import { EditHistory, Selection, addBus, addLine, moveBus, recordEdit } from './editor';
+import { Inspector } from './Inspector';
+import { Scenario } from './scenarios';
+import { ComparedCase, ScenarioCompare } from './ScenarioCompare';
+import { MarketSettlement } from './MarketSettlement';
+import { EmissionsReport } from './EmissionsReport';
+import { ViolationList } from './ViolationList';
+import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { OutageSchedule } from './OutageSchedule';
+import { CaseFiles } from './CaseFiles';
+import { ReferenceComparison } from './ReferenceComparison';
+import { ScenarioManager, ScenarioPicks } from './ScenarioManager';
+import { RESULT_TABLES, ResultTable, fileSafe, resultTableCsv, resultsJson } from './exports';
+import { runReport } from './report';
+import { BENCHMARK_CASES, BenchmarkCase, ReferenceSolution } from './benchmarks';
 
-// Initial Mock Data (IEEE 5-Bus Simplified System)
-const INITIAL_DATA: SystemData = {
-  buses: [
-    { id: 1, name: "北部电厂", type: "Slack", baseLoad: 0, x: 50, y: 15 },
-    { id: 2, name: "东部负荷", type: "PQ", baseLoad: 300, x: 80, y: 40 },
-    { id: 3, name: "南部电厂", type: "PV", baseLoad: 100, x: 50, y: 85 },
-    { id: 4, name: "西部负荷", type: "PQ", baseLoad: 400, x: 20, y: 40 },
-    { id: 5, name: "中心枢纽", type: "PQ", baseLoad: 0, x: 50, y: 50 },
-  ],
-  generators: [
-    { 
-      id: "G1", name: "机组 1 (基荷)", busId: 1, pMin: 50, pMax: 600, 
-      costA: 0, costB: 20, costC: 100, startUpCost: 500, type: "Nuclear", color: "#60a5fa" 
-    },
-    { 
-      id: "G2", name: "机组 2 (腰荷)", busId: 3, pMin: 20, pMax: 400, 
-      costA: 0, costB: 45, costC: 50, startUpCost: 100, type: "Thermal", color: "#f87171" 
-    },
-    { 
-        id: "G3", name: "机组 3 (峰荷)", busId: 2, pMin: 10, pMax: 200, 
-        costA: 0, costB: 80, costC: 0, startUpCost: 0, type: "Thermal", color: "#fbbf24" 
-    }
-  ],
-  lines: [
-    { id: "L1-2", fromBus: 1, toBus: 2, reactance: 0.02, capacity: 250 },
-    { id: "L1-4", fromBus: 1, toBus: 4, reactance: 0.04, capacity: 200 },
-    { id: "L1-5", fromBus: 1, toBus: 5, reactance: 0.02, capacity: 400 },
-    { id: "L2-3", fromBus: 2, toBus: 3, reactance: 0.02, capacity: 200 },
-    { id: "L3-4", fromBus: 3, toBus: 4, reactance: 0.04, capacity: 250 },
-    { id: "L4-5", fromBus: 4, toBus: 5, reactance: 0.02, capacity: 300 },
-    { id: "L2-5", fromBus: 2, toBus: 5, reactance: 0.02, capacity: 250 },
-  ],
-  loadProfile: [
-    0.6, 0.55, 0.5, 0.5, 0.55, 0.65, 0.8, 0.9, 1.0, 1.1, 1.15, 1.2, 
-    1.2, 1.15, 1.1, 1.1, 1.2, 1.3, 1.25, 1.1, 1.0, 0.9, 0.8, 0.7
-  ]
-};
+// Offer text as a file download
+function downloadText(text: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// HTML report in a new tab, to read or print to PDF; downloaded when pop-ups are blocked
+function openReport(html: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  if (!window.open(url, '_blank')) downloadText(html, fileName);
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Run progress: stage names, and the share of the bar before and within each stage
+// (an emission cap replaces the other stages with its carbon price runs)
+const STAGE_LABELS: Record<SimulationProgress['stage'], string> = { EmissionCap: '排放约束', Commitment: '机组组合', Dispatch: '经济调度', Results: '结果校核' };
+const STAGE_WEIGHTS: Record<SimulationProgress['stage'], number> = { EmissionCap: 0, Commitment: 0, Dispatch: 0.1, Results: 0.7 };
+const STAGE_SHARES: Record<SimulationProgress['stage'], number> = { EmissionCap: 1, Commitment: 0.1, Dispatch: 0.6, Results: 0.3 };
 
 const App: React.FC = () => {
-  const [data, setData] = useState<SystemData>(INITIAL_DATA);
-  const [simulationResult, setSimulationResult] = useState<SimulationResult>([]);
-  const [currentHour, setCurrentHour] = useState(12);
+  const [data, setData] = useState<SystemData>(FIVE_BUS);
+  // Last finished run and the case it was computed for; stays on screen while the next run computes
+  const [simulated, setSimulated] = useState<{ data: SystemData; results: SimulationResult }>({ data: FIVE_BUS, results: [] });
+  const [runState, setRunState] = useState<RunnerState>({ status: 'Idle' });
+  const runner = useRef<SimulationRunner | null>(null);
+  const simulationResult = simulated.results;
+  const [currentInterval, setCurrentInterval] = useState(12);
+  const [selectedOutage, setSelectedOutage] = useState<string | null>(null);
+  const [caseName, setCaseName] = useState('5-bus');
+  const [resultTable, setResultTable] = useState<ResultTable>('Dispatch');
+  const [references, setReferences] = useState<ReferenceSolution[]>(BENCHMARK_CASES[0].references);
+  const [history, setHistory] = useState<EditHistory>({ past: [], future: [] });
+  const [selection, setSelection] = useState<Selection>(null);
+  const [editErrors, setEditErrors] = useState<Diagnostic[]>([]);
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [compare, setCompare] = useState<ScenarioPicks>({ a: '', b: 'current' });
+
+  // Validate before simulating: errors stop the simulation, warnings are listed
+  const diagnostics = useMemo(() => validateSystem(data), [data]);
+  const invalid = hasErrors(diagnostics);
+
+  // Network of the current interval (lines on scheduled outage taken out)
+  const outagedLines = invalid ? '' : [...outagesAt(data, currentInterval).lines].sort().join(',');
+  const network = useMemo(
+    () => (invalid ? null : buildNetwork(data, new Set(outagedLines ? outagedLines.split(',') : []))),
+    [data, invalid, outagedLines]);
+
+  // Simulation in a worker, started before the first run is scheduled
+  useEffect(() => {
+    const created = createSimulationRunner({ onState: setRunState, onResult: (d, results) => setSimulated({ data: d, results }) });
+    runner.current = created;
+    return () => created.dispose();
+  }, []);
+
+  // Re-run whenever data changes (debounced; a newer change supersedes a run in progress)
+  useEffect(() => {
+    if (invalid) {
+      runner.current?.cancel();
+      setSimulated({ data, results: [] });
+      setRunState({ status: 'Idle' });
+      return;
+    }
+    runner.current?.schedule(data);
+  }, [data, invalid]);
+
+  const currentResult = simulationResult[currentInterval];
+  // Hour of the current interval, and its index in an hourly profile
+  const currentHour = Math.floor(hourOf(data, currentInterval));
+  const profileIndex = (profile: number[]) => currentHour % profile.length;
+  const chartWidth = simulationResult.length * 10;
+
+  // Post-contingency flows of the selected outage for the current hour
+  const outageView = useMemo(() => {
+    if (!network || !currentResult) return null;
+    const contingency = listContingencies(data, network).find(c => c.id === selectedOutage);
+    if (!contingency) return null;
+    const committed = data.generators.filter(g => currentResult.genStatus[g.id]);
+    const busLoads = data.buses.map(b => currentResult.busWithdrawals[b.id] ?? busLoad(data, b, currentInterval));
+    const flows = postContingencyFlows(data, network, committed, currentResult.genOutput, busLoads, contingency);
+    if (!flows) return null;
+    return { id: contingency.id, flows: Object.fromEntries(data.lines.map((line, l) => [line.id, flows[l]])) };
+  }, [data, network, currentResult, currentInterval, selectedOutage]);
+
+  const comparedCase = (pick: string): ComparedCase | null => {
+      if (pick === 'current') return { name: `当前 ${caseName}`, data: simulated.data, results: simulationResult };
+      return scenarios.find(s => s.id === pick) ?? null;
+  };
+
+  // Edits of the loaded case are undoable; an edit that would stop the
+  // simulation is rejected and its errors listed in the editor
+  const commitEdit = (next: SystemData, nextSelection?: Selection) => {
+      const errors = validateSystem(next).filter(d => d.severity === 'Error');
+      if (errors.length > 0 && !invalid) {
+          setEditErrors(errors);
+          return;
+      }
+      setEditErrors([]);
+      setHistory(recordEdit(history, data));
+      setData(next);
+      if (nextSelection !== undefined) setSelection(nextSelection);
+  };
+
+  const undo = () => {
+      const previous = history.past[history.past.length - 1];
+      if (!previous) return;
+      setHistory({ past: history.past.slice(0, -1), future: [data, ...history.future] });
+      setData(previous);
+      setEditErrors([]);
+  };
 
-  // Run simulation whenever data changes
+  const redo = () => {
+      const [next, ...future] = history.future;
+      if (!next) return;
+      setHistory({ past: [...history.past, data], future });
+      setData(next);
+      setEditErrors([]);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y, except while typing in a field
   useEffect(() => {
-    const results = runSimulation(data);
-    setSimulationResult(results);
-  }, [data]);
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as Element).closest('input, select, textarea')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
 
-  const currentResult = simulationResult[currentHour];
+  // A newly loaded case starts a new edit history
+  const replaceCase = (next: SystemData, name: string) => {
+      setData(next);
+      setCaseName(name);
+      setHistory({ past: [], future: [] });
+      setSelection(null);
+      setEditErrors([]);
+      setSelectedOutage(null);
+  };
 
   const handleUpdateLoad = (newFactor: number) => {
       const newProfile = [...data.loadProfile];
-      newProfile[currentHour] = newFactor;
-      setData({...data, loadProfile: newProfile});
+      newProfile[profileIndex(newProfile)] = newFactor;
+      commitEdit({...data, loadProfile: newProfile});
+  };
+
+  // Per-bus factor for the current hour; the bus gets its own copy of the system profile
+  const handleUpdateBusLoad = (busId: number, newFactor: number) => {
+      const newBuses = data.buses.map(b => {
+          if (b.id !== busId) return b;
+          const profile = b.loadProfile?.length ? [...b.loadProfile] : [...data.loadProfile];
+          profile[profileIndex(profile)] = newFactor;
+          return {...b, loadProfile: profile};
+      });
+      commitEdit({...data, buses: newBuses});
+  };
+
+  // Keep the current time of day when the interval length or horizon changes
+  const handleUpdateTimeModel = (minutes: 5 | 15 | 60, hours: number) => {
+      const next = Math.round(hourOf(data, currentInterval) * 60 / minutes);
+      setCurrentInterval(Math.min(next, Math.round(hours * 60 / minutes) - 1));
+      commitEdit({...data, timeModel: { intervalMinutes: minutes, horizonHours: hours }});
   };
 
   const handleUpdateGenCost = (genId: string, newCost: number) => {
       const newGens = data.generators.map(g => g.id === genId ? {...g, costB: newCost} : g);
-      setData({...data, generators: newGens});
+      commitEdit({...data, generators: newGens});
+  }
+
+  // A case read from a file has no reference solutions
+  const handleImportCase = (next: SystemData, name: string) => {
+      replaceCase(next, name);
+      setCurrentInterval(0);
+      setReferences([]);
+  };
+
+  // Library case with its reference solutions; shows the interval they check
+  const loadBenchmark = (benchmark: BenchmarkCase) => {
+      replaceCase(benchmark.data(), benchmark.id);
+      setCurrentInterval(benchmark.references.find(r => r.dispatch)?.dispatch?.interval ?? 0);
+      setReferences(benchmark.references);
+  };
+
+  const resetData = () => loadBenchmark(BENCHMARK_CASES[0]);
+
+  // The scenario's case becomes the working case (re-simulated)
+  const loadScenario = (scenario: Scenario) => {
+      replaceCase(scenario.data, scenario.caseName);
+      setCurrentInterval(Math.max(0, Math.min(currentInterval, scenario.results.length - 1)));
+      setReferences([]);
+  };
+
+  if (invalid) {
+      return (
+        <div className="min-h-screen bg-slate-950 text-slate-100 p-10">
+            <div className="max-w-3xl mx-auto bg-slate-900 rounded-xl border border-red-900 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-red-400 mb-4">数据校验失败: 无法模拟</h3>
+                <ul className="space-y-1 text-sm font-mono">
+                    {diagnostics.map((d, k) => (
+                        <li key={k} className={d.severity === 'Error' ? 'text-red-300' : 'text-amber-300'}>
+                            [{d.code}] {d.message}
+                        </li>
+                    ))}
+                </ul>
+                <button
+                    onClick={resetData}
+                    className="mt-6 px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-sm text-slate-200 hover:bg-slate-700"
+                >
+                    恢复默认数据
+                </button>
+            </div>
+        </div>
+      );
   }
 
   if (!currentResult) return <div className="text-white p-10">正在初始化模拟器...</div>;
 
+  // Energy component of a bus's LMP: the price of its island
+  const energyPrice = (busId: number) =>
+      currentResult.islandEnergy[currentResult.islands.findIndex(island => island.includes(busId))] ?? currentResult.lmpEnergy;
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-100 font-sans selection:bg-blue-500/30">
       {/* Header */}
@@ -81,9 +265,42 @@ const App: React.FC = () => {
             </div>
         </div>
         <div className="flex gap-4 text-sm font-medium">
+            {/* Run state: results on screen are those of the last finished run */}
+            {runState.status !== 'Idle' && (
+                <div className="bg-slate-800 px-4 py-2 rounded-md border border-slate-700 flex items-center gap-2">
+                    {runState.status === 'Failed' ? (
+                        <span className="text-red-400" title={runState.message}>模拟出错: 显示上次结果</span>
+                    ) : runState.status === 'Cancelled' ? (
+                        <span className="text-amber-400">已取消: 显示上次结果</span>
+                    ) : (
+                        <>
+                            <span className="text-blue-400 animate-pulse">
+                                {runState.status === 'Pending' || !runState.progress ? '等待计算' : `${STAGE_LABELS[runState.progress.stage]} ${runState.progress.done}/${runState.progress.total}`}
+                            </span>
+                            {runState.status === 'Running' && runState.progress && (
+                                <div className="w-20 h-1.5 bg-slate-700 rounded">
+                                    <div
+                                        className="h-1.5 bg-blue-500 rounded"
+                                        style={{ width: `${(STAGE_WEIGHTS[runState.progress.stage] + runState.progress.done / Math.max(1, runState.progress.total) * STAGE_SHARES[runState.progress.stage]) * 100}%` }}
+                                    />
+                                </div>
+                            )}
+                            <button onClick={() => runner.current?.cancel()} className="text-slate-400 hover:text-white">取消</button>
+                        </>
+                    )}
+                </div>
+            )}
+            <div className="bg-slate-800 px-4 py-2 rounded-md border border-slate-700">
+                <span className="text-slate-400 mr-2">时段总成本:</span>
+                <span className="text-green-400">${currentResult.systemCost.toFixed(0)}</span>
+                <span className="text-slate-500 ml-1">/{intervalMinutes(data)}min</span>
+            </div>
             <div className="bg-slate-800 px-4 py-2 rounded-md border border-slate-700">
-                <span className="text-slate-400 mr-2">系统总成本:</span>
-                <span className="text-green-400">${currentResult.systemCost.toFixed(0)}/hr</span>
+                <span className="text-slate-400 mr-2">启动成本:</span>
+                <span className="text-amber-400">${currentResult.startupCost.toFixed(0)}</span>
+                {currentResult.startups.length > 0 && (
+                    <span className="text-slate-400 ml-2">({currentResult.startups.join(', ')} 启动)</span>
+                )}
             </div>
             <div className="bg-slate-800 px-4 py-2 rounded-md border border-slate-700">
                 <span className="text-slate-400 mr-2">总负荷:</span>
@@ -99,12 +316,24 @@ const App: React.FC = () => {
             {/* Visualizer */}
             <div className="bg-slate-900 rounded-xl border border-slate-800 p-1 shadow-2xl relative group">
                 <div className="absolute top-4 left-4 z-10 bg-slate-900/80 backdrop-blur px-3 py-1 rounded text-xs font-mono border border-slate-700">
-                   <span className={currentResult.alerts.length > 0 ? "text-red-400 animate-pulse" : "text-green-400"}>
-                     状态: {currentResult.alerts.length > 0 ? "存在阻塞 (CONGESTED)" : "正常运行 (NORMAL)"}
-                   </span>
+                   {currentResult.supplyEvents.some(e => e.type === 'LoadShedding') ? (
+                     <span className="text-red-400 animate-pulse">状态: 切负荷 (LOAD SHED)</span>
+                   ) : currentResult.congested ? (
+                     <span className="text-red-400 animate-pulse">状态: 存在阻塞 (CONGESTED)</span>
+                   ) : currentResult.violations.some(v => v.severity !== 'Info') ? (
+                     <span className="text-amber-400">状态: 越限告警 (VIOLATION)</span>
+                   ) : (
+                     <span className="text-green-400">状态: 正常运行 (NORMAL)</span>
+                   )}
                 </div>
                 <div className="h-[450px]">
-                    <GridMap data={data} result={currentResult} />
+                    <GridMap
+                        data={data} result={currentResult} outage={outageView}
+                        selection={selection} onSelect={setSelection}
+                        onMoveBus={(busId, x, y) => commitEdit(moveBus(data, busId, x, y))}
+                        onAddBus={(x, y) => { const added = addBus(data, x, y); commitEdit(added.data, { kind: 'Bus', id: added.id }); }}
+                        onAddLine={(fromBus, toBus) => { const added = addLine(data, fromBus, toBus); commitEdit(added.data, { kind: 'Line', id: added.id }); }}
+                    />
                 </div>
             </div>
 
@@ -113,54 +342,211 @@ const App: React.FC = () => {
                 <div className="flex justify-between items-end mb-4">
                     <div>
                         <h3 className="text-lg font-semibold text-white">时间轴</h3>
-                        <p className="text-slate-400 text-sm">拖动滑块查看不同时段 ({currentHour}:00)</p>
+                        <p className="text-slate-400 text-sm">拖动滑块查看不同时段 (第 {currentInterval + 1} / {simulationResult.length} 时段)</p>
                     </div>
                     <div className="text-right">
-                        <div className="text-2xl font-bold text-white font-mono">{String(currentHour).padStart(2, '0')}:00</div>
-                        <div className="text-xs text-blue-400">负荷系数: {data.loadProfile[currentHour].toFixed(2)}x</div>
+                        <div className="text-2xl font-bold text-white font-mono">{intervalLabel(data, currentInterval)}</div>
+                        <div className="text-xs text-blue-400">负荷系数: {data.loadProfile[profileIndex(data.loadProfile)].toFixed(2)}x</div>
                     </div>
                 </div>
                 <input 
-                    type="range" min="0" max="23" step="1"
-                    value={currentHour}
-                    onChange={(e) => setCurrentHour(parseInt(e.target.value))}
+                    type="range" min="0" max={simulationResult.length - 1} step="1"
+                    value={currentInterval}
+                    onChange={(e) => setCurrentInterval(parseInt(e.target.value))}
                     className="w-full h-3 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400 transition-all"
                 />
                 <div className="flex justify-between mt-2 text-xs text-slate-500 font-mono">
-                    <span>00:00</span>
-                    <span>06:00</span>
-                    <span>12:00</span>
-                    <span>18:00</span>
-                    <span>23:00</span>
+                    {[0, 0.25, 0.5, 0.75, 1].map(f => (
+                        <span key={f}>{intervalLabel(data, Math.round(f * (simulationResult.length - 1)))}</span>
+                    ))}
                 </div>
             </div>
 
-            {/* Gen Stack Chart (Simple CSS Bar Chart) */}
-            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
-                <h3 className="text-lg font-semibold text-white mb-4">发电堆叠图 (经济调度排序)</h3>
-                <div className="flex items-end h-40 gap-1 bg-slate-950/50 p-4 rounded-lg border border-slate-800/50">
-                    {simulationResult.map((res, h) => {
-                        const totalHeight = 100; // max height %
-                        // Just visualize total load relative to max system capacity roughly
-                        const loadPct = (res.totalLoad / 1200) * 100;
-                        const isCurrent = h === currentHour;
-                        return (
-                            <div 
-                                key={h} 
-                                className={`flex-1 rounded-t-sm transition-all duration-300 relative group cursor-pointer ${isCurrent ? 'bg-blue-500 shadow-[0_0_15px_rgba(59,130,246,0.5)]' : 'bg-slate-700 hover:bg-slate-600'}`}
-                                style={{ height: `${Math.min(loadPct, 100)}%` }}
-                                onClick={() => setCurrentHour(h)}
-                            >
-                                {isCurrent && <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-blue-600 text-white text-[10px] px-2 py-0.5 rounded font-bold">当前</div>}
+            {/* Net Load: load minus available wind / solar, with curtailment */}
+            {simulationResult.some(res => res.netLoad !== res.totalLoad) && (() => {
+                const peak = Math.max(...simulationResult.map(res => res.totalLoad), 1);
+                const y = (mw: number) => 90 - 80 * Math.max(0, mw) / peak;
+                return (
+                    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-semibold text-white">净负荷 (Net Load)</h3>
+                            <div className="flex gap-4 text-xs text-slate-400">
+                                <span><span className="inline-block w-3 h-2 bg-slate-600 mr-1"></span>负荷</span>
+                                <span><span className="inline-block w-3 h-2 bg-blue-500 mr-1"></span>净负荷</span>
+                                <span><span className="inline-block w-3 h-2 bg-red-500 mr-1"></span>弃电</span>
                             </div>
-                        )
-                    })}
-                </div>
+                        </div>
+                        <svg viewBox={`0 0 ${chartWidth} 100`} preserveAspectRatio="none" className="w-full h-40 bg-slate-950/50 rounded-lg border border-slate-800/50">
+                            {simulationResult.map((res, h) => {
+                                const curtailed = Object.values(res.curtailment).reduce((sum, c) => sum + c.mw, 0);
+                                return (
+                                    <g key={h} className="cursor-pointer" onClick={() => setCurrentInterval(h)}>
+                                        <rect x={h * 10} y="0" width="10" height="100" fill={h === currentInterval ? '#1e293b' : 'transparent'} />
+                                        <rect x={h * 10 + 1} y={y(res.totalLoad)} width="8" height={90 - y(res.totalLoad)} fill="#475569" />
+                                        <rect x={h * 10 + 3} y={y(res.netLoad)} width="4" height={90 - y(res.netLoad)} fill="#3b82f6" />
+                                        {curtailed > 0.5 && (
+                                            <rect x={h * 10 + 1} y={y(res.totalLoad) - 80 * curtailed / peak} width="8" height={80 * curtailed / peak} fill="#ef4444" />
+                                        )}
+                                    </g>
+                                );
+                            })}
+                        </svg>
+                        <div className="flex justify-between mt-2 text-xs font-mono text-slate-400">
+                            <span>净负荷 {currentResult.netLoad.toFixed(0)} MW</span>
+                            <span>
+                                {Object.entries(currentResult.curtailment).map(([genId, c]) =>
+                                    `${genId} 弃电 ${c.mw.toFixed(0)} MW (${c.reason === 'Congestion' ? '阻塞' : '过剩'})`).join(' | ') || '无弃电'}
+                            </span>
+                        </div>
+                    </div>
+                );
+            })()}
+
+            {/* Time series of the run; clicking a chart shows that interval and element on the map */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">时序分析</h3>
+                <AnalyticsDashboard
+                    data={simulated.data} results={simulationResult} currentInterval={currentInterval} selection={selection}
+                    onJump={(t, sel) => { setCurrentInterval(t); if (sel !== undefined) setSelection(sel); }}
+                />
+            </div>
+
+            {/* Violations of the run */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">越限告警</h3>
+                <ViolationList
+                    data={simulated.data} results={simulationResult} currentInterval={currentInterval}
+                    onSelectInterval={setCurrentInterval} onDownload={downloadText}
+                />
+            </div>
+
+            {/* Market settlement of the horizon */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">市场结算</h3>
+                <MarketSettlement
+                    data={simulated.data} results={simulationResult} ftrs={data.ftrs ?? []} busIds={data.buses.map(b => b.id)}
+                    onChangeFtrs={(ftrs) => commitEdit({ ...data, ftrs })}
+                />
             </div>
+
+            {/* Emissions and carbon policy */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">排放与碳价</h3>
+                <EmissionsReport
+                    data={simulated.data} results={simulationResult} carbonPrice={data.carbonPrice} emissionCap={data.emissionCap}
+                    onChangePolicy={(carbonPrice, emissionCap) => commitEdit({ ...data, carbonPrice, emissionCap })}
+                />
+            </div>
+
+            {/* Scenario comparison (B - A) */}
+            {(() => {
+                const a = comparedCase(compare.a);
+                const b = comparedCase(compare.b);
+                if (!a || !b) return null;
+                return (
+                    <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-semibold text-white">情景对比</h3>
+                            <span className="text-xs font-mono text-slate-400">A: {a.name} | B: {b.name}</span>
+                        </div>
+                        <ScenarioCompare a={a} b={b} />
+                    </div>
+                );
+            })()}
         </div>
 
         {/* Right Col: Controls (4 cols) */}
         <div className="col-span-12 lg:col-span-4 flex flex-col gap-6">
+            {/* Network editor: inspector of the element selected on the map */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-white">网络编辑</h3>
+                    <div className="flex gap-1 text-xs">
+                        <button onClick={undo} disabled={history.past.length === 0} title="Ctrl+Z" className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700 disabled:opacity-40">
+                            撤销 {history.past.length || ''}
+                        </button>
+                        <button onClick={redo} disabled={history.future.length === 0} title="Ctrl+Y" className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700 disabled:opacity-40">
+                            重做 {history.future.length || ''}
+                        </button>
+                    </div>
+                </div>
+                <div className="text-xs">
+                    {editErrors.length > 0 && (
+                        <div className="mb-3 space-y-1 font-mono text-red-300">
+                            <div>修改未生效:</div>
+                            {editErrors.map((d, k) => <div key={k}>[{d.code}] {d.message}</div>)}
+                        </div>
+                    )}
+                    <div className="max-h-[420px] overflow-y-auto pr-1">
+                        <Inspector data={data} selection={selection} onSelect={setSelection} onChange={commitEdit} />
+                    </div>
+                </div>
+            </div>
+
+            {/* Case files: MATPOWER / IEEE CDF / PSS/E RAW */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-white">算例文件</h3>
+                    <span className="text-xs font-mono text-slate-400">{caseName} | {data.buses.length} 节点 {data.lines.length} 支路</span>
+                </div>
+                <CaseFiles
+                    data={data} caseName={caseName} operatingPoint={currentResult} currentInterval={currentInterval}
+                    onImport={handleImportCase} onLoadBenchmark={loadBenchmark} onDownload={downloadText}
+                />
+            </div>
+
+            {/* Scenarios: saved cases with their results, kept in the browser */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">情景管理</h3>
+                <ScenarioManager
+                    scenarios={scenarios} onChangeScenarios={setScenarios} compare={compare} onChangeCompare={setCompare}
+                    caseName={caseName} data={simulated.data} results={simulationResult}
+                    onLoadScenario={loadScenario} onDownload={downloadText} onOpenReport={openReport}
+                />
+            </div>
+
+            {/* Results of the current run as tables, JSON or a report */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">结果导出</h3>
+                <div className="space-y-3 text-xs">
+                    <div className="flex gap-2">
+                        <select
+                            value={resultTable} onChange={(e) => setResultTable(e.target.value as ResultTable)}
+                            className="flex-1 bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200"
+                        >
+                            {(Object.keys(RESULT_TABLES) as ResultTable[]).map(t => <option key={t} value={t}>{RESULT_TABLES[t]}</option>)}
+                        </select>
+                        <button
+                            onClick={() => downloadText(resultTableCsv(simulated.data, simulationResult, resultTable), `${caseName}_${resultTable.toLowerCase()}.csv`)}
+                            className="px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700"
+                        >
+                            CSV
+                        </button>
+                        <button
+                            onClick={() => downloadText(resultsJson(simulated.data, simulationResult, caseName), `${caseName}_results.json`)}
+                            className="px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700"
+                        >
+                            全部 JSON
+                        </button>
+                    </div>
+                    <button
+                        onClick={() => openReport(runReport(caseName, simulated.data, simulationResult), `${fileSafe(caseName)}_report.html`)}
+                        className="w-full px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500"
+                    >
+                        运行报告 (可打印为 PDF)
+                    </button>
+                </div>
+            </div>
+
+            {/* Comparison with reference solutions */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">参考解对比</h3>
+                <ReferenceComparison
+                    data={simulated.data} results={simulationResult} references={references} onChangeReferences={setReferences}
+                    caseName={caseName} currentInterval={currentInterval} onDownload={downloadText}
+                />
+            </div>
+
             {/* Control Panel */}
             <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
                 <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
@@ -169,20 +555,67 @@ const App: React.FC = () => {
                 </h3>
                 
                 <div className="space-y-6">
+                    {/* Time Model */}
+                    <div className="grid grid-cols-2 gap-3 text-sm">
+                        <label className="flex flex-col gap-1 text-slate-300">
+                            <span>时段长度</span>
+                            <select
+                                value={intervalMinutes(data)}
+                                onChange={(e) => handleUpdateTimeModel(parseInt(e.target.value) as 5 | 15 | 60, horizonHours(data))}
+                                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200"
+                            >
+                                {[60, 15, 5].map(m => <option key={m} value={m}>{m} 分钟</option>)}
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1 text-slate-300">
+                            <span>时间范围</span>
+                            <select
+                                value={horizonHours(data)}
+                                onChange={(e) => handleUpdateTimeModel(intervalMinutes(data), parseInt(e.target.value))}
+                                className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200"
+                            >
+                                {[24, 48, 72, 168].map(h => <option key={h} value={h}>{h / 24} 天</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    {intervalHours(data) < 1 && (data.storage ?? []).length > 0 && (
+                        <p className="text-xs text-slate-500">分时段调度: 储能按小时级计划的电量衔接各调度窗口</p>
+                    )}
+
                     {/* Load Control */}
                     <div className="space-y-2">
                         <label className="text-sm font-medium text-slate-300 flex justify-between">
                             <span>当前小时负荷调整</span>
-                            <span className="text-blue-400 font-mono">{data.loadProfile[currentHour].toFixed(2)}x</span>
+                            <span className="text-blue-400 font-mono">{data.loadProfile[profileIndex(data.loadProfile)].toFixed(2)}x</span>
                         </label>
                         <input 
                             type="range" min="0.5" max="2.0" step="0.05"
-                            value={data.loadProfile[currentHour]}
+                            value={data.loadProfile[profileIndex(data.loadProfile)]}
                             onChange={(e) => handleUpdateLoad(parseFloat(e.target.value))}
                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
                         />
                     </div>
 
+                    {/* Per-bus load factors */}
+                    <div className="space-y-2">
+                        <label className="text-sm font-medium text-slate-300">节点负荷系数</label>
+                        {data.buses.filter(b => b.baseLoad > 0).map(bus => {
+                            const factor = bus.loadProfile?.length ? bus.loadProfile[profileIndex(bus.loadProfile)] : data.loadProfile[profileIndex(data.loadProfile)];
+                            return (
+                                <div key={bus.id} className="flex items-center gap-3 text-xs">
+                                    <span className="w-24 text-slate-400">{bus.id} {bus.name}</span>
+                                    <input
+                                        type="range" min="0" max="2.0" step="0.05"
+                                        value={factor}
+                                        onChange={(e) => handleUpdateBusLoad(bus.id, parseFloat(e.target.value))}
+                                        className="flex-1 h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-400"
+                                    />
+                                    <span className={`w-12 text-right font-mono ${bus.loadProfile?.length ? 'text-blue-400' : 'text-slate-500'}`}>{factor.toFixed(2)}x</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+
                     <div className="h-px bg-slate-700 my-4"></div>
 
                     {/* Generator Costs */}
@@ -193,11 +626,18 @@ const App: React.FC = () => {
                                 <div className="w-2 h-8 rounded-full" style={{background: gen.color}}></div>
                                 <div className="flex-1">
                                     <div className="flex justify-between text-xs mb-1">
-                                        <span className="font-bold text-slate-200">{gen.name}</span>
+                                        <span className="font-bold text-slate-200">
+                                            {gen.name}
+                                            {currentResult.rampShadowPrices[gen.id] !== undefined && (
+                                                <span className="ml-2 px-1 rounded bg-amber-500/20 text-amber-400 font-normal">
+                                                    {currentResult.rampShadowPrices[gen.id] > 0 ? '上' : '下'}爬坡受限 ${Math.abs(currentResult.rampShadowPrices[gen.id]).toFixed(1)}/MW
+                                                </span>
+                                            )}
+                                        </span>
                                         <span className="text-slate-400">${gen.costB}</span>
                                     </div>
                                     <input 
-                                        type="range" min="10" max="200" step="5"
+                                        type="range" min="0" max="200" step="5"
                                         value={gen.costB}
                                         onChange={(e) => handleUpdateGenCost(gen.id, parseInt(e.target.value))}
                                         className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-slate-400 hover:accent-white"
@@ -208,6 +648,364 @@ const App: React.FC = () => {
                     </div>
                 </div>
             </div>
+
+            {/* N-1 Contingencies */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-white">N-1 预想事故</h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!data.securityConstrained}
+                            onChange={(e) => commitEdit({...data, securityConstrained: e.target.checked})}
+                            className="accent-blue-500"
+                        />
+                        调度考虑 N-1 约束
+                    </label>
+                </div>
+                <table className="w-full text-xs font-mono">
+                    <thead>
+                        <tr className="text-slate-400 border-b border-slate-700">
+                            <th className="text-left py-1">断开元件</th>
+                            <th className="text-left py-1">最重载线路</th>
+                            <th className="text-right py-1">负载率</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        <tr
+                            className={`border-b border-slate-800/50 cursor-pointer hover:bg-slate-800 ${selectedOutage === null ? 'bg-slate-800' : ''}`}
+                            onClick={() => setSelectedOutage(null)}
+                        >
+                            <td className="py-1 text-slate-300" colSpan={3}>基态 (无事故)</td>
+                        </tr>
+                        {[...currentResult.contingencies].sort((a, b) => b.maxLoading - a.maxLoading).map(c => (
+                            <tr
+                                key={c.id}
+                                className={`border-b border-slate-800/50 cursor-pointer hover:bg-slate-800 ${selectedOutage === c.id ? 'bg-slate-800' : ''}`}
+                                onClick={() => setSelectedOutage(c.id)}
+                            >
+                                <td className="py-1 text-slate-300">{c.type === 'Line' ? '线路' : '机组'} {c.id}</td>
+                                <td className="py-1 text-slate-400">{c.islanding ? '解列' : c.worstLineId ?? '-'}</td>
+                                <td className={`py-1 text-right ${c.overloads.length > 0 ? 'text-red-400' : 'text-slate-200'}`}>
+                                    {c.islanding ? '-' : `${c.maxLoading.toFixed(0)}%`}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {currentResult.bindingContingencies.length > 0 && (
+                    <div className="mt-4 space-y-1 text-xs">
+                        <div className="text-slate-400">起作用的 N-1 约束 ($/MWh)</div>
+                        {currentResult.bindingContingencies.map(b => (
+                            <div key={`${b.lineId}-${b.contingencyId}`} className="flex justify-between font-mono">
+                                <span className="text-red-400">{b.lineId} | 断开 {b.contingencyId}</span>
+                                <span className="text-slate-200">{b.shadowPrice.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Scheduled outages and validation warnings */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">检修计划</h3>
+                <OutageSchedule
+                    outages={data.outages ?? []} lineIds={data.lines.map(l => l.id)} generatorIds={data.generators.map(g => g.id)}
+                    active={currentResult.outages} onChange={(outages) => commitEdit({ ...data, outages })}
+                />
+                {currentResult.islands.length > 1 && (
+                    <div className="mt-4 space-y-1 text-xs font-mono">
+                        <div className="text-slate-400">电气岛 (电能价格 $/MWh)</div>
+                        {currentResult.islands.map((island, k) => (
+                            <div key={k} className="flex justify-between">
+                                <span className="text-amber-400">节点 {island.join(', ')}</span>
+                                <span className="text-slate-200">{currentResult.islandEnergy[k]?.toFixed(2) ?? '-'}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {diagnostics.length > 0 && (
+                    <ul className="mt-4 space-y-1 text-xs text-amber-300">
+                        {diagnostics.map((d, k) => <li key={k}>{d.message}</li>)}
+                    </ul>
+                )}
+            </div>
+
+            {/* AC Power Flow check */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-white">AC 潮流校验</h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!data.acPowerFlow}
+                            onChange={(e) => commitEdit({...data, acPowerFlow: e.target.checked})}
+                            className="accent-blue-500"
+                        />
+                        调度后 AC 校验
+                    </label>
+                </div>
+                {currentResult.acFlow && (() => {
+                    const ac = currentResult.acFlow;
+                    return (
+                        <div className="space-y-4 text-xs font-mono">
+                            <div className="flex justify-between">
+                                <span className={ac.converged ? 'text-green-400' : 'text-red-400'}>
+                                    {ac.converged ? `收敛 (${ac.iterations} 次迭代)` : '不收敛'}
+                                </span>
+                                <span className="text-slate-300">网损 {ac.losses.toFixed(1)} MW | 平衡节点 {ac.slackPower.toFixed(1)} MW</span>
+                            </div>
+                            <table className="w-full">
+                                <thead>
+                                    <tr className="text-slate-400 border-b border-slate-700">
+                                        <th className="text-left py-1">节点</th>
+                                        <th className="text-right py-1">电压 p.u.</th>
+                                        <th className="text-right py-1">相角 °</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {simulated.data.buses.map(bus => {
+                                        const v = ac.voltages[bus.id];
+                                        const outside = ac.violations.some(x => x.type === 'Voltage' && x.id === String(bus.id));
+                                        return (
+                                            <tr key={bus.id} className="border-b border-slate-800/50">
+                                                <td className="py-1 text-slate-300">
+                                                    {bus.id} {bus.name}
+                                                    {ac.pqBuses.includes(bus.id) && <span className="ml-1 text-amber-400">Q限</span>}
+                                                </td>
+                                                <td className={`py-1 text-right ${outside ? 'text-red-400' : 'text-white'}`}>{v.vm.toFixed(3)}</td>
+                                                <td className="py-1 text-right text-slate-400">{v.va.toFixed(2)}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                            {/* DC vs AC: where the lossless approximation misleads */}
+                            <table className="w-full">
+                                <thead>
+                                    <tr className="text-slate-400 border-b border-slate-700">
+                                        <th className="text-left py-1">线路</th>
+                                        <th className="text-right py-1">DC MW</th>
+                                        <th className="text-right py-1">AC MW / MVAr</th>
+                                        <th className="text-right py-1">AC 负载率</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {simulated.data.lines.map(line => {
+                                        const f = ac.lineFlows[line.id];
+                                        return (
+                                            <tr key={line.id} className="border-b border-slate-800/50">
+                                                <td className="py-1 text-slate-300">{line.id}</td>
+                                                <td className="py-1 text-right text-slate-400">{currentResult.lineFlows[line.id].toFixed(1)}</td>
+                                                <td className="py-1 text-right text-slate-200">{f.pFrom.toFixed(1)} / {f.qFrom.toFixed(1)}</td>
+                                                <td className={`py-1 text-right ${f.loading > 100 ? 'text-red-400' : f.loading > currentResult.lineLoading[line.id] + 5 ? 'text-amber-400' : 'text-slate-400'}`}>
+                                                    {f.loading.toFixed(1)}%
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    );
+                })()}
+            </div>
+
+            {/* Nodal Prices */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="text-lg font-semibold text-white">节点电价 (LMP)</h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!!data.modelLosses}
+                            onChange={(e) => commitEdit({...data, modelLosses: e.target.checked})}
+                            className="accent-blue-500"
+                        />
+                        计及网损
+                    </label>
+                </div>
+                <table className="w-full text-xs font-mono">
+                    <thead>
+                        <tr className="text-slate-400 border-b border-slate-700">
+                            <th className="text-left py-1">节点</th>
+                            <th className="text-right py-1">LMP</th>
+                            <th className="text-right py-1">电能</th>
+                            <th className="text-right py-1">网损</th>
+                            <th className="text-right py-1">阻塞</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {simulated.data.buses.map(bus => (
+                            <tr key={bus.id} className="border-b border-slate-800/50">
+                                <td className="py-1 text-slate-300">{bus.id} {bus.name}</td>
+                                <td className="py-1 text-right text-white">${currentResult.lmp[bus.id].toFixed(2)}</td>
+                                <td className="py-1 text-right text-slate-400">{energyPrice(bus.id).toFixed(2)}</td>
+                                <td className={`py-1 text-right ${Math.abs(currentResult.lmpLoss[bus.id]) > 0.005 ? 'text-amber-400' : 'text-slate-500'}`}>
+                                    {currentResult.lmpLoss[bus.id].toFixed(2)}
+                                </td>
+                                <td className={`py-1 text-right ${Math.abs(currentResult.lmpCongestion[bus.id]) > 0.005 ? 'text-red-400' : 'text-slate-500'}`}>
+                                    {currentResult.lmpCongestion[bus.id].toFixed(2)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                {data.modelLosses && (
+                    <div className="mt-4 flex justify-between text-xs font-mono">
+                        <span className="text-slate-400">系统网损</span>
+                        <span className="text-slate-200">{currentResult.losses.toFixed(2)} MW | ${currentResult.lossCost.toFixed(0)}</span>
+                    </div>
+                )}
+                {Object.keys(currentResult.lineShadowPrices).length > 0 && (
+                    <div className="mt-4 space-y-1 text-xs">
+                        <div className="text-slate-400">阻塞线路影子价格 ($/MWh)</div>
+                        {Object.entries(currentResult.lineShadowPrices).map(([lineId, price]) => (
+                            <div key={lineId} className="flex justify-between font-mono">
+                                <span className="text-red-400">{lineId}</span>
+                                <span className="text-slate-200">{price.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {currentResult.supplyEvents.length > 0 && (
+                    <div className="mt-4 space-y-1 text-xs">
+                        <div className="text-slate-400">供需失衡 (MW | $/MWh)</div>
+                        {currentResult.supplyEvents.map(e => (
+                            <div key={`${e.type}-${e.busId}`} className="flex justify-between font-mono">
+                                <span className={e.type === 'LoadShedding' ? 'text-red-400' : 'text-amber-400'}>
+                                    节点 {e.busId} {e.type === 'LoadShedding' ? '切负荷' : '弃发电'}
+                                </span>
+                                <span className="text-slate-200">{e.mw.toFixed(1)} | {e.price.toFixed(2)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Demand */}
+            <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                <h3 className="text-lg font-semibold text-white mb-4">需求 (Demand)</h3>
+                <div className="space-y-1 text-xs font-mono">
+                    <div className="flex justify-between">
+                        <span className="text-slate-400">申报需求</span>
+                        <span className="text-slate-200">{currentResult.requestedLoad.toFixed(1)} MW</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-slate-400">实际供应</span>
+                        <span className={currentResult.servedLoad < currentResult.requestedLoad - 0.05 ? 'text-amber-400' : 'text-green-400'}>
+                            {currentResult.servedLoad.toFixed(1)} MW
+                        </span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-slate-400">需求侧福利</span>
+                        <span className="text-slate-200">${currentResult.demandWelfare.toFixed(0)}</span>
+                    </div>
+                </div>
+                {(data.demandBids ?? []).length > 0 && (
+                    <table className="w-full text-xs font-mono mt-4">
+                        <thead>
+                            <tr className="text-slate-400 border-b border-slate-700">
+                                <th className="text-left py-1">报价</th>
+                                <th className="text-right py-1">价格</th>
+                                <th className="text-right py-1">中标 / 申报</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(data.demandBids ?? []).map(bid => {
+                                const served = currentResult.demandServed[bid.id] ?? 0;
+                                const mw = bidMW(data, bid, currentInterval);
+                                return (
+                                    <tr key={bid.id} className="border-b border-slate-800/50">
+                                        <td className="py-1 text-slate-300">{bid.id} 节点 {bid.busId} {bid.interruptible ? '可中断' : '响应'}</td>
+                                        <td className="py-1 text-right text-slate-200">${bid.price}</td>
+                                        <td className={`py-1 text-right ${served < mw - 0.05 ? 'text-amber-400' : 'text-white'}`}>
+                                            {served.toFixed(1)} / {mw.toFixed(1)}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {/* Storage */}
+            {(data.storage ?? []).map(st => {
+                const mw = currentResult.storageOutput[st.id] ?? 0;
+                const points = simulationResult.map((res, h) => `${h * 10 + 5},${40 - 40 * (res.storageSoc[st.id] ?? 0) / st.energyMWh}`);
+                return (
+                    <div key={st.id} className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-semibold text-white">{st.name}</h3>
+                            <span className={`text-xs font-mono ${Math.abs(mw) < 0.5 ? 'text-slate-400' : mw > 0 ? 'text-green-400' : 'text-blue-400'}`}>
+                                {Math.abs(mw) < 0.5 ? '待机' : mw > 0 ? `放电 ${mw.toFixed(1)} MW` : `充电 ${(-mw).toFixed(1)} MW`}
+                            </span>
+                        </div>
+                        {/* SOC trace (line) over charge / discharge bars, click an hour to jump to it */}
+                        <svg viewBox={`0 0 ${chartWidth} 80`} preserveAspectRatio="none" className="w-full h-24 bg-slate-950/50 rounded-lg border border-slate-800/50">
+                            <line x1="0" y1="60" x2={chartWidth} y2="60" stroke="#334155" strokeWidth="0.5" vectorEffect="non-scaling-stroke" />
+                            {simulationResult.map((res, h) => {
+                                const out = res.storageOutput[st.id] ?? 0;
+                                const barHeight = 18 * Math.abs(out) / Math.max(st.chargeMW, st.dischargeMW);
+                                return (
+                                    <g key={h} className="cursor-pointer" onClick={() => setCurrentInterval(h)}>
+                                        <rect x={h * 10} y="0" width="10" height="80" fill={h === currentInterval ? '#1e293b' : 'transparent'} />
+                                        <rect x={h * 10 + 2} y={out > 0 ? 60 - barHeight : 60} width="6" height={barHeight} fill={out > 0 ? '#4ade80' : '#60a5fa'} />
+                                    </g>
+                                );
+                            })}
+                            <polyline points={points.join(' ')} fill="none" stroke={st.color} strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                        </svg>
+                        <div className="flex justify-between mt-2 text-xs font-mono text-slate-400">
+                            <span>SOC {((currentResult.storageSoc[st.id] ?? 0) / st.energyMWh * 100).toFixed(0)}% ({(currentResult.storageSoc[st.id] ?? 0).toFixed(0)} MWh)</span>
+                            <span>{st.dischargeMW} MW / {st.energyMWh} MWh</span>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {/* Reserves */}
+            {(data.reserveRequirements ?? []).length > 0 && (
+                <div className="bg-slate-900 rounded-xl border border-slate-800 p-6 shadow-lg">
+                    <h3 className="text-lg font-semibold text-white mb-4">备用 (Reserves)</h3>
+                    <table className="w-full text-xs font-mono">
+                        <thead>
+                            <tr className="text-slate-400 border-b border-slate-700">
+                                <th className="text-left py-1">需求</th>
+                                <th className="text-right py-1">需求量</th>
+                                <th className="text-right py-1">价格</th>
+                                <th className="text-right py-1">短缺</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {(data.reserveRequirements ?? []).map(req => (
+                                <tr key={req.id} className="border-b border-slate-800/50">
+                                    <td className="py-1 text-slate-300">{req.id} {req.product === 'Spinning' ? '旋转' : '非旋转'}</td>
+                                    <td className="py-1 text-right text-slate-200">{(currentResult.reserveRequired[req.id] ?? 0).toFixed(1)}</td>
+                                    <td className="py-1 text-right text-white">${(currentResult.reservePrices[req.id] ?? 0).toFixed(2)}</td>
+                                    <td className={`py-1 text-right ${(currentResult.reserveShortfall[req.id] ?? 0) > 1e-6 ? 'text-red-400' : 'text-slate-500'}`}>
+                                        {(currentResult.reserveShortfall[req.id] ?? 0).toFixed(1)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="mt-4 space-y-1 text-xs">
+                        <div className="text-slate-400">机组备用中标 (MW)</div>
+                        {Object.entries(currentResult.reserveAwards).map(([genId, award]) => (
+                            <div key={genId} className="flex justify-between font-mono">
+                                <span className="text-slate-300">{genId}</span>
+                                <span className="text-slate-200">旋转 {award.spinning.toFixed(1)} | 非旋转 {award.nonSpinning.toFixed(1)}</span>
+                            </div>
+                        ))}
+                        <div className="flex justify-between font-mono pt-1">
+                            <span className="text-slate-400">备用成本</span>
+                            <span className="text-slate-200">${currentResult.reserveCost.toFixed(0)}</span>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
 
       </main>
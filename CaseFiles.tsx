@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { CaseFormat, HourlyDispatch, ParseMessage, SystemData } from './types';
+import { CASE_EXTENSIONS, exportCase, importCase } from './caseio';
+import { BENCHMARK_CASES, BenchmarkCase } from './benchmarks';
+
+// Case files: load MATPOWER / IEEE CDF / PSS/E RAW files or a library case, and
+// export the case, optionally with the operating point of the current interval.
+
+interface CaseFilesProps {
+  data: SystemData;
+  caseName: string;
+  operatingPoint: HourlyDispatch;
+  currentInterval: number;
+  onImport: (data: SystemData, caseName: string) => void;
+  onLoadBenchmark: (benchmark: BenchmarkCase) => void;
+  onDownload: (text: string, fileName: string) => void;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200';
+
+export const CaseFiles: React.FC<CaseFilesProps> = ({ data, caseName, operatingPoint, currentInterval, onImport, onLoadBenchmark, onDownload }) => {
+  const [importLog, setImportLog] = useState<{ fileName: string; messages: ParseMessage[] } | null>(null);
+  const [format, setFormat] = useState<CaseFormat>('MATPOWER');
+  const [withDispatch, setWithDispatch] = useState(false);
+
+  // Files with parse errors are not loaded
+  const loadFile = async (file: File) => {
+    const result = importCase(file.name, await file.text());
+    setImportLog({ fileName: file.name, messages: result.messages });
+    if (result.data) onImport(result.data, file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const loadBenchmark = (benchmark: BenchmarkCase) => {
+    setImportLog(null);
+    onLoadBenchmark(benchmark);
+  };
+
+  const exportFile = () => {
+    const text = exportCase(data, format, caseName, withDispatch ? operatingPoint : undefined);
+    const suffix = withDispatch ? `_t${currentInterval + 1}` : '';
+    onDownload(text, `${caseName}${suffix}${CASE_EXTENSIONS[format]}`);
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex gap-2">
+        <label className="flex-1 text-center px-3 py-1 rounded-md bg-blue-600 text-white cursor-pointer hover:bg-blue-500">
+          载入文件 (.m / .cdf / .raw)
+          <input
+            type="file" accept=".m,.cdf,.txt,.raw" className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) loadFile(file); }}
+          />
+        </label>
+        <select
+          value=""
+          onChange={(e) => { const benchmark = BENCHMARK_CASES.find(b => b.id === e.target.value); if (benchmark) loadBenchmark(benchmark); }}
+          className={inputClass}
+        >
+          <option value="" disabled>算例库</option>
+          {BENCHMARK_CASES.map(b => <option key={b.id} value={b.id} title={b.description}>{b.name}</option>)}
+        </select>
+      </div>
+      <div className="flex gap-2 items-center">
+        <select value={format} onChange={(e) => setFormat(e.target.value as CaseFormat)} className={inputClass}>
+          <option value="MATPOWER">MATPOWER</option>
+          <option value="IEEE-CDF">IEEE CDF</option>
+          <option value="PSSE-RAW">PSS/E RAW v33</option>
+        </select>
+        <label className="flex items-center gap-1 text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={withDispatch} onChange={(e) => setWithDispatch(e.target.checked)} className="accent-blue-500" />
+          当前时段运行点
+        </label>
+        <button onClick={exportFile} className="ml-auto px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700">
+          导出
+        </button>
+      </div>
+      {importLog && (
+        <div className="max-h-32 overflow-y-auto space-y-1 font-mono">
+          <div className="text-slate-400">{importLog.fileName}: {importLog.messages.length === 0 ? '载入成功' : `${importLog.messages.length} 条提示`}</div>
+          {importLog.messages.map((m, k) => (
+            <div key={k} className={m.severity === 'Error' ? 'text-red-300' : 'text-amber-300'}>
+              {m.line > 0 ? `第 ${m.line} 行: ` : ''}{m.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Emissions, SimulationResult, SystemData } from './types';
+import { horizonCo2, intervalCo2 } from './emissions';
+import { intervalHours, intervalLabel } from './time';
+
+// Emissions of a run: totals against the cap, CO2 per interval and per unit,
+// and the carbon price the run was dispatched at. The carbon price and the
+// emission cap of the working case are set here.
+
+interface EmissionsReportProps {
+  data: SystemData; // Case the results were computed for
+  results: SimulationResult;
+  carbonPrice?: number; // Policy of the working case
+  emissionCap?: number;
+  onChangePolicy: (carbonPrice: number | undefined, emissionCap: number | undefined) => void;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 w-24';
+const optionalNumber = (text: string) => (text.trim() === '' || !isFinite(parseFloat(text)) ? undefined : Math.max(0, parseFloat(text)));
+
+export const EmissionsReport: React.FC<EmissionsReportProps> = ({ data, results, carbonPrice, emissionCap, onChangePolicy }) => {
+  const [draft, setDraft] = useState({ price: carbonPrice?.toString() ?? '', cap: emissionCap?.toString() ?? '' });
+  useEffect(() => setDraft({ price: carbonPrice?.toString() ?? '', cap: emissionCap?.toString() ?? '' }), [carbonPrice, emissionCap]);
+
+  const dt = intervalHours(data);
+  const units = useMemo(() => data.generators.map(g => {
+    const total: Emissions = { co2: 0, nox: 0, so2: 0 };
+    let mwh = 0;
+    results.forEach(r => {
+      const e = r.emissions[g.id];
+      if (!e) return;
+      total.co2 += e.co2;
+      total.nox += e.nox;
+      total.so2 += e.so2;
+      mwh += (r.genOutput[g.id] ?? 0) * dt;
+    });
+    return { id: g.id, name: g.name, color: g.color, mwh, ...total };
+  }), [data, results, dt]);
+
+  const co2 = horizonCo2(results);
+  const perInterval = results.map(intervalCo2);
+  const peak = Math.max(1e-6, ...perInterval);
+  const last = results[results.length - 1];
+  const cap = data.emissionCap;
+  const totalOf = (key: keyof Emissions) => units.reduce((sum, u) => sum + u[key], 0);
+
+  const summary: [string, string, string?][] = [
+    ['CO2', `${co2.toFixed(1)} t`],
+    ['NOx', `${totalOf('nox').toFixed(0)} kg`],
+    ['SO2', `${totalOf('so2').toFixed(0)} kg`],
+    ['碳成本', `$${results.reduce((sum, r) => sum + r.carbonCost, 0).toFixed(0)}`],
+    ['调度碳价', last ? `$${last.carbonPrice.toFixed(2)}/t` : '—'],
+    ['排放上限影子价格', last ? `$${last.carbonShadowPrice.toFixed(2)}/t` : '—', last && last.carbonShadowPrice > 0 ? 'text-amber-400' : undefined],
+  ];
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="flex gap-2 items-end">
+        <label className="flex flex-col gap-1 text-slate-400">
+          <span>碳价 $/t</span>
+          <input type="number" min={0} value={draft.price} placeholder="0" onChange={(e) => setDraft({ ...draft, price: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-400">
+          <span>排放上限 t CO2</span>
+          <input type="number" min={0} value={draft.cap} placeholder="无" onChange={(e) => setDraft({ ...draft, cap: e.target.value })} className={inputClass} />
+        </label>
+        <button
+          onClick={() => onChangePolicy(optionalNumber(draft.price), optionalNumber(draft.cap))}
+          className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500"
+        >
+          应用
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {summary.map(([label, value, color]) => (
+          <div key={label} className="bg-slate-800/50 rounded-md p-2">
+            <div className="text-slate-400">{label}</div>
+            <div className={`font-mono ${color ?? 'text-slate-200'}`}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {cap !== undefined && (
+        <div>
+          <div className="flex justify-between text-slate-400 mb-1">
+            <span>排放上限使用</span>
+            <span className={`font-mono ${co2 > cap + 1e-6 ? 'text-red-400' : 'text-slate-300'}`}>{co2.toFixed(1)} / {cap.toFixed(0)} t</span>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className={`h-full ${co2 > cap + 1e-6 ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, cap > 0 ? co2 / cap * 100 : 100)}%` }} />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="text-slate-400 mb-1">各时段 CO2 (t)</div>
+        <div className="h-16 flex items-end gap-px">
+          {perInterval.map((value, t) => (
+            <div key={t} title={`${intervalLabel(data, t)}: ${value.toFixed(2)} t`} className="flex-1 bg-slate-500 hover:bg-slate-400 rounded-t-sm" style={{ height: `${value / peak * 100}%` }} />
+          ))}
+        </div>
+      </div>
+
+      <table className="w-full font-mono">
+        <thead className="text-slate-500">
+          <tr>
+            <th className="text-left">机组</th><th className="text-right">电量 MWh</th><th className="text-right">CO2 t</th>
+            <th className="text-right">NOx kg</th><th className="text-right">SO2 kg</th><th className="text-right">t/MWh</th>
+          </tr>
+        </thead>
+        <tbody>
+          {units.map(u => (
+            <tr key={u.id} className="border-b border-slate-800/50">
+              <td className="text-slate-300"><span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: u.color }} />{u.id}</td>
+              <td className="text-right text-slate-400">{u.mwh.toFixed(0)}</td>
+              <td className={`text-right ${u.co2 > 0 ? 'text-slate-200' : 'text-slate-500'}`}>{u.co2.toFixed(1)}</td>
+              <td className="text-right text-slate-400">{u.nox.toFixed(0)}</td>
+              <td className="text-right text-slate-400">{u.so2.toFixed(0)}</td>
+              <td className="text-right text-slate-400">{u.mwh > 1e-6 ? (u.co2 / u.mwh).toFixed(3) : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
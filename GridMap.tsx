@@ -1,12 +1,36 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { SystemData, HourlyDispatch } from './types';
+import { incrementalCost } from './dispatch';
+import { busLoad } from './loads';
+import { Selection } from './editor';
 
 interface GridMapProps {
   data: SystemData;
   result: HourlyDispatch;
+  // Selected N-1 outage and its post-contingency flows (MW per line id)
+  outage?: { id: string; flows: Record<string, number> } | null;
+  // Editing (all optional: without onSelect the map is display-only). Positions
+  // are map coordinates 0-100; a dragged bus is committed once, on release.
+  selection?: Selection;
+  onSelect?: (selection: Selection) => void;
+  onMoveBus?: (busId: number, x: number, y: number) => void;
+  onAddBus?: (x: number, y: number) => void;
+  onAddLine?: (fromBus: number, toBus: number) => void;
 }
 
-export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
+type Tool = 'Select' | 'AddBus' | 'AddLine';
+
+const TOOLS: [Tool, string][] = [['Select', '选择 / 拖动'], ['AddBus', '添加节点'], ['AddLine', '添加线路']];
+const SELECTED = "#f59e0b"; // Amber 500
+
+export const GridMap: React.FC<GridMapProps> = ({ data, result, outage, selection, onSelect, onMoveBus, onAddBus, onAddLine }) => {
+  const editable = !!onSelect;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tool, setTool] = useState<Tool>('Select');
+  const [drag, setDrag] = useState<{ busId: number; x: number; y: number; moved: boolean } | null>(null);
+  const [lineFrom, setLineFrom] = useState<number | null>(null); // First bus of a line being added
+
+
   // Scaling factors for the map 0-100 coordinate system to SVG pixels
   const width = 600;
   const height = 400;
@@ -20,9 +44,67 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
   const scaleX = (x: number) => (x / 100) * width;
   const scaleY = (y: number) => (y / 100) * height;
 
+  // Pointer position in map coordinates
+  const mapPoint = (e: React.PointerEvent | React.MouseEvent) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return { x: 0, y: 0 };
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: Math.min(100, Math.max(0, (p.x / width) * 100)), y: Math.min(100, Math.max(0, (p.y / height) * 100)) };
+  };
+  // Bus position, following the pointer while dragged
+  const position = (busId: number) => {
+    if (drag?.busId === busId) return drag;
+    return data.buses.find(b => b.id === busId)!;
+  };
+
+  const handleBusPointerDown = (e: React.PointerEvent, busId: number) => {
+    if (!editable) return;
+    e.stopPropagation();
+    if (tool === 'AddLine') {
+      if (lineFrom === null) setLineFrom(busId);
+      else if (lineFrom !== busId) {
+        onAddLine?.(lineFrom, busId);
+        setLineFrom(null);
+      }
+      return;
+    }
+    onSelect({ kind: 'Bus', id: busId });
+    if (tool === 'Select' && onMoveBus) {
+      svgRef.current?.setPointerCapture(e.pointerId);
+      setDrag({ busId, ...position(busId), moved: false });
+    }
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, ...mapPoint(e), moved: true });
+  };
+  const handlePointerUp = () => {
+    if (drag?.moved) onMoveBus?.(drag.busId, drag.x, drag.y);
+    setDrag(null);
+  };
+  const handleBackgroundClick = (e: React.MouseEvent) => {
+    if (!editable || !(e.target as Element).hasAttribute('data-background')) return;
+    if (tool === 'AddBus') {
+      const { x, y } = mapPoint(e);
+      onAddBus?.(x, y);
+    } else {
+      setLineFrom(null);
+      onSelect(null);
+    }
+  };
+  const selectElement = (e: React.PointerEvent, next: Selection) => {
+    if (!editable || tool !== 'Select') return;
+    e.stopPropagation();
+    onSelect(next);
+  };
+
   return (
     <div className="relative bg-grid-900 border border-grid-700 rounded-xl overflow-hidden shadow-inner w-full h-full">
         <svg 
+            ref={svgRef}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onClick={handleBackgroundClick}
             width="100%" 
             height="100%" 
             viewBox={viewBoxStr} 
@@ -44,14 +126,20 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
             <pattern id="smallGrid" width="20" height="20" patternUnits="userSpaceOnUse">
                 <path d="M 20 0 L 0 0 0 20" fill="none" stroke="#1e293b" strokeWidth="0.5"/>
             </pattern>
-            <rect x={-paddingX} y={-paddingY} width={width + paddingX*2} height={height + paddingY*2} fill="url(#smallGrid)" fillOpacity="0.3" />
+            <rect x={-paddingX} y={-paddingY} width={width + paddingX*2} height={height + paddingY*2} fill="url(#smallGrid)" fillOpacity="0.3" data-background className={editable && tool === 'AddBus' ? 'cursor-crosshair' : undefined} />
 
             {/* Transmission Lines */}
             {data.lines.map(line => {
-                const b1 = data.buses.find(b => b.id === line.fromBus)!;
-                const b2 = data.buses.find(b => b.id === line.toBus)!;
-                const loading = result.lineLoading[line.id];
-                const isOverloaded = loading > 100;
+                const b1 = position(line.fromBus);
+                const b2 = position(line.toBus);
+                const isSelected = selection?.kind === 'Line' && selection.id === line.id;
+                const isOutaged = outage?.id === line.id;
+                const isScheduled = result.outages.includes(line.id); // Out for maintenance
+                // Post-contingency loading is measured against the emergency rating
+                const loading = outage
+                    ? Math.abs(outage.flows[line.id] ?? 0) / (line.emergencyCapacity ?? line.capacity) * 100
+                    : result.lineLoading[line.id] ?? 0; // New line: not in the last result yet
+                const isOverloaded = !isOutaged && loading > 100;
                 
                 // Color interpolation based on loading
                 let strokeColor = "#475569"; // Slate 600
@@ -60,9 +148,15 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
                 if (loading > 90) { strokeColor = "#ef4444"; strokeWidth = 4; } // Red
                 else if (loading > 70) { strokeColor = "#eab308"; strokeWidth = 3; } // Yellow
                 else if (loading > 40) { strokeColor = "#3b82f6"; } // Blue
+                if (isOutaged || isScheduled) { strokeColor = "#64748b"; strokeWidth = 2; }
+                if (isSelected) strokeColor = SELECTED;
 
                 return (
-                    <g key={line.id}>
+                    <g key={line.id} onPointerDown={(e) => selectElement(e, { kind: 'Line', id: line.id })} className={editable ? 'cursor-pointer' : undefined}>
+                        {/* Wide transparent stroke as the click target */}
+                        {editable && (
+                            <line x1={scaleX(b1.x)} y1={scaleY(b1.y)} x2={scaleX(b2.x)} y2={scaleY(b2.y)} stroke="transparent" strokeWidth={14} />
+                        )}
                         <line 
                             x1={scaleX(b1.x)} y1={scaleY(b1.y)}
                             x2={scaleX(b2.x)} y2={scaleY(b2.y)}
@@ -70,13 +164,14 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
                             strokeWidth={strokeWidth}
                             strokeOpacity={0.8}
                             strokeLinecap="round"
+                            strokeDasharray={isOutaged || isScheduled ? "6 6" : undefined}
                         />
                         {/* Flow Text Label - Midpoint */}
                         <g transform={`translate(${(scaleX(b1.x) + scaleX(b2.x)) / 2}, ${(scaleY(b1.y) + scaleY(b2.y)) / 2})`}>
                             <rect 
                                 x="-24" y="-12"
                                 width="48" height="24" rx="6"
-                                fill="#0f172a" stroke={isOverloaded ? "#ef4444" : "#334155"} strokeWidth="1"
+                                fill="#0f172a" stroke={isSelected ? SELECTED : isOverloaded ? "#ef4444" : "#334155"} strokeWidth="1"
                             />
                             <text 
                                 x="0" y="0"
@@ -87,7 +182,7 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
                                 fontWeight="bold"
                                 style={{ fontVariantNumeric: "tabular-nums" }}
                             >
-                                {Math.round(loading)}%
+                                {isScheduled ? "检修" : isOutaged ? "断开" : `${Math.round(loading)}%`}
                             </text>
                         </g>
                     </g>
@@ -95,18 +190,25 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
             })}
 
             {/* Buses */}
-            {data.buses.map(bus => {
+            {data.buses.map(busData => {
+                const bus = drag?.busId === busData.id ? { ...busData, x: drag.x, y: drag.y } : busData;
+                const isSelected = selection?.kind === 'Bus' && selection.id === bus.id;
                 const gen = data.generators.find(g => g.busId === bus.id);
                 const isGenBus = !!gen;
+                const isTripped = !!gen && outage?.id === gen.id;
+                const isScheduled = !!gen && result.outages.includes(gen.id);
+                const shed = result.supplyEvents.find(e => e.type === 'LoadShedding' && e.busId === bus.id);
+                const store = data.storage?.find(st => st.busId === bus.id);
                 
                 return (
-                    <g key={bus.id} className="cursor-pointer hover:opacity-80 transition-opacity">
+                    <g key={bus.id} onPointerDown={(e) => handleBusPointerDown(e, bus.id)} className="cursor-pointer hover:opacity-80 transition-opacity">
                         {/* Bus Circle */}
                         <circle 
                             cx={scaleX(bus.x)} cy={scaleY(bus.y)} 
                             r={isGenBus ? 22 : 14} 
                             fill={isGenBus ? "#1e293b" : "#0f172a"}
-                            stroke={isGenBus ? "#3b82f6" : "#94a3b8"}
+                            stroke={isSelected || lineFrom === bus.id ? SELECTED : isGenBus ? "#3b82f6" : "#94a3b8"}
+                            strokeDasharray={lineFrom === bus.id ? "4 3" : undefined}
                             strokeWidth={isGenBus ? 4 : 3}
                             filter={isGenBus && result.genStatus[gen.id] ? "url(#glow)" : ""}
                         />
@@ -127,12 +229,13 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
                             fontSize="12"
                             fontWeight="500"
                         >
-                            负荷: {(bus.baseLoad * data.loadProfile[result.hour]).toFixed(0)} MW
+                            负荷: {busLoad(data, bus, result.interval).toFixed(0)} MW
+                            {shed && <tspan fill="#f87171"> (切 {shed.mw.toFixed(0)})</tspan>}
                         </text>
 
                         {/* Generator Indicator - Above the bus */}
                         {isGenBus && (
-                            <g transform={`translate(${scaleX(bus.x)}, ${scaleY(bus.y) - 50})`}>
+                            <g transform={`translate(${scaleX(bus.x)}, ${scaleY(bus.y) - 50})`} onPointerDown={(e) => selectElement(e, { kind: 'Generator', id: gen.id })}>
                                 {/* Connector line */}
                                 <line x1="0" y1="20" x2="0" y2="0" stroke="#475569" strokeWidth="2" />
                                 
@@ -140,28 +243,70 @@ export const GridMap: React.FC<GridMapProps> = ({ data, result }) => {
                                 <rect 
                                     x="-40" y="-36" width="80" height="40" rx="6" 
                                     fill="#1e293b" 
-                                    stroke={result.genStatus[gen.id] ? "#22c55e" : "#64748b"} 
+                                    stroke={selection?.kind === 'Generator' && selection.id === gen.id ? SELECTED : result.genStatus[gen.id] ? "#22c55e" : "#64748b"} 
                                     strokeWidth="2"
                                     className="drop-shadow-md"
                                 />
-                                <text x="0" y="-22" textAnchor="middle" fill={result.genStatus[gen.id] ? "#4ade80" : "#94a3b8"} fontSize="12" fontWeight="bold">
-                                    {result.genStatus[gen.id] ? `${result.genOutput[gen.id]?.toFixed(0)} MW` : "OFF"}
+                                <text x="0" y="-22" textAnchor="middle" fill={result.genStatus[gen.id] && !isTripped ? "#4ade80" : "#94a3b8"} fontSize="12" fontWeight="bold">
+                                    {isScheduled ? "检修" : isTripped ? "跳闸" : result.genStatus[gen.id] ? `${result.genOutput[gen.id]?.toFixed(0)} MW` : "OFF"}
                                 </text>
                                 <text x="0" y="-7" textAnchor="middle" fill="#cbd5e1" fontSize="10">
-                                    ${gen.costB}/MWh
+                                    ${incrementalCost(gen, result.genStatus[gen.id] ? result.genOutput[gen.id] : gen.pMin).toFixed(1)}/MWh
                                 </text>
                             </g>
                         )}
+
+                        {/* Storage Indicator - Right of the bus, arrow shows charge / discharge */}
+                        {store && (() => {
+                            const mw = result.storageOutput[store.id] ?? 0;
+                            const soc = (result.storageSoc[store.id] ?? 0) / store.energyMWh;
+                            const idle = Math.abs(mw) < 0.5;
+                            return (
+                                <g transform={`translate(${scaleX(bus.x) + (isGenBus ? 30 : 22)}, ${scaleY(bus.y)})`}>
+                                    <line x1="0" y1="0" x2="12" y2="0" stroke="#475569" strokeWidth="2" />
+                                    <rect x="12" y="-20" width="72" height="40" rx="6" fill="#1e293b" stroke={store.color} strokeWidth="2" />
+                                    {/* SOC gauge */}
+                                    <rect x="18" y="-14" width="8" height="28" rx="2" fill="#0f172a" stroke="#475569" strokeWidth="1" />
+                                    <rect x="18" y={14 - 28 * soc} width="8" height={28 * soc} rx="2" fill={store.color} />
+                                    <text x="54" y="-5" textAnchor="middle" fill={idle ? "#94a3b8" : mw > 0 ? "#4ade80" : "#60a5fa"} fontSize="11" fontWeight="bold">
+                                        {idle ? "待机" : `${mw > 0 ? "↑" : "↓"} ${Math.abs(mw).toFixed(0)} MW`}
+                                    </text>
+                                    <text x="54" y="10" textAnchor="middle" fill="#cbd5e1" fontSize="10">
+                                        SOC {(soc * 100).toFixed(0)}%
+                                    </text>
+                                </g>
+                            );
+                        })()}
                     </g>
                 );
             })}
         </svg>
         
+        {/* Editing tools */}
+        {editable && (
+            <div className="absolute top-4 right-4 flex gap-1 bg-grid-900/95 backdrop-blur-sm p-1 rounded-lg border border-grid-700 text-xs shadow-xl">
+                {TOOLS.map(([t, label]) => (
+                    <button
+                        key={t}
+                        onClick={() => { setTool(t); setLineFrom(null); }}
+                        className={`px-2 py-1 rounded-md ${tool === t ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-800'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+                {tool === 'AddLine' && (
+                    <span className="px-2 py-1 text-amber-300">{lineFrom === null ? '点击起点节点' : `${lineFrom} → 点击终点节点`}</span>
+                )}
+            </div>
+        )}
+
         {/* Legend Overlay - Positioned absolutely in the corner */}
         <div className="absolute bottom-4 left-4 bg-grid-900/95 backdrop-blur-sm p-3 rounded-lg border border-grid-700 text-xs text-grid-300 shadow-xl pointer-events-none">
             <div className="flex items-center gap-2 mb-2"><div className="w-3 h-3 bg-blue-500 rounded-full border-2 border-blue-900"></div> <span className="text-slate-200">发电节点</span></div>
             <div className="flex items-center gap-2 mb-2"><div className="w-3 h-3 bg-slate-900 border-2 border-slate-400 rounded-full"></div> <span className="text-slate-200">负荷节点</span></div>
             <div className="flex items-center gap-2"><div className="w-6 h-1 bg-red-500 rounded"></div> <span className="text-slate-200">线路过载 (&gt;100%)</span></div>
+            {(data.storage ?? []).length > 0 && <div className="flex items-center gap-2 mt-2"><div className="w-3 h-3 bg-violet-400 rounded-sm"></div> <span className="text-slate-200">储能 (↑放电 / ↓充电)</span></div>}
+            {outage && <div className="flex items-center gap-2 mt-2"><div className="w-6 h-0 border-t-2 border-dashed border-slate-500"></div> <span className="text-slate-200">N-1: 断开 {outage.id}</span></div>}
         </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { Bus, Generator, SystemData, TransmissionLine } from './types';
+import {
+  Selection, addGenerator, deleteBus, deleteGenerator, deleteLine, updateBus, updateGenerator, updateLine,
+} from './editor';
+
+// Side inspector of the map editor: every field of the selected bus, line or
+// unit. Fields commit on Enter or when they lose focus, so the case is
+// re-simulated once per edit rather than per keystroke. Optional fields are
+// cleared (back to their default) by emptying them.
+
+interface InspectorProps {
+  data: SystemData;
+  selection: Selection;
+  onSelect: (selection: Selection) => void;
+  onChange: (data: SystemData, selection?: Selection) => void;
+}
+
+type NumberKeys<T> = { [K in keyof T]-?: T[K] extends number | undefined ? K : never }[keyof T];
+type Field<T> = [NumberKeys<T>, string, boolean?]; // Key, label, optional
+
+const BUS_FIELDS: Field<Bus>[] = [
+  ['baseLoad', '基础负荷 MW'], ['reactiveLoad', '无功负荷 MVAr', true], ['vMin', '电压下限 p.u.', true],
+  ['vMax', '电压上限 p.u.', true], ['slackWeight', '平衡分配权重', true], ['x', '横坐标 (0-100)'], ['y', '纵坐标 (0-100)'],
+];
+
+const LINE_FIELDS: Field<TransmissionLine>[] = [
+  ['reactance', '电抗 p.u.'], ['resistance', '电阻 p.u.', true], ['susceptance', '充电电纳 p.u.', true],
+  ['tap', '变比', true], ['capacity', '容量 MW'], ['emergencyCapacity', '事故容量 MW', true],
+];
+
+const GENERATOR_FIELDS: Field<Generator>[] = [
+  ['pMin', '最小出力 MW'], ['pMax', '最大出力 MW'], ['costA', '二次系数 $/MW²h'], ['costB', '一次系数 $/MWh'],
+  ['costC', '空载成本 $/h'], ['startUpCost', '启动成本 $'], ['minUpTime', '最小开机 h', true], ['minDownTime', '最小停机 h', true],
+  ['initialStatus', '初始状态 h (±)', true], ['initialOutput', '初始出力 MW', true], ['rampUp', '上爬坡 MW/h', true],
+  ['rampDown', '下爬坡 MW/h', true], ['startupRamp', '启动爬坡 MW', true], ['shutdownRamp', '停机爬坡 MW', true],
+  ['spinReserveCost', '旋转备用 $/MW', true], ['nonSpinReserveCost', '非旋转备用 $/MW', true],
+  ['maxSpinReserve', '旋转备用上限 MW', true], ['maxNonSpinReserve', '非旋转备用上限 MW', true],
+  ['energyBudget', '日电量 MWh', true], ['qMin', '无功下限 MVAr', true], ['qMax', '无功上限 MVAr', true],
+  ['voltageSetpoint', '电压设定 p.u.', true], ['co2Rate', 'CO2 t/MWh', true], ['noxRate', 'NOx kg/MWh', true],
+  ['so2Rate', 'SO2 kg/MWh', true],
+];
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 font-mono';
+
+// Text input holding its draft until committed
+const DraftInput: React.FC<{ value: string; onCommit: (text: string) => void; placeholder?: string }> = ({ value, onCommit, placeholder }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const commit = () => { if (draft !== value) onCommit(draft); };
+  return (
+    <input
+      value={draft} placeholder={placeholder} className={inputClass}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+    />
+  );
+};
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="grid grid-cols-5 items-center gap-2">
+    <span className="col-span-2 text-slate-400">{label}</span>
+    <span className="col-span-3">{children}</span>
+  </label>
+);
+
+// Numeric fields of an element; non-numeric text is ignored
+function numberRows<T>(element: T, fields: Field<T>[], update: (patch: Partial<T>) => void) {
+  return fields.map(([key, label, optional]) => {
+    const value = element[key] as number | undefined;
+    return (
+      <Row key={String(key)} label={label}>
+        <DraftInput
+          value={value === undefined ? '' : String(value)} placeholder={optional ? '默认' : undefined}
+          onCommit={(text) => {
+            if (text.trim() === '' && optional) return update({ [key]: undefined } as Partial<T>);
+            const v = parseFloat(text);
+            if (Number.isFinite(v)) update({ [key]: v } as Partial<T>);
+          }}
+        />
+      </Row>
+    );
+  });
+}
+
+const busOptions = (data: SystemData) => data.buses.map(b => <option key={b.id} value={b.id}>{b.id} {b.name}</option>);
+
+export const Inspector: React.FC<InspectorProps> = ({ data, selection, onSelect, onChange }) => {
+  const deleteButton = (label: string, onClick: () => void) => (
+    <button onClick={onClick} className="w-full mt-2 px-3 py-1 rounded-md bg-red-900/40 border border-red-800 text-red-200 hover:bg-red-900/70">
+      {label}
+    </button>
+  );
+
+  if (selection?.kind === 'Bus') {
+    const bus = data.buses.find(b => b.id === selection.id);
+    if (!bus) return null;
+    const update = (patch: Partial<Bus>) => onChange(updateBus(data, bus.id, patch), patch.id !== undefined ? { kind: 'Bus', id: patch.id } : undefined);
+    const units = data.generators.filter(g => g.busId === bus.id);
+    return (
+      <div className="space-y-2">
+        <Row label="节点编号">
+          <DraftInput value={String(bus.id)} onCommit={(text) => { const id = parseInt(text); if (Number.isInteger(id)) update({ id }); }} />
+        </Row>
+        <Row label="名称"><DraftInput value={bus.name} onCommit={(name) => update({ name })} /></Row>
+        <Row label="类型">
+          <select value={bus.type} onChange={(e) => update({ type: e.target.value as Bus['type'] })} className={inputClass}>
+            <option value="Slack">平衡节点</option>
+            <option value="PV">PV</option>
+            <option value="PQ">PQ</option>
+          </select>
+        </Row>
+        {numberRows(bus, BUS_FIELDS, update)}
+        <div className="pt-2 border-t border-slate-800">
+          <div className="text-slate-400 mb-1">机组</div>
+          <div className="flex flex-wrap gap-1">
+            {units.map(g => (
+              <button key={g.id} onClick={() => onSelect({ kind: 'Generator', id: g.id })} className="px-2 py-0.5 rounded border border-slate-700 text-slate-200 hover:bg-slate-800">
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: g.color }} />{g.id}
+              </button>
+            ))}
+            <button
+              onClick={() => { const added = addGenerator(data, bus.id); onChange(added.data, { kind: 'Generator', id: added.id }); }}
+              className="px-2 py-0.5 rounded border border-dashed border-slate-600 text-slate-400 hover:bg-slate-800"
+            >
+              + 添加机组
+            </button>
+          </div>
+        </div>
+        {deleteButton('删除节点 (及其线路与机组)', () => onChange(deleteBus(data, bus.id), null))}
+      </div>
+    );
+  }
+
+  if (selection?.kind === 'Line') {
+    const line = data.lines.find(l => l.id === selection.id);
+    if (!line) return null;
+    const update = (patch: Partial<TransmissionLine>) => onChange(updateLine(data, line.id, patch), patch.id !== undefined ? { kind: 'Line', id: patch.id } : undefined);
+    return (
+      <div className="space-y-2">
+        <Row label="线路编号"><DraftInput value={line.id} onCommit={(id) => id.trim() && update({ id: id.trim() })} /></Row>
+        <Row label="起点">
+          <select value={line.fromBus} onChange={(e) => update({ fromBus: parseInt(e.target.value) })} className={inputClass}>{busOptions(data)}</select>
+        </Row>
+        <Row label="终点">
+          <select value={line.toBus} onChange={(e) => update({ toBus: parseInt(e.target.value) })} className={inputClass}>{busOptions(data)}</select>
+        </Row>
+        {numberRows(line, LINE_FIELDS, update)}
+        {deleteButton('删除线路', () => onChange(deleteLine(data, line.id), null))}
+      </div>
+    );
+  }
+
+  if (selection?.kind === 'Generator') {
+    const gen = data.generators.find(g => g.id === selection.id);
+    if (!gen) return null;
+    const update = (patch: Partial<Generator>) => onChange(updateGenerator(data, gen.id, patch), patch.id !== undefined ? { kind: 'Generator', id: patch.id } : undefined);
+    return (
+      <div className="space-y-2">
+        <Row label="机组编号"><DraftInput value={gen.id} onCommit={(id) => id.trim() && update({ id: id.trim() })} /></Row>
+        <Row label="名称"><DraftInput value={gen.name} onCommit={(name) => update({ name })} /></Row>
+        <Row label="所在节点">
+          <select value={gen.busId} onChange={(e) => update({ busId: parseInt(e.target.value) })} className={inputClass}>{busOptions(data)}</select>
+        </Row>
+        <Row label="类型">
+          <select value={gen.type} onChange={(e) => update({ type: e.target.value as Generator['type'] })} className={inputClass}>
+            <option value="Thermal">火电</option>
+            <option value="Hydro">水电</option>
+            <option value="Renewable">新能源</option>
+            <option value="Nuclear">核电</option>
+          </select>
+        </Row>
+        <Row label="颜色">
+          <input type="color" value={gen.color} onChange={(e) => update({ color: e.target.value })} className="w-full h-7 bg-slate-800 border border-slate-700 rounded-md" />
+        </Row>
+        {numberRows(gen, GENERATOR_FIELDS, update)}
+        <Row label="必须消纳">
+          <input type="checkbox" checked={!!gen.mustTake} onChange={(e) => update({ mustTake: e.target.checked || undefined })} className="accent-blue-500" />
+        </Row>
+        {gen.offerCurve && (
+          <div className="flex items-center justify-between text-amber-300">
+            <span>报价曲线 {gen.offerCurve.length} 段 (替代二次与一次系数)</span>
+            <button onClick={() => update({ offerCurve: undefined })} className="px-2 py-0.5 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">清除</button>
+          </div>
+        )}
+        {deleteButton('删除机组', () => onChange(deleteGenerator(data, gen.id), null))}
+      </div>
+    );
+  }
+
+  return <div className="text-slate-500">在地图上选择节点、线路或机组进行编辑</div>;
+};
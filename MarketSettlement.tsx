@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { FinancialTransmissionRight, SimulationResult, SystemData } from './types';
+import { settleMarket } from './settlement';
+
+// Settlement view: totals of the money flows, then per unit, per bus, per line
+// and per FTR. FTRs are defined here; they do not change the dispatch.
+
+interface MarketSettlementProps {
+  data: SystemData; // Case the results were computed for
+  results: SimulationResult;
+  ftrs: FinancialTransmissionRight[]; // FTRs of the working case
+  busIds: number[];
+  onChangeFtrs: (ftrs: FinancialTransmissionRight[]) => void;
+}
+
+const money = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200';
+
+type Tab = 'Generators' | 'Buses' | 'Lines' | 'FTRs';
+const TABS: [Tab, string][] = [['Generators', '机组'], ['Buses', '负荷'], ['Lines', '阻塞盈余'], ['FTRs', '输电权']];
+
+export const MarketSettlement: React.FC<MarketSettlementProps> = ({ data, results, ftrs, busIds, onChangeFtrs }) => {
+  const settlement = useMemo(() => settleMarket(data, results), [data, results]);
+  const [tab, setTab] = useState<Tab>('Generators');
+  const [draft, setDraft] = useState<Omit<FinancialTransmissionRight, 'id'>>({ sourceBus: busIds[0], sinkBus: busIds[busIds.length - 1], mw: 100, kind: 'Obligation' });
+  const { totals } = settlement;
+
+  const addFtr = () => {
+    const ids = new Set(ftrs.map(f => f.id));
+    let n = ids.size + 1;
+    while (ids.has(`FTR${n}`)) n++;
+    onChangeFtrs([...ftrs, { ...draft, id: `FTR${n}` }]);
+  };
+
+  const summary: [string, number, string?][] = [
+    ['负荷支付', totals.loadPayment],
+    ['机组收入 (电能+备用)', totals.generatorRevenue],
+    ['储能收入', totals.storageRevenue],
+    ['阻塞盈余', totals.congestionRent],
+    ['网损盈余', totals.lossSurplus],
+    ['补偿 (Make-whole)', totals.uplift, totals.uplift > 0.5 ? 'text-amber-400' : undefined],
+    ['FTR 支付', totals.ftrPayout],
+  ];
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="grid grid-cols-4 gap-2">
+        {summary.map(([label, value, color]) => (
+          <div key={label} className="bg-slate-800/50 rounded-md p-2">
+            <div className="text-slate-400">{label}</div>
+            <div className={`font-mono ${color ?? 'text-slate-200'}`}>{money(value)}</div>
+          </div>
+        ))}
+        <div className="bg-slate-800/50 rounded-md p-2">
+          <div className="text-slate-400">FTR 资金充足率</div>
+          <div className={`font-mono ${totals.ftrFunding < 1 ? 'text-red-400' : 'text-emerald-400'}`}>{(totals.ftrFunding * 100).toFixed(1)}%</div>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {TABS.map(([t, label]) => (
+          <button key={t} onClick={() => setTab(t)} className={`px-3 py-1 rounded-md ${tab === t ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}>
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        {tab === 'Generators' && (
+          <table className="w-full font-mono">
+            <thead className="text-slate-500 sticky top-0 bg-slate-900">
+              <tr>
+                <th className="text-left">机组</th><th className="text-right">电量 MWh</th><th className="text-right">电能收入</th>
+                <th className="text-right">备用收入</th><th className="text-right">电能成本</th><th className="text-right">空载</th>
+                <th className="text-right">启动</th><th className="text-right">碳成本</th><th className="text-right">利润</th><th className="text-right">补偿</th>
+              </tr>
+            </thead>
+            <tbody>
+              {settlement.generators.map(g => (
+                <tr key={g.id} className="border-b border-slate-800/50">
+                  <td className="text-slate-300">{g.id}</td>
+                  <td className="text-right text-slate-400">{g.energyMWh.toFixed(0)}</td>
+                  <td className="text-right text-slate-200">{money(g.energyRevenue)}</td>
+                  <td className="text-right text-slate-400">{money(g.reserveRevenue)}</td>
+                  <td className="text-right text-slate-400">{money(g.energyCost)}</td>
+                  <td className="text-right text-slate-400">{money(g.noLoadCost)}</td>
+                  <td className="text-right text-slate-400">{money(g.startupCost)}</td>
+                  <td className="text-right text-slate-400">{money(g.carbonCost)}</td>
+                  <td className={`text-right ${g.profit < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{money(g.profit)}</td>
+                  <td className={`text-right ${g.uplift > 0.5 ? 'text-amber-400' : 'text-slate-500'}`}>{money(g.uplift)}</td>
+                </tr>
+              ))}
+              {settlement.storage.map(st => (
+                <tr key={st.id} className="border-b border-slate-800/50">
+                  <td className="text-slate-300">{st.id}</td>
+                  <td colSpan={7} className="text-slate-500">储能: 放电收入 - 充电支出</td>
+                  <td className={`text-right ${st.revenue < 0 ? 'text-red-400' : 'text-emerald-400'}`}>{money(st.revenue)}</td>
+                  <td />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {tab === 'Buses' && (
+          <table className="w-full font-mono">
+            <thead className="text-slate-500 sticky top-0 bg-slate-900">
+              <tr>
+                <th className="text-left">节点</th><th className="text-right">电量 MWh</th><th className="text-right">支付</th>
+                <th className="text-right">电能</th><th className="text-right">网损</th><th className="text-right">阻塞</th><th className="text-right">均价 $/MWh</th>
+              </tr>
+            </thead>
+            <tbody>
+              {settlement.buses.map(b => (
+                <tr key={b.busId} className="border-b border-slate-800/50">
+                  <td className="text-slate-300">{b.busId}</td>
+                  <td className="text-right text-slate-400">{b.loadMWh.toFixed(0)}</td>
+                  <td className="text-right text-slate-200">{money(b.payment)}</td>
+                  <td className="text-right text-slate-400">{money(b.energyPayment)}</td>
+                  <td className="text-right text-slate-400">{money(b.lossPayment)}</td>
+                  <td className={`text-right ${Math.abs(b.congestionPayment) > 0.5 ? 'text-red-400' : 'text-slate-500'}`}>{money(b.congestionPayment)}</td>
+                  <td className="text-right text-slate-400">{b.loadMWh > 1e-6 ? (b.payment / b.loadMWh).toFixed(2) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {tab === 'Lines' && (
+          <table className="w-full font-mono">
+            <thead className="text-slate-500 sticky top-0 bg-slate-900">
+              <tr><th className="text-left">线路</th><th className="text-right">阻塞盈余</th><th className="text-right">阻塞时段</th></tr>
+            </thead>
+            <tbody>
+              {settlement.lines.map(l => (
+                <tr key={l.lineId} className="border-b border-slate-800/50">
+                  <td className="text-slate-300">{l.lineId}</td>
+                  <td className={`text-right ${Math.abs(l.congestionRent) > 0.5 ? 'text-slate-200' : 'text-slate-500'}`}>{money(l.congestionRent)}</td>
+                  <td className={`text-right ${l.congestedIntervals > 0 ? 'text-red-400' : 'text-slate-500'}`}>{l.congestedIntervals}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {tab === 'FTRs' && (
+          <div className="space-y-3">
+            <div className="flex gap-2 items-end">
+              {(['sourceBus', 'sinkBus'] as const).map(key => (
+                <label key={key} className="flex flex-col gap-1 text-slate-400">
+                  <span>{key === 'sourceBus' ? '源节点' : '汇节点'}</span>
+                  <select value={draft[key]} onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) })} className={inputClass}>
+                    {busIds.map(id => <option key={id} value={id}>{id}</option>)}
+                  </select>
+                </label>
+              ))}
+              <label className="flex flex-col gap-1 text-slate-400">
+                <span>MW</span>
+                <input type="number" min={0} value={draft.mw} onChange={(e) => setDraft({ ...draft, mw: Math.max(0, parseFloat(e.target.value) || 0) })} className={`${inputClass} w-20`} />
+              </label>
+              <label className="flex flex-col gap-1 text-slate-400">
+                <span>类型</span>
+                <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as FinancialTransmissionRight['kind'] })} className={inputClass}>
+                  <option value="Obligation">义务型</option>
+                  <option value="Option">期权型</option>
+                </select>
+              </label>
+              <button onClick={addFtr} disabled={draft.sourceBus === draft.sinkBus} className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50">添加</button>
+            </div>
+            <table className="w-full font-mono">
+              <thead className="text-slate-500">
+                <tr><th className="text-left">FTR</th><th className="text-left">路径</th><th className="text-right">MW</th><th className="text-right">支付</th><th /></tr>
+              </thead>
+              <tbody>
+                {ftrs.map(f => {
+                  const settled = settlement.ftrs.find(s => s.id === f.id);
+                  return (
+                    <tr key={f.id} className="border-b border-slate-800/50">
+                      <td className="text-slate-300">{f.id} {f.kind === 'Option' ? '(期权)' : ''}</td>
+                      <td className="text-slate-400">{f.sourceBus} → {f.sinkBus}</td>
+                      <td className="text-right text-slate-400">{f.mw}</td>
+                      <td className={`text-right ${!settled ? 'text-slate-500' : settled.payout < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                        {settled ? money(settled.payout) : '计算中'}
+                      </td>
+                      <td className="text-right">
+                        <button onClick={() => onChangeFtrs(ftrs.filter(x => x.id !== f.id))} className="text-red-400 hover:text-red-300">删除</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {ftrs.length === 0 && <div className="text-slate-500">尚未定义输电权: 选择源、汇节点与容量后添加</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
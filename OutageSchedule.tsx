@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Outage } from './types';
+
+// Scheduled outages of lines and units: the list, with the outages in effect at
+// the current interval highlighted, and a row to add one.
+
+interface OutageScheduleProps {
+  outages: Outage[];
+  lineIds: string[];
+  generatorIds: string[];
+  active: string[]; // Elements out of service in the current interval
+  onChange: (outages: Outage[]) => void;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-1 py-1 text-slate-200';
+
+export const OutageSchedule: React.FC<OutageScheduleProps> = ({ outages, lineIds, generatorIds, active, onChange }) => {
+  const [draft, setDraft] = useState<Omit<Outage, 'id'>>({ type: 'Line', elementId: '', startHour: 8, endHour: 16 });
+  const elements = draft.type === 'Line' ? lineIds : generatorIds;
+
+  const addOutage = () => {
+    const ids = new Set(outages.map(o => o.id));
+    let n = ids.size + 1;
+    while (ids.has(`OUT${n}`)) n++;
+    onChange([...outages, { ...draft, id: `OUT${n}` }]);
+  };
+
+  return (
+    <>
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-slate-400 border-b border-slate-700">
+            <th className="text-left py-1">元件</th>
+            <th className="text-right py-1">开始 (h)</th>
+            <th className="text-right py-1">结束 (h)</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {outages.map(o => (
+            <tr key={o.id} className="border-b border-slate-800/50">
+              <td className={`py-1 ${active.includes(o.elementId) ? 'text-amber-400' : 'text-slate-300'}`}>
+                {o.type === 'Line' ? '线路' : '机组'} {o.elementId}
+              </td>
+              <td className="py-1 text-right text-slate-400">{o.startHour}</td>
+              <td className="py-1 text-right text-slate-400">{o.endHour}</td>
+              <td className="py-1 text-right">
+                <button onClick={() => onChange(outages.filter(x => x.id !== o.id))} className="text-slate-500 hover:text-red-400">删除</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-3 grid grid-cols-5 gap-2 text-xs">
+        <select
+          value={draft.type}
+          onChange={(e) => setDraft({ ...draft, type: e.target.value as Outage['type'], elementId: '' })}
+          className={inputClass}
+        >
+          <option value="Line">线路</option>
+          <option value="Generator">机组</option>
+        </select>
+        <select value={draft.elementId} onChange={(e) => setDraft({ ...draft, elementId: e.target.value })} className={inputClass}>
+          <option value="">-</option>
+          {elements.map(id => <option key={id} value={id}>{id}</option>)}
+        </select>
+        <input
+          type="number" min="0" value={draft.startHour}
+          onChange={(e) => setDraft({ ...draft, startHour: parseFloat(e.target.value) })}
+          className={inputClass}
+        />
+        <input
+          type="number" min="0" value={draft.endHour}
+          onChange={(e) => setDraft({ ...draft, endHour: parseFloat(e.target.value) })}
+          className={inputClass}
+        />
+        <button
+          onClick={addOutage}
+          disabled={!draft.elementId || !(draft.endHour > draft.startHour)}
+          className="rounded-md bg-blue-600 text-white disabled:bg-slate-700 disabled:text-slate-500"
+        >
+          添加
+        </button>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { SimulationResult, SystemData } from './types';
+import { intervalLabel } from './time';
+import { DEFAULT_TOLERANCES, ReferenceSolution, Tolerances, compareWithReference, referenceFromResults } from './benchmarks';
+
+// Deviations of the run from the reference solutions of the case, with the
+// tolerances to check them at; references are loaded from or recorded to JSON.
+
+interface ReferenceComparisonProps {
+  data: SystemData; // The case the results were computed for
+  results: SimulationResult;
+  references: ReferenceSolution[];
+  onChangeReferences: (references: ReferenceSolution[]) => void;
+  caseName: string;
+  currentInterval: number;
+  onDownload: (text: string, fileName: string) => void;
+}
+
+const TOLERANCE_LABELS: [keyof Tolerances, string][] = [['flowMW', '潮流 MW'], ['costRelative', '成本 (相对)'], ['lmp', 'LMP $'], ['lossMW', '网损 MW']];
+
+const buttonClass = 'px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700';
+
+export const ReferenceComparison: React.FC<ReferenceComparisonProps> = ({
+  data, results, references, onChangeReferences, caseName, currentInterval, onDownload,
+}) => {
+  const [tolerances, setTolerances] = useState<Tolerances>(DEFAULT_TOLERANCES);
+  const [error, setError] = useState<string | null>(null);
+
+  // A file error no longer applies once the case brings its own references
+  useEffect(() => setError(null), [references]);
+
+  const comparisons = useMemo(() => {
+    if (results.length === 0) return [];
+    return references.map(ref => ({
+      source: ref.source, recorded: !!ref.recorded, deviations: compareWithReference(data, results, ref, tolerances),
+    }));
+  }, [data, results, references, tolerances]);
+  const passed = comparisons.every(c => c.deviations.every(d => d.ok));
+
+  // Reference recorded from the run, checked at the current interval
+  const recordReference = () => {
+    const reference = referenceFromResults(data, results, currentInterval, `${caseName} 记录值`);
+    onDownload(JSON.stringify(reference, null, 2), `${caseName}_reference.json`);
+  };
+
+  // One reference solution or a list of them, replacing those of the case
+  const loadReference = async (file: File) => {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      const list = (Array.isArray(parsed) ? parsed : [parsed]) as ReferenceSolution[];
+      if (list.some(r => typeof r?.source !== 'string' || (!r.powerFlow && !r.dispatch))) {
+        setError(`${file.name}: 不是参考解文件 (需要 source 以及 powerFlow 或 dispatch)`);
+        return;
+      }
+      onChangeReferences(list);
+    } catch (e) {
+      setError(`${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="grid grid-cols-4 gap-2">
+        {TOLERANCE_LABELS.map(([key, label]) => (
+          <label key={key} className="flex flex-col gap-1 text-slate-400">
+            <span>{label}</span>
+            <input
+              type="number" min={0} step="any" value={tolerances[key]}
+              onChange={(e) => setTolerances({ ...tolerances, [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200 font-mono"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <label className={`flex-1 text-center cursor-pointer ${buttonClass}`}>
+          载入参考解 (.json)
+          <input
+            type="file" accept=".json" className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) loadReference(file); }}
+          />
+        </label>
+        <button onClick={recordReference} disabled={!results[currentInterval]} className={`flex-1 disabled:opacity-50 ${buttonClass}`}>
+          记录参考解 (时段 {intervalLabel(data, currentInterval)})
+        </button>
+      </div>
+      {error && <div className="text-red-300">{error}</div>}
+      {references.length === 0 && <div className="text-slate-500">当前算例没有参考解: 可记录当前运行结果, 修改数据后载入对比</div>}
+      {comparisons.length > 0 && (
+        <div className={`font-mono ${passed ? 'text-emerald-400' : 'text-red-400'}`}>{passed ? '全部通过' : '存在偏差'}</div>
+      )}
+      {comparisons.map((c, k) => {
+        const failed = c.deviations.filter(d => !d.ok).length;
+        return (
+          <div key={k} className="border border-slate-800 rounded-md">
+            <div className="flex justify-between px-2 py-1 bg-slate-800/50">
+              <span className="text-slate-300" title={c.recorded ? '本模拟器的运行结果: 只检查结果是否变化, 不是独立验证' : undefined}>
+                {c.source}{c.recorded && <span className="text-slate-500"> · 非独立参考</span>}
+              </span>
+              <span className={`font-mono ${failed ? 'text-red-400' : 'text-emerald-400'}`}>
+                {c.deviations.length - failed}/{c.deviations.length} 通过
+              </span>
+            </div>
+            <div className="max-h-40 overflow-y-auto">
+              <table className="w-full font-mono">
+                <thead className="text-slate-500">
+                  <tr><th className="text-left px-2">量</th><th className="text-left">对象</th><th className="text-right">参考</th><th className="text-right">计算</th><th className="text-right px-2">偏差</th></tr>
+                </thead>
+                <tbody>
+                  {[...c.deviations].sort((a, b) => Number(a.ok) - Number(b.ok)).map((d, i) => (
+                    <tr key={i} className={d.ok ? 'text-slate-400' : 'text-red-300'} title={`容差 ±${d.tolerance.toPrecision(3)}`}>
+                      <td className="px-2">{d.quantity}</td>
+                      <td>{d.id}</td>
+                      <td className="text-right">{d.reference.toFixed(2)}</td>
+                      <td className="text-right">{Number.isNaN(d.value) ? '—' : d.value.toFixed(2)}</td>
+                      <td className="text-right px-2">{Number.isNaN(d.value) ? '缺失' : (d.value - d.reference).toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
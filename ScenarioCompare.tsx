@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationResult, SystemData } from './types';
+import { compareResults, diffInputs } from './scenarios';
+import { intervalLabel } from './time';
+
+// Side-by-side comparison of two scenarios: what changed in the inputs, and
+// interval by interval how cost, commitment, flows and LMPs moved (B - A).
+// Clicking an interval lists its per-line and per-bus deltas.
+
+export interface ComparedCase {
+  name: string;
+  data: SystemData;
+  results: SimulationResult;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  Bus: '节点', Line: '线路', Generator: '机组', Storage: '储能', DemandBid: '需求报价',
+  Reserve: '备用需求', Outage: '检修计划', FTR: '输电权', Availability: '出力曲线', System: '系统参数',
+};
+const CHANGE_LABELS = { Added: '新增', Removed: '删除', Changed: '修改' };
+
+const show = (value: unknown) => (value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+const signed = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+// Largest absolute delta and its element
+function largest(deltas: Record<string, number>): { id: string; value: number } | null {
+  return Object.entries(deltas).reduce<{ id: string; value: number } | null>(
+    (best, [id, value]) => (!best || Math.abs(value) > Math.abs(best.value) ? { id, value } : best), null);
+}
+
+export const ScenarioCompare: React.FC<{ a: ComparedCase; b: ComparedCase }> = ({ a, b }) => {
+  const changes = useMemo(() => diffInputs(a.data, b.data), [a.data, b.data]);
+  const deltas = useMemo(() => compareResults(a.results, b.results), [a.results, b.results]);
+  const [detail, setDetail] = useState<number | null>(null);
+
+  const totalA = a.results.reduce((sum, r) => sum + r.systemCost, 0);
+  const totalB = b.results.reduce((sum, r) => sum + r.systemCost, 0);
+  const shown = detail !== null ? deltas[detail] : undefined;
+
+  return (
+    <div className="space-y-4 text-xs">
+      <div className="grid grid-cols-4 gap-3">
+        <div className="bg-slate-800/50 rounded-md p-2">
+          <div className="text-slate-400">总成本 A ({a.name})</div>
+          <div className="font-mono text-slate-200">${totalA.toFixed(0)}</div>
+        </div>
+        <div className="bg-slate-800/50 rounded-md p-2">
+          <div className="text-slate-400">总成本 B ({b.name})</div>
+          <div className="font-mono text-slate-200">${totalB.toFixed(0)}</div>
+        </div>
+        <div className="bg-slate-800/50 rounded-md p-2">
+          <div className="text-slate-400">成本变化</div>
+          <div className={`font-mono ${totalB > totalA ? 'text-red-400' : 'text-emerald-400'}`}>
+            {signed(totalB - totalA, 0)} ({totalA ? signed((totalB - totalA) / totalA * 100, 2) : '—'}%)
+          </div>
+        </div>
+        <div className="bg-slate-800/50 rounded-md p-2">
+          <div className="text-slate-400">组合变化时段</div>
+          <div className="font-mono text-slate-200">{deltas.filter(d => d.commitment.length > 0).length} / {deltas.length}</div>
+        </div>
+      </div>
+      {a.results.length !== b.results.length && (
+        <div className="text-amber-300">两个情景的时段数不同 ({a.results.length} / {b.results.length}): 只比较前 {deltas.length} 个时段</div>
+      )}
+
+      <div>
+        <div className="text-slate-400 mb-1">输入差异 ({changes.length})</div>
+        <div className="max-h-40 overflow-y-auto space-y-1 font-mono">
+          {changes.length === 0 && <div className="text-slate-500">输入相同</div>}
+          {changes.map((c, k) => (
+            <div key={k}>
+              <span className={c.change === 'Added' ? 'text-emerald-400' : c.change === 'Removed' ? 'text-red-400' : 'text-amber-300'}>
+                {CHANGE_LABELS[c.change]}
+              </span>
+              <span className="text-slate-300"> {KIND_LABELS[c.kind]} {c.id}</span>
+              {c.fields.map(f => (
+                <span key={f.field} className="text-slate-400"> {f.field}: {show(f.before)} → {show(f.after)};</span>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto">
+        <table className="w-full font-mono">
+          <thead className="text-slate-500 sticky top-0 bg-slate-900">
+            <tr>
+              <th className="text-left px-2">时段</th><th className="text-right">成本 A</th><th className="text-right">成本 B</th>
+              <th className="text-right">Δ成本</th><th className="text-left pl-3">机组组合</th>
+              <th className="text-right">最大 Δ潮流</th><th className="text-right px-2">最大 ΔLMP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {deltas.map(d => {
+              const flow = largest(d.flowDeltas);
+              const lmp = largest(d.lmpDeltas);
+              return (
+                <tr
+                  key={d.interval} onClick={() => setDetail(detail === d.interval ? null : d.interval)}
+                  className={`cursor-pointer hover:bg-slate-800 ${detail === d.interval ? 'bg-slate-800' : ''}`}
+                >
+                  <td className="px-2 text-slate-400">{intervalLabel(a.data, d.interval)}</td>
+                  <td className="text-right text-slate-300">{d.costA.toFixed(0)}</td>
+                  <td className="text-right text-slate-300">{d.costB.toFixed(0)}</td>
+                  <td className={`text-right ${Math.abs(d.costB - d.costA) < 0.5 ? 'text-slate-500' : d.costB > d.costA ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {signed(d.costB - d.costA, 0)}
+                  </td>
+                  <td className="pl-3 text-amber-300">
+                    {d.commitment.map(u => `${u.id} ${u.a === null ? '—' : u.a ? '开' : '停'}→${u.b === null ? '—' : u.b ? '开' : '停'}`).join(', ')}
+                  </td>
+                  <td className="text-right text-slate-300">{flow && Math.abs(flow.value) >= 0.05 ? `${flow.id} ${signed(flow.value)}` : '—'}</td>
+                  <td className="text-right px-2 text-slate-300">{lmp && Math.abs(lmp.value) >= 0.005 ? `${lmp.id}: ${signed(lmp.value, 2)}` : '—'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {shown && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <div className="text-slate-400 mb-1">时段 {intervalLabel(a.data, shown.interval)} 线路潮流变化 (MW)</div>
+            {Object.entries(shown.flowDeltas).map(([id, v]) => (
+              <div key={id} className="flex justify-between font-mono">
+                <span className="text-slate-300">{id}</span>
+                <span className={Math.abs(v) < 0.05 ? 'text-slate-500' : 'text-slate-200'}>{signed(v)}</span>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="text-slate-400 mb-1">节点 LMP 变化 ($/MWh)</div>
+            {Object.entries(shown.lmpDeltas).map(([id, v]) => (
+              <div key={id} className="flex justify-between font-mono">
+                <span className="text-slate-300">节点 {id}</span>
+                <span className={Math.abs(v) < 0.005 ? 'text-slate-500' : 'text-slate-200'}>{signed(v, 2)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { SimulationResult, SystemData } from './types';
+import { Scenario, createScenario, deleteScenario, listScenarios, parseScenarioFile, putScenario, scenarioFile } from './scenarios';
+import { fileSafe } from './exports';
+import { runReport } from './report';
+
+// Saved scenarios, kept in the browser's storage: save the current run, load,
+// report, export, import and delete scenarios, and pick the two to compare.
+
+export interface ScenarioPicks {
+  a: string; // Scenario id, 'current' or ''
+  b: string;
+}
+
+interface ScenarioManagerProps {
+  scenarios: Scenario[];
+  onChangeScenarios: (scenarios: Scenario[]) => void;
+  compare: ScenarioPicks;
+  onChangeCompare: (compare: ScenarioPicks) => void;
+  caseName: string;
+  data: SystemData; // The case the results were computed for
+  results: SimulationResult;
+  onLoadScenario: (scenario: Scenario) => void;
+  onDownload: (text: string, fileName: string) => void;
+  onOpenReport: (html: string, fileName: string) => void;
+}
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200';
+const buttonClass = 'flex-1 px-3 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700';
+
+export const ScenarioManager: React.FC<ScenarioManagerProps> = ({
+  scenarios, onChangeScenarios, compare, onChangeCompare, caseName, data, results, onLoadScenario, onDownload, onOpenReport,
+}) => {
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Saved scenarios from the browser's storage
+  useEffect(() => {
+    listScenarios().then(onChangeScenarios).catch(e => setError(`无法读取已保存的情景: ${(e as Error).message}`));
+  }, []);
+
+  const saveScenario = async () => {
+    const scenario = createScenario(name.trim() || `${caseName} ${new Date().toLocaleString()}`, caseName, data, results);
+    try {
+      await putScenario(scenario);
+      onChangeScenarios([...scenarios, scenario]);
+      setName('');
+      setError(null);
+    } catch (e) {
+      setError(`保存失败: ${(e as Error).message}`);
+    }
+  };
+
+  const removeScenario = async (id: string) => {
+    try {
+      await deleteScenario(id);
+      onChangeScenarios(scenarios.filter(s => s.id !== id));
+      onChangeCompare({ a: compare.a === id ? '' : compare.a, b: compare.b === id ? '' : compare.b });
+    } catch (e) {
+      setError(`删除失败: ${(e as Error).message}`);
+    }
+  };
+
+  const importScenarios = async (file: File) => {
+    const { scenarios: imported, error: parseError } = parseScenarioFile(await file.text());
+    if (parseError) {
+      setError(`${file.name}: ${parseError}`);
+      return;
+    }
+    try {
+      await Promise.all(imported.map(putScenario));
+      onChangeScenarios([...scenarios, ...imported]);
+      setError(null);
+    } catch (e) {
+      setError(`导入失败: ${(e as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex gap-2">
+        <input
+          value={name} onChange={(e) => setName(e.target.value)} placeholder={`${caseName} (情景名称)`}
+          className={`flex-1 ${inputClass}`}
+        />
+        <button onClick={saveScenario} className="px-3 py-1 rounded-md bg-blue-600 text-white hover:bg-blue-500">保存当前</button>
+      </div>
+      {scenarios.length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {scenarios.map(sc => (
+            <div key={sc.id} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-slate-200" title={`${sc.caseName} | ${new Date(sc.savedAt).toLocaleString()}`}>{sc.name}</span>
+              <button onClick={() => onLoadScenario(sc)} className="text-blue-400 hover:text-blue-300">载入</button>
+              <button onClick={() => onOpenReport(runReport(sc.name, sc.data, sc.results), `${fileSafe(sc.name)}_report.html`)} className="text-slate-400 hover:text-slate-200">报告</button>
+              <button onClick={() => onDownload(scenarioFile([sc]), `${fileSafe(sc.name)}.json`)} className="text-slate-400 hover:text-slate-200">导出</button>
+              <button onClick={() => removeScenario(sc.id)} className="text-red-400 hover:text-red-300">删除</button>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <label className={`text-center cursor-pointer ${buttonClass}`}>
+          导入 (.json)
+          <input
+            type="file" accept=".json" className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; e.target.value = ''; if (file) importScenarios(file); }}
+          />
+        </label>
+        <button
+          onClick={() => onDownload(scenarioFile(scenarios), 'scenarios.json')} disabled={scenarios.length === 0}
+          className={`disabled:opacity-50 ${buttonClass}`}
+        >
+          导出全部
+        </button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {(['a', 'b'] as const).map(side => (
+          <label key={side} className="flex flex-col gap-1 text-slate-400">
+            <span>对比 {side.toUpperCase()}</span>
+            <select value={compare[side]} onChange={(e) => onChangeCompare({ ...compare, [side]: e.target.value })} className={inputClass}>
+              <option value="">—</option>
+              <option value="current">当前算例</option>
+              {scenarios.map(sc => <option key={sc.id} value={sc.id}>{sc.name}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+      {error && <div className="text-red-300">{error}</div>}
+    </div>
+  );
+};
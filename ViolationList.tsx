@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationResult, SystemData, Violation, ViolationCode } from './types';
+import { SEVERITY_LABELS, VIOLATION_LABELS, countByCode, filterViolations } from './violations';
+import { toCsv, violationRows } from './exports';
+import { intervalLabel } from './time';
+
+// Violations of a run, filtered by severity, type, element and interval, and
+// exported as shown. Clicking a violation shows its interval.
+
+interface ViolationListProps {
+  data: SystemData; // Case the results were computed for
+  results: SimulationResult;
+  currentInterval: number;
+  onSelectInterval: (t: number) => void;
+  onDownload: (text: string, fileName: string) => void;
+}
+
+const SEVERITIES: Violation['severity'][] = ['Error', 'Warning', 'Info'];
+const SEVERITY_COLORS: Record<Violation['severity'], string> = { Error: 'text-red-400', Warning: 'text-amber-300', Info: 'text-slate-400' };
+const MAX_ROWS = 500; // Rows rendered; exports include every match
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded-md px-2 py-1 text-slate-200';
+
+export const ViolationList: React.FC<ViolationListProps> = ({ data, results, currentInterval, onSelectInterval, onDownload }) => {
+  const [severities, setSeverities] = useState<Violation['severity'][]>(['Error', 'Warning']);
+  const [code, setCode] = useState<ViolationCode | ''>('');
+  const [elementId, setElementId] = useState('');
+  const [currentOnly, setCurrentOnly] = useState(false);
+
+  const all = useMemo(() => results.flatMap(r => r.violations), [results]);
+  const shown = filterViolations(all, {
+    severities,
+    codes: code ? [code] : undefined,
+    elementId: elementId.trim() || undefined,
+    intervals: currentOnly ? [currentInterval, currentInterval] : undefined,
+  });
+  const counts = countByCode(all);
+
+  const toggle = (severity: Violation['severity']) =>
+    setSeverities(severities.includes(severity) ? severities.filter(s => s !== severity) : [...severities, severity]);
+
+  return (
+    <div className="space-y-3 text-xs">
+      <div className="flex flex-wrap gap-2 items-center">
+        {SEVERITIES.map(s => (
+          <button
+            key={s} onClick={() => toggle(s)}
+            className={`px-2 py-1 rounded-md border ${severities.includes(s) ? `border-slate-500 bg-slate-800 ${SEVERITY_COLORS[s]}` : 'border-slate-800 text-slate-600'}`}
+          >
+            {SEVERITY_LABELS[s]} {all.filter(v => v.severity === s).length}
+          </button>
+        ))}
+        <select value={code} onChange={(e) => setCode(e.target.value as ViolationCode | '')} className={inputClass}>
+          <option value="">全部类型</option>
+          {counts.map(c => <option key={c.code} value={c.code}>{VIOLATION_LABELS[c.code]} ({c.count})</option>)}
+        </select>
+        <input value={elementId} onChange={(e) => setElementId(e.target.value)} placeholder="元件 id" className={`${inputClass} w-24`} />
+        <label className="flex items-center gap-1 text-slate-400">
+          <input type="checkbox" checked={currentOnly} onChange={(e) => setCurrentOnly(e.target.checked)} className="accent-blue-500" />
+          仅当前时段
+        </label>
+        <span className="ml-auto flex gap-2">
+          <button onClick={() => onDownload(toCsv(violationRows(data, shown)), 'violations.csv')} className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700">CSV</button>
+          <button onClick={() => onDownload(JSON.stringify(shown, null, 1), 'violations.json')} className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-slate-200 hover:bg-slate-700">JSON</button>
+        </span>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full font-mono">
+          <thead className="text-slate-500 sticky top-0 bg-slate-900">
+            <tr>
+              <th className="text-left">时段</th><th className="text-left">类型</th><th className="text-left">元件</th>
+              <th className="text-right">值</th><th className="text-right">限值</th><th className="text-left pl-3">说明</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.slice(0, MAX_ROWS).map((v, k) => (
+              <tr
+                key={k} onClick={() => onSelectInterval(v.interval)}
+                className={`cursor-pointer hover:bg-slate-800 ${v.interval === currentInterval ? 'bg-slate-800/60' : ''}`}
+              >
+                <td className="text-slate-400">{intervalLabel(data, v.interval)}</td>
+                <td className={SEVERITY_COLORS[v.severity]}>{VIOLATION_LABELS[v.code]}</td>
+                <td className="text-slate-300">{v.elementId ?? '—'}</td>
+                <td className="text-right text-slate-300">{v.value !== undefined ? v.value.toFixed(2) : ''}</td>
+                <td className="text-right text-slate-500">{v.limit !== undefined ? v.limit.toFixed(2) : ''}</td>
+                <td className="pl-3 text-slate-400">{v.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {shown.length === 0 && <div className="text-slate-500 py-2">没有符合条件的越限</div>}
+        {shown.length > MAX_ROWS && <div className="text-slate-500 py-2">仅显示前 {MAX_ROWS} 条 / 共 {shown.length} 条 (导出包含全部)</div>}
+      </div>
+    </div>
+  );
+};
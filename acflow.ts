@@ -0,0 +1,259 @@
+import { AcFlowResult, AcLineFlow, AcViolation, Generator, SystemData } from './types';
+import { NetworkModel, baseMVA } from './network';
+import { SparseMatrix, addEntry, createSparseMatrix, factorize, minimumDegreeOrder, solveFactored } from './sparse';
+
+// AC power flow (Newton-Raphson, polar coordinates) as a check of the DC-based dispatch.
+// Unit outputs and bus withdrawals are taken as dispatched; the slack bus makes
+// up the losses (in a split network the reference bus of each island does).
+// Committed units hold the voltage of the slack bus and of PV buses within
+// their reactive limits: a PV bus whose units run into a limit is switched to
+// PQ at that limit and the flow solved again. Units at PQ buses inject active
+// power only. Lines out of service in the interval's network are left out.
+
+const MAX_ITERATIONS = 30;
+const MAX_SWITCHES = 10; // PV -> PQ rounds
+const TOLERANCE = 1e-8; // p.u. mismatch
+const Q_TOL = 1e-3; // MVAr
+const V_TOL = 1e-4; // p.u.
+
+export const voltageLimits = (data: SystemData, busIdx: number) =>
+  [data.buses[busIdx].vMin ?? 0.95, data.buses[busIdx].vMax ?? 1.05];
+
+// Branch admittances of the pi model, tap at the from end
+interface Branch {
+  line: number; // Index in data.lines
+  from: number;
+  to: number;
+  gff: number; bff: number;
+  gtt: number; btt: number;
+  gft: number; bft: number; // Same for to -> from (no phase shift)
+}
+
+function branchModel(data: SystemData, net: NetworkModel): Branch[] {
+  return data.lines.flatMap((line, l) => {
+    if (!net.inService[l]) return [];
+    const r = line.resistance ?? 0;
+    const x = line.reactance;
+    const z2 = r * r + x * x;
+    const gs = r / z2;
+    const bs = -x / z2;
+    const bc = (line.susceptance ?? 0) / 2;
+    const tap = line.tap ?? 1;
+    return [{
+      line: l,
+      from: net.lineEnds[l][0],
+      to: net.lineEnds[l][1],
+      gff: gs / (tap * tap), bff: (bs + bc) / (tap * tap),
+      gtt: gs, btt: bs + bc,
+      gft: -gs / tap, bft: -bs / tap,
+    }];
+  });
+}
+
+// Complex power into a branch end: V_a^2·(g_aa + j b_aa)* + V_a V_b (g_ab + j b_ab)* e^{j(θa-θb)}
+function endFlow(va: number, vb: number, dTheta: number, gaa: number, baa: number, gab: number, bab: number) {
+  const cos = Math.cos(dTheta);
+  const sin = Math.sin(dTheta);
+  return {
+    p: va * va * gaa + va * vb * (gab * cos + bab * sin),
+    q: -va * va * baa + va * vb * (gab * sin - bab * cos),
+  };
+}
+
+const sumLimit = (gens: Generator[], limit: (g: Generator) => number | undefined, unlimited: number) =>
+  gens.reduce((sum, g) => sum + (limit(g) ?? unlimited), 0);
+
+export function solveAcFlow(
+  data: SystemData,
+  net: NetworkModel,
+  genStatus: Record<string, boolean>,
+  genOutput: Record<string, number>,
+  busWithdrawals: number[], // MW, data.buses order
+  reactiveLoads: number[], // MVAr, data.buses order
+): AcFlowResult {
+  const n = data.buses.length;
+  const base = baseMVA(data);
+  const branches = branchModel(data, net);
+
+  // Bus admittance matrix (G and B share the pattern)
+  const G = createSparseMatrix(n);
+  const B = createSparseMatrix(n);
+  branches.forEach(br => {
+    addEntry(G, br.from, br.from, br.gff); addEntry(B, br.from, br.from, br.bff);
+    addEntry(G, br.to, br.to, br.gtt); addEntry(B, br.to, br.to, br.btt);
+    addEntry(G, br.from, br.to, br.gft); addEntry(B, br.from, br.to, br.bft);
+    addEntry(G, br.to, br.from, br.gft); addEntry(B, br.to, br.from, br.bft);
+  });
+  const gAt = (i: number, k: number) => G[i].get(k) ?? 0;
+  const bAt = (i: number, k: number) => B[i].get(k) ?? 0;
+
+  // Bus roles: the slack and PV buses with committed units regulate their voltage
+  const committedAt = data.buses.map(b => data.generators.filter(g => genStatus[g.id] && g.busId === b.id));
+  const slack = net.slackBusIdx;
+  const isReference = data.buses.map((_, i) => net.references.includes(i));
+  const regulating = data.buses.map((b, i) => isReference[i] || (b.type === 'PV' && committedAt[i].length > 0));
+  const qMin = committedAt.map(gens => sumLimit(gens, g => g.qMin, -Infinity));
+  const qMax = committedAt.map(gens => sumLimit(gens, g => g.qMax, Infinity));
+
+  const vm = data.buses.map((_, i) => (regulating[i] ? committedAt[i][0]?.voltageSetpoint ?? 1 : 1));
+  const va = Array(n).fill(0);
+  const pSpec = data.buses.map((_, i) =>
+    (committedAt[i].reduce((sum, g) => sum + (genOutput[g.id] ?? 0), 0) - busWithdrawals[i]) / base);
+  const qSpec = reactiveLoads.map(q => -q / base);
+  const pv = regulating.map((r, i) => r && !isReference[i]);
+  const pqBuses: number[] = [];
+
+  // Injections P_i, Q_i (p.u.) at the current voltages
+  const injections = () => {
+    const P = Array(n).fill(0);
+    const Q = Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      G[i].forEach((gik, k) => {
+        const bik = bAt(i, k);
+        const d = va[i] - va[k];
+        P[i] += vm[i] * vm[k] * (gik * Math.cos(d) + bik * Math.sin(d));
+        Q[i] += vm[i] * vm[k] * (gik * Math.sin(d) - bik * Math.cos(d));
+      });
+    }
+    return { P, Q };
+  };
+
+  let converged = false;
+  let iterations = 0;
+  for (let round = 0; round <= MAX_SWITCHES; round++) {
+    // Unknowns: angles of all buses but the references, magnitudes of the PQ buses
+    const angleBuses = data.buses.map((_, i) => i).filter(i => !isReference[i]);
+    const magBuses = data.buses.map((_, i) => i).filter(i => !regulating[i]);
+    const angleCol: (number | undefined)[] = Array(n).fill(undefined);
+    const magCol: (number | undefined)[] = Array(n).fill(undefined);
+    angleBuses.forEach((i, k) => { angleCol[i] = k; });
+    magBuses.forEach((i, k) => { magCol[i] = angleBuses.length + k; });
+    const size = angleBuses.length + magBuses.length;
+    let order: number[] | undefined; // Elimination order, the Jacobian pattern is fixed within a round
+
+    converged = false;
+    for (let it = 0; it < MAX_ITERATIONS; it++) {
+      const { P, Q } = injections();
+      const mismatch = [...angleBuses.map(i => pSpec[i] - P[i]), ...magBuses.map(i => qSpec[i] - Q[i])];
+      if (mismatch.every(m => Math.abs(m) < TOLERANCE)) {
+        converged = true;
+        break;
+      }
+      iterations++;
+
+      // Jacobian of [P; Q] with respect to [θ; V]
+      const J: SparseMatrix = createSparseMatrix(size);
+      const rows: [number, 'P' | 'Q'][] = [...angleBuses.map(i => [i, 'P'] as [number, 'P']), ...magBuses.map(i => [i, 'Q'] as [number, 'Q'])];
+      rows.forEach(([i, kind], r) => {
+        const set = (c: number | undefined, value: number) => { if (c !== undefined) J[r].set(c, value); };
+        const ca = angleCol[i];
+        const cv = magCol[i];
+        if (kind === 'P') {
+          set(ca, -Q[i] - bAt(i, i) * vm[i] * vm[i]);
+          set(cv, P[i] / vm[i] + gAt(i, i) * vm[i]);
+        } else {
+          set(ca, P[i] - gAt(i, i) * vm[i] * vm[i]);
+          set(cv, Q[i] / vm[i] - bAt(i, i) * vm[i]);
+        }
+        G[i].forEach((gik, k) => {
+          if (k === i) return;
+          const bik = bAt(i, k);
+          const d = va[i] - va[k];
+          const a = gik * Math.sin(d) - bik * Math.cos(d);
+          const c = gik * Math.cos(d) + bik * Math.sin(d);
+          if (kind === 'P') {
+            set(angleCol[k], vm[i] * vm[k] * a);
+            set(magCol[k], vm[i] * c);
+          } else {
+            set(angleCol[k], -vm[i] * vm[k] * c);
+            set(magCol[k], vm[i] * a);
+          }
+        });
+      });
+
+      order ??= minimumDegreeOrder(J);
+      const dx = solveFactored(factorize(J, order), mismatch);
+      if (dx.some(v => !Number.isFinite(v))) break;
+      angleBuses.forEach((i, k) => { va[i] += dx[k]; });
+      magBuses.forEach((i, k) => { vm[i] += dx[angleBuses.length + k]; });
+    }
+    if (!converged) break;
+
+    // Reactive limits of the PV buses: fix the offending buses at their limit and re-solve
+    const { Q } = injections();
+    let switched = false;
+    data.buses.forEach((_, i) => {
+      if (!pv[i]) return;
+      const qGen = Q[i] * base + reactiveLoads[i];
+      const limit = qGen > qMax[i] + Q_TOL ? qMax[i] : qGen < qMin[i] - Q_TOL ? qMin[i] : null;
+      if (limit === null) return;
+      pv[i] = false;
+      regulating[i] = false;
+      qSpec[i] = (limit - reactiveLoads[i]) / base;
+      pqBuses.push(data.buses[i].id);
+      switched = true;
+    });
+    if (!switched) break;
+  }
+
+  const { P, Q } = injections();
+
+  // Branch flows and losses
+  const lineFlows: Record<string, AcLineFlow> = {};
+  let losses = 0;
+  let reactiveLosses = 0;
+  data.lines.forEach((line, l) => {
+    if (!net.inService[l]) lineFlows[line.id] = { pFrom: 0, qFrom: 0, pTo: 0, qTo: 0, loading: 0 };
+  });
+  branches.forEach(br => {
+    const line = data.lines[br.line];
+    const f = endFlow(vm[br.from], vm[br.to], va[br.from] - va[br.to], br.gff, br.bff, br.gft, br.bft);
+    const t = endFlow(vm[br.to], vm[br.from], va[br.to] - va[br.from], br.gtt, br.btt, br.gft, br.bft);
+    const mva = Math.max(Math.hypot(f.p, f.q), Math.hypot(t.p, t.q)) * base;
+    lineFlows[line.id] = {
+      pFrom: f.p * base, qFrom: f.q * base, pTo: t.p * base, qTo: t.q * base,
+      loading: mva / line.capacity * 100,
+    };
+    losses += (f.p + t.p) * base;
+    reactiveLosses += (f.q + t.q) * base;
+  });
+
+  // Reactive output of the regulating units, shared in proportion to Pmax
+  const genReactive: Record<string, number> = {};
+  data.buses.forEach((_, i) => {
+    const gens = committedAt[i];
+    if (gens.length === 0 || (!isReference[i] && data.buses[i].type !== 'PV')) return;
+    const qGen = Q[i] * base + reactiveLoads[i];
+    const total = gens.reduce((sum, g) => sum + g.pMax, 0);
+    gens.forEach(g => { genReactive[g.id] = total > 0 ? qGen * g.pMax / total : qGen / gens.length; });
+  });
+
+  const violations: AcViolation[] = [];
+  data.buses.forEach((b, i) => {
+    const [vMin, vMax] = voltageLimits(data, i);
+    if (vm[i] > vMax + V_TOL) violations.push({ type: 'Voltage', id: String(b.id), value: vm[i], limit: vMax });
+    if (vm[i] < vMin - V_TOL) violations.push({ type: 'Voltage', id: String(b.id), value: vm[i], limit: vMin });
+  });
+  pqBuses.forEach(busId => {
+    const i = net.busIndex.get(busId)!;
+    const qGen = Q[i] * base + reactiveLoads[i];
+    violations.push({ type: 'ReactiveLimit', id: String(busId), value: qGen, limit: qGen > 0 ? qMax[i] : qMin[i] });
+  });
+  data.lines.forEach(line => {
+    const loading = lineFlows[line.id].loading;
+    if (loading > 100 + 1e-6) violations.push({ type: 'Thermal', id: line.id, value: loading, limit: 100 });
+  });
+
+  return {
+    converged,
+    iterations,
+    voltages: Object.fromEntries(data.buses.map((b, i) => [b.id, { vm: vm[i], va: va[i] * 180 / Math.PI }])),
+    lineFlows,
+    genReactive,
+    slackPower: P[slack] * base + busWithdrawals[slack],
+    losses,
+    reactiveLosses,
+    pqBuses,
+    violations: converged ? violations : [],
+  };
+}
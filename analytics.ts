@@ -0,0 +1,60 @@
+import { SimulationResult, SystemData } from './types';
+import { productionCost } from './dispatch';
+import { intervalHours } from './time';
+
+// Time series of a run for the analytics dashboard: the generation stack,
+// the range of the LMPs, line loading duration curves and the cost of each
+// interval by kind.
+
+export interface StackSeries {
+  id: string;
+  color: string;
+  values: number[]; // MW per interval
+}
+
+// Unit outputs, then storage discharge, in the order of the case
+export function generationStack(data: SystemData, results: SimulationResult): StackSeries[] {
+  return [
+    ...data.generators.map(g => ({ id: g.id, color: g.color, values: results.map(r => r.genOutput[g.id] ?? 0) })),
+    ...(data.storage ?? []).map(st => ({ id: st.id, color: st.color, values: results.map(r => Math.max(0, r.storageOutput[st.id] ?? 0)) })),
+  ];
+}
+
+// Folded rather than spread into Math.min/max: intervals × buses overflows the call stack on large cases
+export function lmpRange(results: SimulationResult): { min: number; max: number } {
+  const range = results.reduce((acc, r) => Object.values(r.lmp).reduce(
+    (a, price) => ({ min: Math.min(a.min, price), max: Math.max(a.max, price) }), acc), { min: Infinity, max: -Infinity });
+  return range.min <= range.max ? range : { min: 0, max: 0 };
+}
+
+export interface DurationCurve {
+  lineId: string;
+  points: { loading: number; interval: number }[]; // Highest loading first
+}
+
+// Loading of each line sorted from the highest down; lines by their peak loading
+export function loadingDurationCurves(data: SystemData, results: SimulationResult): DurationCurve[] {
+  return data.lines
+    .map(l => ({
+      lineId: l.id,
+      points: results.map(r => ({ loading: r.lineLoading[l.id] ?? 0, interval: r.interval })).sort((a, b) => b.loading - a.loading),
+    }))
+    .sort((a, b) => (b.points[0]?.loading ?? 0) - (a.points[0]?.loading ?? 0));
+}
+
+export interface IntervalCosts {
+  energy: number; // Offer cost of the output above no-load ($)
+  noLoad: number;
+  startup: number;
+  other: number; // Rest of the system cost: reserves, carbon, shed load and over-generation
+}
+
+export function costBreakdown(data: SystemData, results: SimulationResult): IntervalCosts[] {
+  const dt = intervalHours(data);
+  return results.map(r => {
+    const online = data.generators.filter(g => r.genStatus[g.id]);
+    const energy = online.reduce((sum, g) => sum + (productionCost(g, r.genOutput[g.id] ?? 0) - g.costC) * dt, 0);
+    const noLoad = online.reduce((sum, g) => sum + g.costC * dt, 0);
+    return { energy, noLoad, startup: r.startupCost, other: r.systemCost - energy - noLoad - r.startupCost };
+  });
+}
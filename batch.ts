@@ -0,0 +1,226 @@
+import { Generator, SimulationProgress, SimulationResult, SystemData, TransmissionLine } from './types';
+import { runSimulation } from './simulation';
+import { hasErrors, validateSystem } from './topology';
+import { importCase } from './caseio';
+import { horizonCo2 } from './emissions';
+import { intervalHours } from './time';
+import { toCsv } from './exports';
+
+// Batch runs without the UI: reading a case from JSON or a case file, sweeps
+// over a grid of parameter values (every combination of the axes' values is
+// one run), summary metrics per run and a CSV table of the summaries.
+// Everything here works on text; reading and writing files is left to the
+// caller (cli.ts).
+
+// ---------------------------------------------------------------------------
+// Cases
+
+// SystemData JSON, or a MATPOWER / IEEE CDF / PSS/E file by its extension or content
+export function loadCase(fileName: string, text: string): { data: SystemData | null; errors: string[] } {
+  if (/\.json$/i.test(fileName)) {
+    let parsed: SystemData;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      return { data: null, errors: [(e as Error).message] };
+    }
+    if (!Array.isArray(parsed?.buses) || !Array.isArray(parsed.generators) || !Array.isArray(parsed.lines)) {
+      return { data: null, errors: ['Not a SystemData JSON (needs buses, generators and lines)'] };
+    }
+    return { data: { ...parsed, loadProfile: parsed.loadProfile ?? [] }, errors: [] };
+  }
+  const imported = importCase(fileName, text);
+  return {
+    data: imported.data,
+    errors: imported.messages.filter(m => m.severity === 'Error').map(m => `${fileName}:${m.line}: ${m.message}`),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sweeps
+
+type NumericKeys<T> = { [K in keyof T]-?: NonNullable<T[K]> extends number ? K : never }[keyof T];
+
+// Parameter varied by a sweep. Values are listed, or a grid from..to by step.
+export type SweepAxis = (
+  | { target: 'Generator'; id: string; field: NumericKeys<Generator> }
+  | { target: 'Line'; id: string; field: NumericKeys<TransmissionLine> }
+  | { target: 'LoadScale' } // Factor on every bus load
+  | { target: 'System'; field: typeof SYSTEM_FIELDS[number] }
+) & { values?: number[]; from?: number; to?: number; step?: number };
+
+const SYSTEM_FIELDS = ['carbonPrice', 'emissionCap', 'valueOfLostLoad', 'overGenerationPenalty'] as const;
+
+export interface SweepDefinition {
+  name?: string;
+  axes: SweepAxis[];
+}
+
+export const MAX_SWEEP_RUNS = 1000;
+
+export const axisLabel = (axis: SweepAxis) =>
+  axis.target === 'LoadScale' ? 'loadScale' : axis.target === 'System' ? axis.field : `${axis.id}.${axis.field}`;
+
+export function axisValues(axis: SweepAxis): number[] {
+  if (axis.values) return axis.values;
+  const { from = 0, to = from, step = 1 } = axis;
+  const count = step > 0 ? Math.floor((to - from) / step + 1e-9) + 1 : 1;
+  return Array.from({ length: Math.max(1, count) }, (_, k) => Math.round((from + k * step) * 1e9) / 1e9);
+}
+
+// Checks a sweep definition against the case it varies
+export function parseSweep(text: string, data: SystemData): { sweep: SweepDefinition | null; errors: string[] } {
+  let sweep: SweepDefinition;
+  try {
+    sweep = JSON.parse(text);
+  } catch (e) {
+    return { sweep: null, errors: [(e as Error).message] };
+  }
+  if (!Array.isArray(sweep?.axes) || sweep.axes.length === 0) return { sweep: null, errors: ['A sweep needs a non-empty axes list'] };
+
+  const errors: string[] = [];
+  sweep.axes.forEach((axis, k) => {
+    const at = `axes[${k}]`;
+    if (axis.target === 'Generator' || axis.target === 'Line') {
+      const element = axis.target === 'Generator' ? data.generators.find(g => g.id === axis.id) : data.lines.find(l => l.id === axis.id);
+      // Optional fields may be unset on the element; set fields must hold numbers
+      const current = element && (element as unknown as Record<string, unknown>)[axis.field];
+      if (!element) errors.push(`${at}: no ${axis.target.toLowerCase()} ${axis.id}`);
+      else if (current !== undefined && typeof current !== 'number') errors.push(`${at}: ${axis.field} is not a numeric field`);
+    } else if (axis.target === 'System') {
+      if (!(SYSTEM_FIELDS as readonly string[]).includes(axis.field)) errors.push(`${at}: field must be one of ${SYSTEM_FIELDS.join(', ')}`);
+    } else if (axis.target !== 'LoadScale') {
+      errors.push(`${at}: target must be Generator, Line, LoadScale or System`);
+    }
+    if (axis.values ? !axis.values.every(v => typeof v === 'number' && isFinite(v)) : typeof axis.from !== 'number') {
+      errors.push(`${at}: needs numeric values, or from / to / step`);
+    }
+  });
+  const runs = sweep.axes.reduce((n, axis) => n * (errors.length ? 1 : axisValues(axis).length), 1);
+  if (runs > MAX_SWEEP_RUNS) errors.push(`${runs} runs, more than ${MAX_SWEEP_RUNS}`);
+  return { sweep: errors.length ? null : sweep, errors };
+}
+
+// Every combination of the axes' values, the first axis varying slowest
+export const sweepPoints = (sweep: SweepDefinition): number[][] =>
+  sweep.axes.reduce<number[][]>((points, axis) => points.flatMap(p => axisValues(axis).map(v => [...p, v])), [[]]);
+
+function applyAxis(data: SystemData, axis: SweepAxis, value: number): SystemData {
+  switch (axis.target) {
+    case 'Generator':
+      return { ...data, generators: data.generators.map(g => (g.id === axis.id ? { ...g, [axis.field]: value } : g)) };
+    case 'Line':
+      return { ...data, lines: data.lines.map(l => (l.id === axis.id ? { ...l, [axis.field]: value } : l)) };
+    case 'LoadScale':
+      return {
+        ...data,
+        buses: data.buses.map(b => ({ ...b, baseLoad: b.baseLoad * value, ...(b.reactiveLoad !== undefined ? { reactiveLoad: b.reactiveLoad * value } : {}) })),
+      };
+    case 'System':
+      return { ...data, [axis.field]: value };
+  }
+}
+
+export const applySweepPoint = (data: SystemData, sweep: SweepDefinition, point: number[]) =>
+  sweep.axes.reduce((d, axis, k) => applyAxis(d, axis, point[k]), data);
+
+// ---------------------------------------------------------------------------
+// Summary metrics
+
+export interface RunSummary {
+  totalCost: number; // $ over the horizon
+  startupCost: number;
+  carbonCost: number;
+  servedMWh: number;
+  shedMWh: number; // Load shedding
+  overGenerationMWh: number;
+  curtailedMWh: number; // Available output of profiled units not dispatched
+  averageLmp: number; // $/MWh, weighted by the load at each bus
+  maxLmp: number;
+  congestedIntervals: number;
+  startups: number;
+  co2: number; // t
+  violations: number; // Errors and warnings
+}
+
+export function summarizeRun(data: SystemData, results: SimulationResult): RunSummary {
+  const dt = intervalHours(data);
+  const sum = (value: (r: SimulationResult[number]) => number) => results.reduce((total, r) => total + value(r), 0);
+  const events = (type: 'LoadShedding' | 'OverGeneration') =>
+    sum(r => r.supplyEvents.filter(e => e.type === type).reduce((s, e) => s + e.mw, 0)) * dt;
+  const weighted = results.reduce((acc, r) => {
+    Object.entries(r.busWithdrawals).forEach(([bus, mw]) => {
+      if (mw <= 0) return;
+      acc.mw += mw;
+      acc.payment += mw * (r.lmp[Number(bus)] ?? 0);
+    });
+    return acc;
+  }, { mw: 0, payment: 0 });
+  return {
+    totalCost: sum(r => r.systemCost),
+    startupCost: sum(r => r.startupCost),
+    carbonCost: sum(r => r.carbonCost),
+    servedMWh: sum(r => r.servedLoad) * dt,
+    shedMWh: events('LoadShedding'),
+    overGenerationMWh: events('OverGeneration'),
+    curtailedMWh: sum(r => Object.values(r.curtailment).reduce((s, c) => s + c.mw, 0)) * dt,
+    averageLmp: weighted.mw > 0 ? weighted.payment / weighted.mw : 0,
+    maxLmp: results.reduce((max, r) => Object.values(r.lmp).reduce((m, price) => Math.max(m, price), max), 0),
+    congestedIntervals: results.filter(r => r.congested).length,
+    startups: sum(r => r.startups.length),
+    co2: horizonCo2(results),
+    violations: sum(r => r.violations.filter(v => v.severity !== 'Info').length),
+  };
+}
+
+export interface SweepRun {
+  point: Record<string, number>; // Axis label to value
+  errors: string[]; // Validation errors; the case was not simulated
+  summary: RunSummary | null;
+}
+
+// Runs every point of the sweep. onRun receives each run with its results,
+// which are not kept: a sweep's results can be far larger than its summaries.
+export function runSweep(
+  data: SystemData,
+  sweep: SweepDefinition,
+  onRun?: (run: SweepRun, results: SimulationResult | null, index: number, total: number) => void,
+  onProgress?: (progress: SimulationProgress) => void,
+): SweepRun[] {
+  const points = sweepPoints(sweep);
+  return points.map((values, index) => {
+    const point = Object.fromEntries(sweep.axes.map((axis, k) => [axisLabel(axis), values[k]]));
+    const varied = applySweepPoint(data, sweep, values);
+    const diagnostics = validateSystem(varied);
+    if (hasErrors(diagnostics)) {
+      const run = { point, errors: diagnostics.filter(d => d.severity === 'Error').map(d => d.message), summary: null };
+      onRun?.(run, null, index, points.length);
+      return run;
+    }
+    const results = runSimulation(varied, onProgress);
+    const run = { point, errors: [], summary: summarizeRun(varied, results) };
+    onRun?.(run, results, index, points.length);
+    return run;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+
+const SUMMARY_COLUMNS: (keyof RunSummary)[] = [
+  'totalCost', 'startupCost', 'carbonCost', 'servedMWh', 'shedMWh', 'overGenerationMWh', 'curtailedMWh',
+  'averageLmp', 'maxLmp', 'congestedIntervals', 'startups', 'co2', 'violations',
+];
+
+// One row per run: the axis values, then the summary metrics (empty for runs not simulated)
+export function sweepCsv(sweep: SweepDefinition, runs: SweepRun[]): string {
+  const axes = sweep.axes.map(axisLabel);
+  return toCsv([
+    [...axes, ...SUMMARY_COLUMNS, 'errors'],
+    ...runs.map(run => [
+      ...axes.map(a => run.point[a]),
+      ...SUMMARY_COLUMNS.map(c => run.summary?.[c] ?? ''),
+      run.errors.join('; '),
+    ]),
+  ]);
+}
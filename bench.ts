@@ -0,0 +1,19 @@
+import { BENCHMARK_CASES, runBenchmark } from './benchmarks';
+
+// Headless benchmark run (npm run bench): simulates every library case, prints
+// the failed checks and ends with an error when any check fails. Checks against
+// recorded baselines of this simulator are counted apart from external references.
+
+const reports = BENCHMARK_CASES.map(benchmark => {
+  const started = Date.now();
+  const report = runBenchmark(benchmark);
+  const failed = report.deviations.filter(d => !d.ok);
+  console.log(`${report.passed ? 'PASS' : 'FAIL'} ${benchmark.id}: ${report.deviations.length - failed.length}/${report.deviations.length} checks`
+    + ` (${report.externalChecks} against external references), ${Date.now() - started} ms`);
+  failed.forEach(d => console.log(
+    `  ${d.quantity} ${d.id}: ${d.value.toFixed(3)}, reference ${d.reference} ± ${d.tolerance}`));
+  return report;
+});
+
+const failedCases = reports.filter(r => !r.passed).map(r => r.caseId);
+if (failedCases.length > 0) throw new Error(`Benchmark failed: ${failedCases.join(', ')}`);
@@ -0,0 +1,117 @@
+import { Bus, Generator, HourlyDispatch, ParseMessage, SystemData, TransmissionLine } from './types';
+import { autoLayout } from './layout';
+import { busLoad, busReactiveLoad } from './loads';
+
+// Pieces shared by the case file readers and writers (matpower.ts, ieeecdf.ts,
+// psse.ts): the message log with line numbers, the defaults for what the
+// formats do not carry (unit economics, commitment state, map coordinates), and
+// the operating point a writer puts into the file.
+
+export interface ParseLog {
+  messages: ParseMessage[];
+  error: (line: number, message: string) => void;
+  warn: (line: number, message: string) => void;
+}
+
+export function createParseLog(): ParseLog {
+  const messages: ParseMessage[] = [];
+  return {
+    messages,
+    error: (line, message) => messages.push({ severity: 'Error', line, message }),
+    warn: (line, message) => messages.push({ severity: 'Warning', line, message }),
+  };
+}
+
+// Number in a data field; records an error (and returns 0) when it is not one
+export function parseNumber(log: ParseLog, line: number, token: string | undefined, field: string): number {
+  const text = (token ?? '').trim();
+  const inf = /^([+-]?)inf$/i.exec(text);
+  const value = inf ? (inf[1] === '-' ? -Infinity : Infinity) : text === '' ? NaN : Number(text);
+  if (Number.isNaN(value)) {
+    log.error(line, `${field} 不是数值: '${text}'`);
+    return 0;
+  }
+  return value;
+}
+
+export const UNLIMITED_RATING = 9999; // MW, stands for a rating of 0 (unlimited) in the files
+export const DEFAULT_COST = 20; // $/MWh for units read from formats without cost data
+
+const PALETTE = ['#60a5fa', '#f87171', '#fbbf24', '#34d399', '#a78bfa', '#f472b6', '#22d3ee', '#fb923c'];
+
+// base, then base-2, base-3, ... for parallel lines and units at one bus
+export function uniqueId(base: string, used: Set<string>): string {
+  let id = base;
+  for (let k = 2; used.has(id); k++) id = `${base}-${k}`;
+  used.add(id);
+  return id;
+}
+
+// A unit as read from a file: in service before the horizon at its file output,
+// linear cost unless the file has one
+export function importedGenerator(
+  fields: Pick<Generator, 'id' | 'busId' | 'pMin' | 'pMax'> & Partial<Generator>, k: number,
+): Generator {
+  const initialOutput = Math.min(fields.pMax, Math.max(fields.pMin, fields.initialOutput ?? fields.pMin));
+  return {
+    name: `机组 ${fields.id}`, costA: 0, costB: DEFAULT_COST, costC: 0, startUpCost: 0,
+    initialStatus: 24, type: 'Thermal', color: PALETTE[k % PALETTE.length],
+    ...fields, initialOutput,
+  };
+}
+
+type BusFields = Omit<Bus, 'x' | 'y'> & Partial<Pick<Bus, 'x' | 'y'>>;
+
+// SystemData of an imported case: flat hourly profile, buses without
+// coordinates placed automatically
+export function assembleCase(buses: BusFields[], generators: Generator[], lines: TransmissionLine[], baseMVA: number): SystemData {
+  const placed = buses.every(b => b.x !== undefined && b.y !== undefined);
+  const layout = placed ? [] : autoLayout(buses.map(b => ({ ...b, x: 0, y: 0 })), lines);
+  return {
+    buses: buses.map((b, i) => (placed ? { ...b, x: b.x!, y: b.y! } : { ...b, ...layout[i] })),
+    generators,
+    lines,
+    loadProfile: Array(24).fill(1),
+    baseMVA,
+  };
+}
+
+// Operating point written to a file: the dispatch of one interval when given
+// (bus withdrawals, committed units and their outputs, AC voltages), else the
+// base loads with every unit in service at its initial output (else pMin)
+export interface CaseState {
+  load: (bus: Bus) => { p: number; q: number };
+  gen: (gen: Generator) => { p: number; q: number; online: boolean };
+  voltage: (bus: Bus) => { vm: number; va: number };
+}
+
+export function caseState(data: SystemData, result?: HourlyDispatch): CaseState {
+  const gensAt = (busId: number) => data.generators.filter(g => g.busId === busId);
+  return {
+    load: bus => result
+      ? { p: result.busWithdrawals[bus.id] ?? busLoad(data, bus, result.interval), q: busReactiveLoad(data, bus, result.interval) }
+      : { p: bus.baseLoad, q: bus.reactiveLoad ?? 0 },
+    gen: gen => result
+      ? { p: result.genOutput[gen.id] ?? 0, q: result.acFlow?.genReactive[gen.id] ?? 0, online: !!result.genStatus[gen.id] }
+      : { p: gen.initialOutput ?? gen.pMin, q: 0, online: true },
+    voltage: bus => {
+      const ac = result?.acFlow?.voltages[bus.id];
+      if (ac) return ac;
+      const setpoint = gensAt(bus.id).find(g => g.voltageSetpoint !== undefined)?.voltageSetpoint;
+      return { vm: bus.type === 'PQ' ? 1 : setpoint ?? 1, va: 0 };
+    },
+  };
+}
+
+// Fixed-point number that stays within a column width where it can
+export function fixed(value: number, width: number, decimals: number): string {
+  let text = value.toFixed(decimals);
+  while (text.length >= width && decimals > 0) text = value.toFixed(--decimals);
+  return text.padStart(width);
+}
+
+// Number in a delimited file, to 10 significant digits
+export const num = (value: number) => (Number.isFinite(value) ? String(Number(value.toPrecision(10))) : value > 0 ? 'Inf' : '-Inf');
+
+// Line rating as written: unlimited ratings go back to 0
+export const rating = (mw: number | undefined) => (mw === undefined || mw >= UNLIMITED_RATING ? 0 : mw);
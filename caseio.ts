@@ -0,0 +1,49 @@
+import { CaseFormat, HourlyDispatch, ParseMessage, SystemData } from './types';
+import { createParseLog } from './casedata';
+import { parseMatpower, writeMatpower } from './matpower';
+import { parseIeeeCdf, writeIeeeCdf } from './ieeecdf';
+import { parsePsse, writePsse } from './psse';
+
+// Reading and writing standard case files. The format is taken from the file
+// extension, else from the content. A file with parse errors is rejected as a
+// whole; warnings list what the model does not carry over. The case read is
+// checked by validateSystem like any other data.
+
+export interface ImportResult {
+  format: CaseFormat | null;
+  data: SystemData | null; // null when the file could not be read
+  messages: ParseMessage[];
+}
+
+export const CASE_EXTENSIONS: Record<CaseFormat, string> = { MATPOWER: '.m', 'IEEE-CDF': '.cdf', 'PSSE-RAW': '.raw' };
+
+export function detectFormat(fileName: string, text: string): CaseFormat | null {
+  const extension = /\.[^.]+$/.exec(fileName.toLowerCase())?.[0];
+  if (extension === '.m') return 'MATPOWER';
+  if (extension === '.raw') return 'PSSE-RAW';
+  if (/^\s*BUS DATA FOLLOWS/im.test(text)) return 'IEEE-CDF';
+  if (/^\s*function\s+\w+\s*=|^\s*(\w+\.)?bus\s*=\s*\[/m.test(text)) return 'MATPOWER';
+  // RAW: numeric header record (IC, SBASE, ...) and a 'Q' record at the end
+  if (/^\s*[01]\s*[, ]\s*[\d.]+/.test(text) && /^\s*Q\s*$/m.test(text)) return 'PSSE-RAW';
+  return null;
+}
+
+export function importCase(fileName: string, text: string): ImportResult {
+  const format = detectFormat(fileName, text);
+  const log = createParseLog();
+  if (!format) {
+    log.error(0, '无法识别的文件格式 (支持 MATPOWER .m, IEEE CDF, PSS/E .raw)');
+    return { format, data: null, messages: log.messages };
+  }
+  const parse = format === 'MATPOWER' ? parseMatpower : format === 'IEEE-CDF' ? parseIeeeCdf : parsePsse;
+  const data = parse(text, log);
+  const failed = log.messages.some(m => m.severity === 'Error');
+  return { format, data: failed ? null : data, messages: log.messages };
+}
+
+// File contents of the case; with a dispatch result, that interval's operating point
+export function exportCase(data: SystemData, format: CaseFormat, name: string, result?: HourlyDispatch): string {
+  if (format === 'MATPOWER') return writeMatpower(data, name.replace(/\W/g, '_').replace(/^(?![A-Za-z])/, 'case_'), result);
+  if (format === 'IEEE-CDF') return writeIeeeCdf(data, name, result);
+  return writePsse(data, name, result);
+}
@@ -0,0 +1,150 @@
+import { SystemData } from './types';
+
+// Cases bundled with the simulator: the default 5-bus system and the standard
+// test systems of the benchmark library (benchmarks.ts).
+
+// Default case (IEEE 5-Bus Simplified System)
+export const FIVE_BUS: SystemData = {
+  buses: [
+    { id: 1, name: "北部电厂", type: "Slack", baseLoad: 0, x: 50, y: 15 },
+    { id: 2, name: "东部负荷", type: "PQ", baseLoad: 300, reactiveLoad: 100, x: 80, y: 40 },
+    { id: 3, name: "南部电厂", type: "PV", baseLoad: 100, reactiveLoad: 30, x: 50, y: 85 },
+    { id: 4, name: "西部负荷", type: "PQ", baseLoad: 400, reactiveLoad: 130, x: 20, y: 40 },
+    { id: 5, name: "中心枢纽", type: "PQ", baseLoad: 0, x: 50, y: 50 },
+  ],
+  generators: [
+    { 
+      id: "G1", name: "机组 1 (基荷)", busId: 1, pMin: 50, pMax: 600, 
+      costA: 0.005, costB: 20, costC: 100, startUpCost: 500, minUpTime: 8, minDownTime: 8, initialStatus: 24,
+      initialOutput: 480, rampUp: 80, rampDown: 80, spinReserveCost: 5, maxSpinReserve: 50,
+      qMin: -200, qMax: 300, voltageSetpoint: 1.04,
+      type: "Nuclear", color: "#60a5fa" 
+    },
+    { 
+      id: "G2", name: "机组 2 (腰荷)", busId: 3, pMin: 20, pMax: 400, 
+      costA: 0.01, costB: 45, costC: 50, startUpCost: 100, minUpTime: 4, minDownTime: 3, initialStatus: 6,
+      initialOutput: 40, rampUp: 120, rampDown: 120, spinReserveCost: 3, maxSpinReserve: 100,
+      qMin: -100, qMax: 150, voltageSetpoint: 1.02, co2Rate: 0.9, noxRate: 1.2, so2Rate: 1.5,
+      type: "Thermal", color: "#f87171" 
+    },
+    { 
+        id: "G3", name: "机组 3 (峰荷)", busId: 2, pMin: 10, pMax: 200, 
+        costA: 0.02, costB: 80, costC: 0, startUpCost: 0, minUpTime: 1, minDownTime: 1, initialStatus: -4,
+        rampUp: 100, rampDown: 100, spinReserveCost: 2, maxSpinReserve: 100,
+        nonSpinReserveCost: 1, maxNonSpinReserve: 150, co2Rate: 0.55, noxRate: 0.4, so2Rate: 0.01,
+        type: "Thermal", color: "#fbbf24" 
+    },
+    {
+        id: "W1", name: "风电场 1", busId: 5, pMin: 0, pMax: 250,
+        costA: 0, costB: 0, costC: 0, startUpCost: 0, initialStatus: 24, initialOutput: 200,
+        type: "Renewable", color: "#34d399"
+    }
+  ],
+  availabilityProfiles: {
+    W1: [
+      0.85, 0.9, 0.95, 0.95, 0.9, 0.8, 0.7, 0.6, 0.5, 0.4, 0.35, 0.3,
+      0.3, 0.3, 0.35, 0.4, 0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85
+    ]
+  },
+  lines: [
+    { id: "L1-2", fromBus: 1, toBus: 2, reactance: 0.02, resistance: 0.006, susceptance: 0.03, capacity: 250, emergencyCapacity: 325 },
+    { id: "L1-4", fromBus: 1, toBus: 4, reactance: 0.04, resistance: 0.012, susceptance: 0.05, capacity: 200, emergencyCapacity: 260 },
+    { id: "L1-5", fromBus: 1, toBus: 5, reactance: 0.02, resistance: 0.006, susceptance: 0.03, capacity: 400, emergencyCapacity: 520 },
+    { id: "L2-3", fromBus: 2, toBus: 3, reactance: 0.02, resistance: 0.006, susceptance: 0.03, capacity: 200, emergencyCapacity: 260 },
+    { id: "L3-4", fromBus: 3, toBus: 4, reactance: 0.04, resistance: 0.012, susceptance: 0.05, capacity: 250, emergencyCapacity: 325 },
+    { id: "L4-5", fromBus: 4, toBus: 5, reactance: 0.02, resistance: 0.006, susceptance: 0.03, capacity: 300, emergencyCapacity: 390 },
+    { id: "L2-5", fromBus: 2, toBus: 5, reactance: 0.02, resistance: 0.006, susceptance: 0.03, capacity: 250, emergencyCapacity: 325 },
+  ],
+  storage: [
+    {
+      id: "ES1", name: "储能 1 (西部)", busId: 4, chargeMW: 100, dischargeMW: 100, energyMWh: 400,
+      chargeEfficiency: 0.92, dischargeEfficiency: 0.92, initialSoc: 0.5, minSoc: 0.1, maxSoc: 0.95, color: "#a78bfa"
+    }
+  ],
+  reserveRequirements: [
+    { id: "SPIN", product: "Spinning", loadFraction: 0.05, shortfallPrice: 1000 },
+    { id: "NSPIN", product: "NonSpinning", loadFraction: 0.10, shortfallPrice: 500 },
+  ],
+  acPowerFlow: true,
+  modelLosses: true,
+  demandBids: [
+    { id: "IL4", busId: 4, mw: 60, price: 90, interruptible: true },
+    { id: "DR2", busId: 2, mw: 50, price: 40 },
+  ],
+  loadProfile: [
+    0.6, 0.55, 0.5, 0.5, 0.55, 0.65, 0.8, 0.9, 1.0, 1.1, 1.15, 1.2, 
+    1.2, 1.15, 1.1, 1.1, 1.2, 1.3, 1.25, 1.1, 1.0, 0.9, 0.8, 0.7
+  ]
+};
+
+// IEEE 14-bus test case in MATPOWER format (case14: bus, generator and branch
+// data of the IEEE Common Data Format archive, with MATPOWER's cost curves)
+export const IEEE14_MATPOWER = `function mpc = case14
+%% MATPOWER Case Format : Version 2
+mpc.version = '2';
+mpc.baseMVA = 100;
+
+%% bus data
+%	bus_i	type	Pd	Qd	Gs	Bs	area	Vm	Va	baseKV	zone	Vmax	Vmin
+mpc.bus = [
+	1	3	0	0	0	0	1	1.06	0	0	1	1.06	0.94;
+	2	2	21.7	12.7	0	0	1	1.045	-4.98	0	1	1.06	0.94;
+	3	2	94.2	19	0	0	1	1.01	-12.72	0	1	1.06	0.94;
+	4	1	47.8	-3.9	0	0	1	1.019	-10.33	0	1	1.06	0.94;
+	5	1	7.6	1.6	0	0	1	1.02	-8.78	0	1	1.06	0.94;
+	6	2	11.2	7.5	0	0	1	1.07	-14.22	0	1	1.06	0.94;
+	7	1	0	0	0	0	1	1.062	-13.37	0	1	1.06	0.94;
+	8	2	0	0	0	0	1	1.09	-13.36	0	1	1.06	0.94;
+	9	1	29.5	16.6	0	19	1	1.056	-14.94	0	1	1.06	0.94;
+	10	1	9	5.8	0	0	1	1.051	-15.1	0	1	1.06	0.94;
+	11	1	3.5	1.8	0	0	1	1.057	-14.79	0	1	1.06	0.94;
+	12	1	6.1	1.6	0	0	1	1.055	-15.07	0	1	1.06	0.94;
+	13	1	13.5	5.8	0	0	1	1.05	-15.16	0	1	1.06	0.94;
+	14	1	14.9	5	0	0	1	1.036	-16.04	0	1	1.06	0.94;
+];
+
+%% generator data
+%	bus	Pg	Qg	Qmax	Qmin	Vg	mBase	status	Pmax	Pmin
+mpc.gen = [
+	1	232.4	-16.9	10	0	1.06	100	1	332.4	0;
+	2	40	42.4	50	-40	1.045	100	1	140	0;
+	3	0	23.4	40	0	1.01	100	1	100	0;
+	6	0	12.2	24	-6	1.07	100	1	100	0;
+	8	0	17.4	24	-6	1.09	100	1	100	0;
+];
+
+%% branch data
+%	fbus	tbus	r	x	b	rateA	rateB	rateC	ratio	angle	status	angmin	angmax
+mpc.branch = [
+	1	2	0.01938	0.05917	0.0528	0	0	0	0	0	1	-360	360;
+	1	5	0.05403	0.22304	0.0492	0	0	0	0	0	1	-360	360;
+	2	3	0.04699	0.19797	0.0438	0	0	0	0	0	1	-360	360;
+	2	4	0.05811	0.17632	0.034	0	0	0	0	0	1	-360	360;
+	2	5	0.05695	0.17388	0.0346	0	0	0	0	0	1	-360	360;
+	3	4	0.06701	0.17103	0.0128	0	0	0	0	0	1	-360	360;
+	4	5	0.01335	0.04211	0	0	0	0	0	0	1	-360	360;
+	4	7	0	0.20912	0	0	0	0	0.978	0	1	-360	360;
+	4	9	0	0.55618	0	0	0	0	0.969	0	1	-360	360;
+	5	6	0	0.25202	0	0	0	0	0.932	0	1	-360	360;
+	6	11	0.09498	0.1989	0	0	0	0	0	0	1	-360	360;
+	6	12	0.12291	0.25581	0	0	0	0	0	0	1	-360	360;
+	6	13	0.06615	0.13027	0	0	0	0	0	0	1	-360	360;
+	7	8	0	0.17615	0	0	0	0	0	0	1	-360	360;
+	7	9	0	0.11001	0	0	0	0	0	0	1	-360	360;
+	9	10	0.03181	0.0845	0	0	0	0	0	0	1	-360	360;
+	9	14	0.12711	0.27038	0	0	0	0	0	0	1	-360	360;
+	10	11	0.08205	0.19207	0	0	0	0	0	0	1	-360	360;
+	12	13	0.22092	0.19988	0	0	0	0	0	0	1	-360	360;
+	13	14	0.17093	0.34802	0	0	0	0	0	0	1	-360	360;
+];
+
+%% generator cost data
+%	2	startup	shutdown	n	c(n-1)	...	c0
+mpc.gencost = [
+	2	0	0	3	0.0430292599	20	0;
+	2	0	0	3	0.25	20	0;
+	2	0	0	3	0.01	40	0;
+	2	0	0	3	0.01	40	0;
+	2	0	0	3	0.01	40	0;
+];
+`;
@@ -0,0 +1,131 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { SystemData } from './types';
+import { BENCHMARK_CASES } from './benchmarks';
+import { validateSystem } from './topology';
+import { runSimulation } from './simulation';
+import { RunSummary, loadCase, parseSweep, runSweep, summarizeRun, sweepCsv } from './batch';
+import { RESULT_TABLES, ResultTable, resultTableCsv, resultsCsv, toCsv, violationRows } from './exports';
+import { runReport } from './report';
+
+// Command-line runner (npm run cli -- <case> [options]): simulates a case, or
+// every point of a sweep, and writes the results as JSON or CSV by the output
+// file's extension. Ends with exit code 1 when the case or a run is invalid.
+
+const USAGE = `Usage: npm run cli -- <case> [options]
+
+  <case>            SystemData .json, MATPOWER .m, IEEE CDF .cdf, PSS/E .raw,
+                    or a library case id (${BENCHMARK_CASES.map(b => b.id).join(', ')})
+  --sweep <file>    Sweep definition JSON: { "axes": [{ "target": "Generator", "id": "G2",
+                    "field": "costB", "values": [30, 40] }, { "target": "LoadScale",
+                    "from": 0.8, "to": 1.2, "step": 0.1 }] }; targets Generator, Line,
+                    LoadScale and System (carbonPrice, emissionCap, ...)
+  --out <file>      Results (.json or .csv); with --sweep, one summary row per run
+  --table <name>    With a .csv --out, write one table instead of the overview:
+                    ${Object.keys(RESULT_TABLES).join(', ')}
+  --violations <f>  Violations of the run (.json or .csv)
+  --report <file>   HTML run report (print it to PDF from a browser)
+  --runs <dir>      With --sweep, also write each run's results as run-<n>.json
+  --quiet           Print nothing but errors`;
+
+interface Options {
+  casePath: string;
+  sweep?: string;
+  out?: string;
+  runs?: string;
+  table?: ResultTable;
+  violations?: string;
+  report?: string;
+  quiet: boolean;
+}
+
+function parseArgs(args: string[]): Options | string {
+  const options: Partial<Options> = { quiet: false };
+  for (let k = 0; k < args.length; k++) {
+    const arg = args[k];
+    const value = () => args[++k] ?? '';
+    if (arg === '--sweep') options.sweep = value();
+    else if (arg === '--out') options.out = value();
+    else if (arg === '--runs') options.runs = value();
+    else if (arg === '--table') options.table = value() as ResultTable;
+    else if (arg === '--violations') options.violations = value();
+    else if (arg === '--report') options.report = value();
+    else if (arg === '--quiet') options.quiet = true;
+    else if (arg === '--help' || arg === '-h') return USAGE;
+    else if (arg.startsWith('--')) return `Unknown option ${arg}\n\n${USAGE}`;
+    else if (options.casePath) return `More than one case given\n\n${USAGE}`;
+    else options.casePath = arg;
+  }
+  if (!options.casePath) return `No case given\n\n${USAGE}`;
+  if ([options.sweep, options.out, options.runs, options.table, options.violations, options.report].some(v => v === '')) {
+    return `Option without a value\n\n${USAGE}`;
+  }
+  if (options.table && !(options.table in RESULT_TABLES)) return `Unknown table ${options.table}\n\n${USAGE}`;
+  if (options.sweep && (options.table || options.violations || options.report)) return `--table, --violations and --report apply to single runs\n\n${USAGE}`;
+  return options as Options;
+}
+
+function readCase(path: string): SystemData {
+  const library = BENCHMARK_CASES.find(b => b.id === path);
+  if (library) return library.data();
+  const { data, errors } = loadCase(basename(path), readFileSync(path, 'utf8'));
+  if (!data) throw new Error(`Cannot read ${path}:\n  ${errors.join('\n  ')}`);
+  return data;
+}
+
+const isCsv = (path: string) => /\.csv$/i.test(path);
+
+const formatSummary = (s: RunSummary) =>
+  `cost $${s.totalCost.toFixed(0)}, avg LMP ${s.averageLmp.toFixed(2)} $/MWh, shed ${s.shedMWh.toFixed(1)} MWh, ` +
+  `congested ${s.congestedIntervals}, CO2 ${s.co2.toFixed(1)} t, ${s.violations} violations`;
+
+function main(options: Options) {
+  const log = (line: string) => { if (!options.quiet) console.log(line); };
+  const data = readCase(options.casePath);
+  const errors = validateSystem(data).filter(d => d.severity === 'Error');
+  if (errors.length > 0) throw new Error(`Invalid case:\n  ${errors.map(d => d.message).join('\n  ')}`);
+
+  if (!options.sweep) {
+    const started = Date.now();
+    const results = runSimulation(data);
+    log(`${options.casePath}: ${formatSummary(summarizeRun(data, results))} (${Date.now() - started} ms)`);
+    if (options.out) {
+      const csv = () => (options.table ? resultTableCsv(data, results, options.table) : resultsCsv(data, results));
+      writeFileSync(options.out, isCsv(options.out) ? csv() : JSON.stringify(results, null, 1));
+    }
+    if (options.violations) {
+      const violations = results.flatMap(r => r.violations);
+      writeFileSync(options.violations, isCsv(options.violations) ? toCsv(violationRows(data, violations)) : JSON.stringify(violations, null, 1));
+    }
+    if (options.report) writeFileSync(options.report, runReport(basename(options.casePath), data, results));
+    return;
+  }
+
+  const { sweep, errors: sweepErrors } = parseSweep(readFileSync(options.sweep, 'utf8'), data);
+  if (!sweep) throw new Error(`Invalid sweep ${options.sweep}:\n  ${sweepErrors.join('\n  ')}`);
+  if (options.runs) mkdirSync(options.runs, { recursive: true });
+  const runs = runSweep(data, sweep, (run, results, index, total) => {
+    const point = Object.entries(run.point).map(([axis, value]) => `${axis}=${value}`).join(' ');
+    log(`[${index + 1}/${total}] ${point}: ${run.summary ? formatSummary(run.summary) : `invalid: ${run.errors.join('; ')}`}`);
+    if (options.runs && results) writeFileSync(join(options.runs, `run-${index + 1}.json`), JSON.stringify({ point: run.point, results }));
+  });
+  if (options.out) {
+    writeFileSync(options.out, isCsv(options.out)
+      ? sweepCsv(sweep, runs)
+      : JSON.stringify({ sweep, runs }, null, 1));
+  }
+  if (runs.some(run => !run.summary)) process.exitCode = 1;
+}
+
+const options = parseArgs(process.argv.slice(2));
+if (typeof options === 'string') {
+  console.log(options);
+  process.exitCode = options === USAGE ? 0 : 1;
+} else {
+  try {
+    main(options);
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,166 @@
+import { ContingencyResult, Generator, SystemData } from './types';
+import { NetworkModel, busIdx, computeLineFlows, lodfColumn, ptdfRow } from './network';
+
+// N-1 contingency analysis on the DC network.
+// Line outages use LODFs; a generator outage is picked up by the remaining
+// committed units in proportion to their Pmax.
+
+export interface Contingency {
+  id: string;
+  type: 'Line' | 'Generator';
+  index: number; // Into data.lines or data.generators
+}
+
+// Sensitivity of a (post-contingency) line flow to the bus injections and to
+// each committed unit's output: flow = sum_k unitCoef[k]·P_k - sum_i busCoef[i]·load_i
+export interface FlowSensitivity {
+  busCoef: number[];
+  unitCoef: number[];
+}
+
+const OVERLOAD_TOL = 1e-6;
+
+// Bus sensitivities of line l after outage k, shared by all intervals (null: islanding)
+const outageRows = new WeakMap<NetworkModel, Map<number, number[] | null>>();
+
+function outageRow(data: SystemData, net: NetworkModel, l: number, k: number): number[] | null {
+  let rows = outageRows.get(net);
+  if (!rows) outageRows.set(net, (rows = new Map()));
+  const key = k * data.lines.length + l;
+  let row = rows.get(key);
+  if (row === undefined) {
+    const column = lodfColumn(net, k);
+    const base = ptdfRow(net, l);
+    const outaged = ptdfRow(net, k);
+    row = column ? base.map((f, i) => f + column[l] * outaged[i]) : null;
+    rows.set(key, row);
+  }
+  return row;
+}
+
+export const emergencyRating = (data: SystemData, lineIdx: number) =>
+  data.lines[lineIdx].emergencyCapacity ?? data.lines[lineIdx].capacity;
+
+// Single outages; lines already out of service in `net` are left out
+export function listContingencies(data: SystemData, net?: NetworkModel): Contingency[] {
+  return [
+    ...data.lines.flatMap((line, index) => (net && !net.inService[index] ? [] : [{ id: line.id, type: 'Line' as const, index }])),
+    ...data.generators.map((gen, index) => ({ id: gen.id, type: 'Generator' as const, index })),
+  ];
+}
+
+// Pickup share of each committed unit when `lost` trips
+function participation(committed: Generator[], lost: Generator): number[] {
+  const total = committed.reduce((sum, g) => sum + (g === lost ? 0 : g.pMax), 0);
+  return committed.map(g => (g === lost || total <= 0 ? 0 : g.pMax / total));
+}
+
+// Flow sensitivity of line `lineIdx` after `contingency` (base case when omitted).
+// Returns null when the contingency cannot be evaluated (islanding or no pickup).
+export function flowSensitivity(
+  data: SystemData,
+  net: NetworkModel,
+  committed: Generator[],
+  lineIdx: number,
+  contingency?: Contingency,
+): FlowSensitivity | null {
+  let busCoef = ptdfRow(net, lineIdx);
+
+  if (contingency?.type === 'Line') {
+    const k = contingency.index;
+    if (k === lineIdx) return { busCoef: busCoef.map(() => 0), unitCoef: committed.map(() => 0) };
+    const row = outageRow(data, net, lineIdx, k);
+    if (!row) return null;
+    busCoef = row;
+  }
+
+  const unitCoef = committed.map(g => busCoef[busIdx(net, g.busId)]);
+
+  if (contingency?.type === 'Generator') {
+    const lost = data.generators[contingency.index];
+    const k = committed.indexOf(lost);
+    if (k >= 0) {
+      const alpha = participation(committed, lost);
+      if (alpha.every(a => a === 0)) return null;
+      // The lost output reappears at the pickup units
+      unitCoef[k] = committed.reduce((sum, g, j) => sum + alpha[j] * busCoef[busIdx(net, g.busId)], 0);
+    }
+  }
+
+  return { busCoef, unitCoef };
+}
+
+export function contingencyFlow(sens: FlowSensitivity, outputs: number[], busLoads: number[]): number {
+  return sens.unitCoef.reduce((sum, c, k) => sum + c * outputs[k], 0)
+    - sens.busCoef.reduce((sum, c, i) => sum + c * busLoads[i], 0);
+}
+
+// Post-contingency line flows (MW), or null if the contingency cannot be evaluated.
+// A line outage shifts the base flows by its LODF column, a unit outage moves the
+// lost output to the pickup units: one solve of the network for all lines.
+export function postContingencyFlows(
+  data: SystemData,
+  net: NetworkModel,
+  committed: Generator[],
+  output: Record<string, number>,
+  busLoads: number[],
+  contingency: Contingency,
+): number[] | null {
+  const injections = busLoads.map(load => -load);
+  committed.forEach(g => { injections[busIdx(net, g.busId)] += output[g.id] ?? 0; });
+
+  if (contingency.type === 'Line') {
+    const k = contingency.index;
+    const column = lodfColumn(net, k);
+    if (!column) return null;
+    const flows = computeLineFlows(net, injections);
+    return flows.map((f, l) => (l === k ? 0 : f + column[l] * flows[k]));
+  }
+
+  const lost = data.generators[contingency.index];
+  const k = committed.indexOf(lost);
+  if (k >= 0) {
+    const alpha = participation(committed, lost);
+    if (alpha.every(a => a === 0)) return null;
+    const mw = output[lost.id] ?? 0;
+    injections[busIdx(net, lost.busId)] -= mw;
+    committed.forEach((g, j) => { injections[busIdx(net, g.busId)] += alpha[j] * mw; });
+  }
+  return computeLineFlows(net, injections);
+}
+
+// Screen every single line and generator outage against the emergency ratings
+export function screenContingencies(
+  data: SystemData,
+  net: NetworkModel,
+  committed: Generator[],
+  output: Record<string, number>,
+  busLoads: number[],
+): ContingencyResult[] {
+  return listContingencies(data, net).map(c => {
+    const result: ContingencyResult = {
+      id: c.id,
+      type: c.type,
+      islanding: false,
+      maxLoading: 0,
+      worstLineId: null,
+      overloads: [],
+    };
+    // An outage of a unit that is not running changes nothing
+    if (c.type === 'Generator' && !committed.includes(data.generators[c.index])) return result;
+
+    const flows = postContingencyFlows(data, net, committed, output, busLoads, c);
+    if (!flows) return { ...result, islanding: true };
+
+    data.lines.forEach((line, l) => {
+      if (c.type === 'Line' && c.index === l) return;
+      const loading = Math.abs(flows[l]) / emergencyRating(data, l) * 100;
+      if (loading > result.maxLoading) {
+        result.maxLoading = loading;
+        result.worstLineId = line.id;
+      }
+      if (loading > 100 + OVERLOAD_TOL) result.overloads.push({ lineId: line.id, flow: flows[l], loading });
+    });
+    return result;
+  });
+}
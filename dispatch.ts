@@ -0,0 +1,139 @@
+import { Generator } from './types';
+
+// Cost curves: quadratic a·P² + b·P + c, or a piecewise-linear offer curve
+// (blocks priced in ascending order, stacked from 0 MW) plus the no-load cost c.
+
+export interface DispatchResult {
+  output: Record<string, number>;
+  cost: number; // Production cost incl. no-load ($/hr)
+  lambda: number; // System incremental cost ($/MWh)
+  mismatch: number; // Load not covered (>0) or excess Pmin (<0), MW
+}
+
+const offerBlocks = (gen: Generator) => [...(gen.offerCurve || [])].sort((a, b) => a.price - b.price);
+const hasOffer = (gen: Generator) => !!gen.offerCurve && gen.offerCurve.length > 0;
+
+// Total cost of running the unit at output p ($/hr)
+export function productionCost(gen: Generator, p: number): number {
+  if (!hasOffer(gen)) return gen.costA * p * p + gen.costB * p + gen.costC;
+  let cost = gen.costC;
+  let remaining = p;
+  const blocks = offerBlocks(gen);
+  blocks.forEach((block, k) => {
+    const take = k === blocks.length - 1 ? remaining : Math.min(block.mw, remaining);
+    cost += Math.max(0, take) * block.price;
+    remaining -= take;
+  });
+  return cost;
+}
+
+// Incremental cost dC/dP at output p ($/MWh)
+export function incrementalCost(gen: Generator, p: number): number {
+  if (!hasOffer(gen)) return 2 * gen.costA * p + gen.costB;
+  const blocks = offerBlocks(gen);
+  let cumulative = 0;
+  for (const block of blocks) {
+    cumulative += block.mw;
+    if (p < cumulative - 1e-9) return block.price;
+  }
+  return blocks[blocks.length - 1].price;
+}
+
+// Output the unit would choose at price lambda, within [pMin, pMax].
+// On a flat part of the curve ('inclusive') takes the whole block, otherwise none of it.
+export function outputAtPrice(gen: Generator, lambda: number, inclusive = true): number {
+  let p: number;
+  if (hasOffer(gen)) {
+    p = 0;
+    const blocks = offerBlocks(gen);
+    blocks.forEach((block, k) => {
+      if (block.price < lambda || (inclusive && block.price === lambda)) {
+        p += k === blocks.length - 1 ? Infinity : block.mw;
+      }
+    });
+  } else if (gen.costA > 0) {
+    p = (lambda - gen.costB) / (2 * gen.costA);
+  } else {
+    p = gen.costB < lambda || (inclusive && gen.costB === lambda) ? Infinity : 0;
+  }
+  return Math.min(gen.pMax, Math.max(gen.pMin, p));
+}
+
+// Linear segments of the cost curve between pMin and pMax, for LP dispatch.
+// Quadratic curves are approximated with equal-width chords.
+export function costSegments(gen: Generator, quadraticSegments = 20): { mw: number; price: number }[] {
+  const width = gen.pMax - gen.pMin;
+  if (width <= 0) return [];
+  if (!hasOffer(gen) && gen.costA === 0) return [{ mw: width, price: gen.costB }];
+
+  const breakpoints: number[] = [];
+  if (hasOffer(gen)) {
+    let cumulative = 0;
+    offerBlocks(gen).forEach(block => {
+      cumulative += block.mw;
+      if (cumulative > gen.pMin && cumulative < gen.pMax) breakpoints.push(cumulative);
+    });
+  } else {
+    for (let k = 1; k < quadraticSegments; k++) breakpoints.push(gen.pMin + width * k / quadraticSegments);
+  }
+
+  const points = [gen.pMin, ...breakpoints, gen.pMax];
+  const segments: { mw: number; price: number }[] = [];
+  for (let k = 1; k < points.length; k++) {
+    const mw = points[k] - points[k - 1];
+    if (mw <= 0) continue;
+    segments.push({ mw, price: (productionCost(gen, points[k]) - productionCost(gen, points[k - 1])) / mw });
+  }
+  return segments;
+}
+
+// Economic dispatch of the committed units for a single hour by lambda iteration:
+// find the incremental cost at which the units' outputs add up to the load.
+export function economicDispatch(committed: Generator[], load: number): DispatchResult {
+  const output: Record<string, number> = {};
+  const total = (lambda: number, inclusive = true) =>
+    committed.reduce((sum, g) => sum + outputAtPrice(g, lambda, inclusive), 0);
+
+  if (committed.length === 0) return { output, cost: 0, lambda: 0, mismatch: load };
+
+  let lo = Math.min(...committed.map(g => incrementalCost(g, g.pMin)));
+  let hi = Math.max(...committed.map(g => incrementalCost(g, g.pMax)));
+  let lambda: number;
+
+  if (total(lo, false) >= load) {
+    lambda = lo; // Load at or below the sum of Pmin
+  } else if (total(hi) <= load) {
+    lambda = hi; // Load at or above the committed capacity
+  } else {
+    for (let k = 0; k < 100; k++) {
+      const mid = (lo + hi) / 2;
+      if (total(mid) >= load) hi = mid;
+      else lo = mid;
+    }
+    lambda = hi;
+    // Snap to the price of a flat block so the marginal units can share it
+    const flatPrices = committed.flatMap(g =>
+      hasOffer(g) ? offerBlocks(g).map(b => b.price) : g.costA === 0 ? [g.costB] : []);
+    const snapped = flatPrices.find(p => Math.abs(p - lambda) < 1e-6 * Math.max(1, Math.abs(p)));
+    if (snapped !== undefined) lambda = snapped;
+  }
+
+  // Units on a flat block at lambda share what remains after the others
+  const below = committed.map(g => outputAtPrice(g, lambda, false));
+  const above = committed.map(g => outputAtPrice(g, lambda, true));
+  const sumBelow = below.reduce((a, b) => a + b, 0);
+  const sumAbove = above.reduce((a, b) => a + b, 0);
+  const share = sumAbove - sumBelow > 1e-9
+    ? Math.min(1, Math.max(0, (load - sumBelow) / (sumAbove - sumBelow)))
+    : 0;
+
+  let cost = 0;
+  let generated = 0;
+  committed.forEach((g, i) => {
+    output[g.id] = below[i] + share * (above[i] - below[i]);
+    cost += productionCost(g, output[g.id]);
+    generated += output[g.id];
+  });
+
+  return { output, cost, lambda, mismatch: load - generated };
+}
@@ -0,0 +1,119 @@
+import { Bus, Generator, SystemData, TransmissionLine } from './types';
+import { importedGenerator, uniqueId } from './casedata';
+
+// Network edits for the map editor: each takes the case and returns the edited
+// copy. Deleting an element removes what refers to it (the lines and units of a
+// deleted bus, outages of deleted lines and units); renaming an id renames the
+// references. Whether the result can be simulated is left to validateSystem.
+
+// Element shown in the inspector
+export type Selection =
+  | { kind: 'Bus'; id: number }
+  | { kind: 'Line'; id: string }
+  | { kind: 'Generator'; id: string }
+  | null;
+
+// Undo / redo stacks of whole cases, most recent last in past and first in future
+export interface EditHistory {
+  past: SystemData[];
+  future: SystemData[];
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const recordEdit = (history: EditHistory, previous: SystemData): EditHistory =>
+  ({ past: [...history.past.slice(-(HISTORY_LIMIT - 1)), previous], future: [] });
+
+const coordinate = (value: number) => Math.round(Math.min(100, Math.max(0, value)) * 10) / 10;
+
+export function addBus(data: SystemData, x: number, y: number): { data: SystemData; id: number } {
+  const id = data.buses.reduce((max, b) => Math.max(max, b.id), 0) + 1;
+  const bus: Bus = { id, name: `节点 ${id}`, type: 'PQ', baseLoad: 0, x: coordinate(x), y: coordinate(y) };
+  return { data: { ...data, buses: [...data.buses, bus] }, id };
+}
+
+export const moveBus = (data: SystemData, id: number, x: number, y: number): SystemData =>
+  ({ ...data, buses: data.buses.map(b => (b.id === id ? { ...b, x: coordinate(x), y: coordinate(y) } : b)) });
+
+export function updateBus(data: SystemData, id: number, patch: Partial<Bus>): SystemData {
+  const renamed = patch.id !== undefined && patch.id !== id ? patch.id : null;
+  const busId = (b: number) => (renamed !== null && b === id ? renamed : b);
+  return {
+    ...data,
+    buses: data.buses.map(b => (b.id === id ? { ...b, ...patch } : b)),
+    ...(renamed === null ? {} : {
+      generators: data.generators.map(g => ({ ...g, busId: busId(g.busId) })),
+      lines: data.lines.map(l => ({ ...l, fromBus: busId(l.fromBus), toBus: busId(l.toBus) })),
+      storage: data.storage?.map(st => ({ ...st, busId: busId(st.busId) })),
+      demandBids: data.demandBids?.map(bid => ({ ...bid, busId: busId(bid.busId) })),
+      ftrs: data.ftrs?.map(f => ({ ...f, sourceBus: busId(f.sourceBus), sinkBus: busId(f.sinkBus) })),
+      reserveRequirements: data.reserveRequirements?.map(r => (r.buses ? { ...r, buses: r.buses.map(busId) } : r)),
+    }),
+  };
+}
+
+// Drops the outages and availability profiles of removed lines and units
+function withoutElements(data: SystemData, lineIds: Set<string>, genIds: Set<string>): SystemData {
+  const profiles = data.availabilityProfiles;
+  return {
+    ...data,
+    lines: data.lines.filter(l => !lineIds.has(l.id)),
+    generators: data.generators.filter(g => !genIds.has(g.id)),
+    outages: data.outages?.filter(o => !(o.type === 'Line' ? lineIds : genIds).has(o.elementId)),
+    availabilityProfiles: profiles && Object.fromEntries(Object.entries(profiles).filter(([id]) => !genIds.has(id))),
+  };
+}
+
+export function deleteBus(data: SystemData, id: number): SystemData {
+  const lineIds = new Set(data.lines.filter(l => l.fromBus === id || l.toBus === id).map(l => l.id));
+  const genIds = new Set(data.generators.filter(g => g.busId === id).map(g => g.id));
+  const rest = withoutElements(data, lineIds, genIds);
+  return {
+    ...rest,
+    buses: data.buses.filter(b => b.id !== id),
+    storage: data.storage?.filter(st => st.busId !== id),
+    demandBids: data.demandBids?.filter(bid => bid.busId !== id),
+    ftrs: data.ftrs?.filter(f => f.sourceBus !== id && f.sinkBus !== id),
+    reserveRequirements: data.reserveRequirements?.map(r => (r.buses ? { ...r, buses: r.buses.filter(b => b !== id) } : r)),
+  };
+}
+
+export function addLine(data: SystemData, fromBus: number, toBus: number): { data: SystemData; id: string } {
+  const id = uniqueId(`L${fromBus}-${toBus}`, new Set(data.lines.map(l => l.id)));
+  const line: TransmissionLine = { id, fromBus, toBus, reactance: 0.1, capacity: 100 };
+  return { data: { ...data, lines: [...data.lines, line] }, id };
+}
+
+export function updateLine(data: SystemData, id: string, patch: Partial<TransmissionLine>): SystemData {
+  const renamed = patch.id !== undefined && patch.id !== id ? patch.id : null;
+  return {
+    ...data,
+    lines: data.lines.map(l => (l.id === id ? { ...l, ...patch } : l)),
+    ...(renamed === null ? {} : {
+      outages: data.outages?.map(o => (o.type === 'Line' && o.elementId === id ? { ...o, elementId: renamed } : o)),
+    }),
+  };
+}
+
+export const deleteLine = (data: SystemData, id: string): SystemData => withoutElements(data, new Set([id]), new Set());
+
+export function addGenerator(data: SystemData, busId: number): { data: SystemData; id: string } {
+  const id = uniqueId(`G${busId}`, new Set(data.generators.map(g => g.id)));
+  const gen = importedGenerator({ id, busId, pMin: 0, pMax: 100 }, data.generators.length);
+  return { data: { ...data, generators: [...data.generators, gen] }, id };
+}
+
+export function updateGenerator(data: SystemData, id: string, patch: Partial<Generator>): SystemData {
+  const renamed = patch.id !== undefined && patch.id !== id ? patch.id : null;
+  const profiles = data.availabilityProfiles;
+  return {
+    ...data,
+    generators: data.generators.map(g => (g.id === id ? { ...g, ...patch } : g)),
+    ...(renamed === null ? {} : {
+      outages: data.outages?.map(o => (o.type === 'Generator' && o.elementId === id ? { ...o, elementId: renamed } : o)),
+      availabilityProfiles: profiles && Object.fromEntries(Object.entries(profiles).map(([g, p]) => [g === id ? renamed : g, p])),
+    }),
+  };
+}
+
+export const deleteGenerator = (data: SystemData, id: string): SystemData => withoutElements(data, new Set(), new Set([id]));
@@ -0,0 +1,32 @@
+import { Emissions, Generator, SimulationResult, SystemData } from './types';
+
+// Emissions and carbon pricing. A carbon price is a cost per MWh of each unit
+// (price times CO2 rate) added to its offer (the linear cost, or every block
+// of an offer curve), so commitment and dispatch both see it. An emission cap
+// over the horizon is met by raising the carbon price until the run's CO2
+// fits under it (runSimulation); that extra price is the cap's shadow price.
+
+export const MAX_CARBON_PRICE = 5000; // $/t, above this a cap counts as infeasible
+export const CARBON_PRICE_TOL = 0.5; // $/t, accuracy of the cap's shadow price
+export const MAX_CAP_ROUNDS = 16; // Runs to bracket and bisect the shadow price
+
+// The unit with the carbon cost in its offer
+export function withCarbonCost(g: Generator, price: number): Generator {
+  const adder = price * (g.co2Rate ?? 0);
+  if (adder === 0) return g;
+  return {
+    ...g,
+    costB: g.costB + adder,
+    ...(g.offerCurve ? { offerCurve: g.offerCurve.map(block => ({ ...block, price: block.price + adder })) } : {}),
+  };
+}
+
+export const withCarbonPrice = (data: SystemData, price: number): SystemData =>
+  (price === 0 ? data : { ...data, generators: data.generators.map(g => withCarbonCost(g, price)) });
+
+export const unitEmissions = (g: Generator, mwh: number): Emissions =>
+  ({ co2: (g.co2Rate ?? 0) * mwh, nox: (g.noxRate ?? 0) * mwh, so2: (g.so2Rate ?? 0) * mwh });
+
+export const intervalCo2 = (r: SimulationResult[number]) => Object.values(r.emissions).reduce((sum, e) => sum + e.co2, 0);
+
+export const horizonCo2 = (results: SimulationResult) => results.reduce((sum, r) => sum + intervalCo2(r), 0);
@@ -0,0 +1,115 @@
+import { SimulationResult, SystemData, Violation } from './types';
+import { intervalLabel, intervalMinutes } from './time';
+
+// Exports of a run's results: per-interval tables (commitment, dispatch, line
+// flows and loadings, LMPs, costs, violations) as CSV, and the same data as
+// one JSON document. Tables have a header row, then one row per interval
+// (per violation for the violations table).
+
+type Cell = string | number;
+
+const csvCell = (value: Cell) => {
+  const text = typeof value === 'number' ? String(Math.round(value * 1e4) / 1e4) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) => rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+// Name usable as a file name: no characters file systems reject
+export const fileSafe = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+export type ResultTable = 'Commitment' | 'Dispatch' | 'Lines' | 'Prices' | 'Costs' | 'Violations';
+
+export const RESULT_TABLES: Record<ResultTable, string> = {
+  Commitment: '机组组合', Dispatch: '机组出力', Lines: '线路潮流', Prices: '节点电价', Costs: '成本', Violations: '越限',
+};
+
+const shedCost = (r: SimulationResult[number]) => r.supplyEvents.reduce((sum, e) => sum + e.cost, 0);
+
+export function violationRows(data: SystemData, violations: Violation[]): Cell[][] {
+  return [
+    ['interval', 'time', 'code', 'severity', 'element', 'value', 'limit', 'message'],
+    ...violations.map(v => [v.interval, intervalLabel(data, v.interval), v.code, v.severity, v.elementId ?? '', v.value ?? '', v.limit ?? '', v.message]),
+  ];
+}
+
+export function resultTable(data: SystemData, results: SimulationResult, table: ResultTable): Cell[][] {
+  const storage = data.storage ?? [];
+  const rows = (header: string[], row: (r: SimulationResult[number]) => Cell[]) =>
+    [['interval', 'time', ...header], ...results.map(r => [r.interval, intervalLabel(data, r.interval), ...row(r)])];
+  switch (table) {
+    case 'Commitment':
+      return rows(
+        [...data.generators.map(g => g.id), 'startups', 'shutdowns'],
+        r => [...data.generators.map(g => (r.genStatus[g.id] ? 1 : 0)), r.startups.join(' '), r.shutdowns.join(' ')]);
+    case 'Dispatch':
+      return rows(
+        ['load_mw', 'served_mw', ...data.generators.map(g => `P_${g.id}`), ...storage.map(st => `P_${st.id}`), ...storage.map(st => `SOC_${st.id}`)],
+        r => [
+          r.requestedLoad, r.servedLoad, ...data.generators.map(g => r.genOutput[g.id] ?? 0),
+          ...storage.map(st => r.storageOutput[st.id] ?? 0), ...storage.map(st => r.storageSoc[st.id] ?? 0),
+        ]);
+    case 'Lines':
+      return rows(
+        data.lines.flatMap(l => [`F_${l.id}`, `loading_${l.id}`]),
+        r => data.lines.flatMap(l => [r.lineFlows[l.id] ?? 0, r.lineLoading[l.id] ?? 0]));
+    case 'Prices':
+      return rows(
+        ['lmp_energy', ...data.buses.flatMap(b => [`LMP_${b.id}`, `congestion_${b.id}`, `loss_${b.id}`])],
+        r => [r.lmpEnergy, ...data.buses.flatMap(b => [r.lmp[b.id] ?? 0, r.lmpCongestion[b.id] ?? 0, r.lmpLoss[b.id] ?? 0])]);
+    case 'Costs':
+      return rows(
+        ['system_cost', 'startup_cost', 'reserve_cost', 'loss_cost', 'carbon_cost', 'shortage_cost', 'demand_welfare'],
+        r => [r.systemCost, r.startupCost, r.reserveCost, r.lossCost, r.carbonCost, shedCost(r), r.demandWelfare]);
+    case 'Violations':
+      return violationRows(data, results.flatMap(r => r.violations));
+  }
+}
+
+export const resultTableCsv = (data: SystemData, results: SimulationResult, table: ResultTable) => toCsv(resultTable(data, results, table));
+
+// One row per interval: totals, then unit outputs (P_), line flows (F_) and bus LMPs (LMP_)
+export function resultsCsv(data: SystemData, results: SimulationResult): string {
+  const header = [
+    'interval', 'time', 'load_mw', 'served_mw', 'cost', 'lmp_energy', 'co2_t',
+    ...data.generators.map(g => `P_${g.id}`), ...data.lines.map(l => `F_${l.id}`), ...data.buses.map(b => `LMP_${b.id}`),
+  ];
+  return toCsv([header, ...results.map(r => [
+    r.interval, intervalLabel(data, r.interval), r.requestedLoad, r.servedLoad, r.systemCost, r.lmpEnergy,
+    Object.values(r.emissions).reduce((s, e) => s + e.co2, 0),
+    ...data.generators.map(g => r.genOutput[g.id] ?? 0),
+    ...data.lines.map(l => r.lineFlows[l.id] ?? 0),
+    ...data.buses.map(b => r.lmp[b.id] ?? 0),
+  ])]);
+}
+
+// The tables' data per interval, keyed by element id
+export function resultsJson(data: SystemData, results: SimulationResult, name: string): string {
+  return JSON.stringify({
+    case: name,
+    intervalMinutes: intervalMinutes(data),
+    intervals: results.map(r => ({
+      interval: r.interval,
+      time: intervalLabel(data, r.interval),
+      load: r.requestedLoad,
+      served: r.servedLoad,
+      commitment: r.genStatus,
+      startups: r.startups,
+      shutdowns: r.shutdowns,
+      dispatch: r.genOutput,
+      storage: r.storageOutput,
+      storageSoc: r.storageSoc,
+      lineFlows: r.lineFlows,
+      lineLoading: r.lineLoading,
+      lmpEnergy: r.lmpEnergy,
+      lmp: r.lmp,
+      lmpCongestion: r.lmpCongestion,
+      lmpLoss: r.lmpLoss,
+      costs: {
+        system: r.systemCost, startup: r.startupCost, reserve: r.reserveCost, loss: r.lossCost,
+        carbon: r.carbonCost, shortage: shedCost(r), demandWelfare: r.demandWelfare,
+      },
+      violations: r.violations,
+    })),
+  }, null, 1);
+}
@@ -0,0 +1,154 @@
+import { Bus, Generator, HourlyDispatch, SystemData, TransmissionLine } from './types';
+import {
+  ParseLog, UNLIMITED_RATING, assembleCase, caseState, fixed, importedGenerator, parseNumber, rating, uniqueId,
+} from './casedata';
+
+// IEEE Common Data Format: a title card, then BUS DATA and BRANCH DATA sections
+// closed by -999. Bus cards carry the name in fixed columns 6-17; the fields
+// after it and the branch cards are read by whitespace, which also accepts
+// files whose columns drifted. The format has no unit limits or costs: every
+// bus with generation (and every voltage-controlled bus) gets one unit with
+// Pmax = max(2·Pg, Pg + base MVA) at the default cost. The writer produces the
+// fixed columns and merges the units of a bus; units offline in the exported
+// interval drop out.
+
+const BUS_FIELDS = ['area', 'zone', 'type', 'V', 'angle', 'load MW', 'load MVAR', 'gen MW', 'gen MVAR', 'base kV', 'desired V', 'max MVAR', 'min MVAR', 'G', 'B'];
+const BRANCH_FIELDS = ['tap bus', 'Z bus', 'area', 'zone', 'circuit', 'type', 'R', 'X', 'B', 'rating 1', 'rating 2', 'rating 3', 'control bus', 'side', 'ratio', 'angle'];
+const REQUIRED_BUS_FIELDS = 13; // Up to min MVAR
+const REQUIRED_BRANCH_FIELDS = 9; // Up to B
+
+// Cards of a section from its header to the -999 line, with line numbers
+function section(lines: string[], header: string, log: ParseLog): { line: number; text: string }[] | null {
+  const start = lines.findIndex(l => l.trim().toUpperCase().startsWith(header));
+  if (start < 0) return null;
+  const cards: { line: number; text: string }[] = [];
+  for (let n = start + 1; n < lines.length; n++) {
+    if (/^\s*-999/.test(lines[n])) return cards;
+    if (lines[n].trim()) cards.push({ line: n + 1, text: lines[n] });
+  }
+  log.error(start + 1, `${header} 段缺少结束行 -999`);
+  return cards;
+}
+
+export function parseIeeeCdf(text: string, log: ParseLog): SystemData | null {
+  const lines = text.split(/\r?\n/);
+  const busCards = section(lines, 'BUS DATA FOLLOWS', log);
+  if (!busCards) {
+    log.error(0, '文件中没有 BUS DATA FOLLOWS 段');
+    return null;
+  }
+  let baseMVA = Number(lines[0]?.slice(30, 37));
+  if (!(baseMVA > 0)) {
+    log.warn(1, '标题行第 31-37 列没有基准容量: 取 100 MVA');
+    baseMVA = 100;
+  }
+
+  const buses: Omit<Bus, 'x' | 'y'>[] = [];
+  const generators: Generator[] = [];
+  let shuntLine = 0;
+  busCards.forEach(({ line, text: card }) => {
+    const id = parseNumber(log, line, card.slice(0, 4), 'bus number');
+    const fields = card.slice(17).trim().split(/\s+/);
+    if (fields.length < REQUIRED_BUS_FIELDS) {
+      return log.error(line, `节点数据只有 ${fields.length} 个字段 (名称之后), 至少需要 ${REQUIRED_BUS_FIELDS} 个`);
+    }
+    const v = fields.map((f, k) => parseNumber(log, line, f, BUS_FIELDS[k] ?? `field ${k + 1}`));
+    const [, , type, vm, , pl, ql, pg, , , vDesired, qMax, qMin, g = 0, b = 0] = v;
+    if (g !== 0 || b !== 0) shuntLine ||= line;
+    buses.push({
+      id, name: card.slice(5, 17).trim() || `节点 ${id}`, type: type === 3 ? 'Slack' : type === 2 ? 'PV' : 'PQ',
+      baseLoad: pl, ...(ql !== 0 ? { reactiveLoad: ql } : {}),
+    });
+    // Generation, or a voltage-controlled bus (synchronous condenser: Pmax 0)
+    if (pg > 0 || type >= 2) {
+      const pMax = pg > 0 || type === 3 ? Math.max(2 * pg, pg + baseMVA) : 0;
+      generators.push(importedGenerator({
+        id: `G${id}`, busId: id, pMin: 0, pMax, initialOutput: pg,
+        ...(qMax > qMin ? { qMin, qMax } : {}), voltageSetpoint: vDesired > 0 ? vDesired : vm,
+      }, generators.length));
+    }
+  });
+  if (shuntLine) log.warn(shuntLine, '节点并联导纳 (G/B) 不计入模型');
+  if (generators.length > 0) {
+    log.warn(0, `IEEE CDF 不含机组出力上限与成本: 取 Pmax = max(2·Pg, Pg + ${baseMVA}), 成本 $${generators[0].costB}/MWh`);
+  }
+
+  const lineList: TransmissionLine[] = [];
+  const lineIds = new Set<string>();
+  let unlimitedLine = 0;
+  (section(lines, 'BRANCH DATA FOLLOWS', log) ?? []).forEach(({ line, text: card }) => {
+    const fields = card.trim().split(/\s+/);
+    if (fields.length < REQUIRED_BRANCH_FIELDS) {
+      return log.error(line, `支路数据只有 ${fields.length} 个字段, 至少需要 ${REQUIRED_BRANCH_FIELDS} 个`);
+    }
+    const v = fields.map((f, k) => parseNumber(log, line, f, BRANCH_FIELDS[k] ?? `field ${k + 1}`));
+    const [fromBus, toBus, , , , type, r, x, b, rate1 = 0, rate2 = 0, , , , ratio = 0, angle = 0] = v;
+    if (angle !== 0) log.warn(line, `支路 ${fromBus}-${toBus} 的移相角 ${angle}° 不计入模型`);
+    if (rate1 <= 0) unlimitedLine ||= line;
+    const tap = ratio === 0 ? 1 : ratio;
+    const capacity = rate1 > 0 ? rate1 : UNLIMITED_RATING;
+    lineList.push({
+      id: uniqueId(`${type > 0 || tap !== 1 ? 'T' : 'L'}${fromBus}-${toBus}`, lineIds), fromBus, toBus, reactance: x, capacity,
+      ...(r !== 0 ? { resistance: r } : {}), ...(b !== 0 ? { susceptance: b } : {}), ...(tap !== 1 ? { tap } : {}),
+      ...(rate2 > 0 && rate2 !== capacity ? { emergencyCapacity: rate2 } : {}),
+    });
+  });
+  if (unlimitedLine) log.warn(unlimitedLine, `额定容量为 0 (不限) 的支路取 ${UNLIMITED_RATING} MW`);
+
+  return assembleCase(buses, generators, lineList, baseMVA);
+}
+
+const int = (value: number, width: number) => String(Math.round(value)).padStart(width);
+
+// Case in IEEE Common Data Format; with a dispatch result, the loads, unit
+// outputs and voltages of that interval
+export function writeIeeeCdf(data: SystemData, title = 'SCUC/SCED CASE', result?: HourlyDispatch): string {
+  const state = caseState(data, result);
+  const base = data.baseMVA ?? 100;
+  const date = new Date();
+  const pad2 = (n: number) => String(n).padStart(2, '0');
+  const header = ` ${pad2(date.getMonth() + 1)}/${pad2(date.getDate())}/${pad2(date.getFullYear() % 100)} ${'SCUC/SCED'.padEnd(20)} ${fixed(base, 6, 1)} ${int(date.getFullYear(), 4)} S ${title.slice(0, 28)}`;
+
+  const busCards = data.buses.map(bus => {
+    const gens = data.generators.filter(g => g.busId === bus.id);
+    const online = gens.filter(g => state.gen(g).online);
+    const load = state.load(bus);
+    const v = state.voltage(bus);
+    const pg = online.reduce((sum, g) => sum + state.gen(g).p, 0);
+    const qg = online.reduce((sum, g) => sum + state.gen(g).q, 0);
+    const qMax = gens.reduce((sum, g) => sum + (g.qMax ?? 9999), 0);
+    const qMin = gens.reduce((sum, g) => sum + (g.qMin ?? -9999), 0);
+    const type = bus.type === 'Slack' ? 3 : bus.type === 'PV' ? 2 : 0;
+    const setpoint = gens.find(g => g.voltageSetpoint !== undefined)?.voltageSetpoint ?? v.vm;
+    return int(bus.id, 4) + ' ' + bus.name.slice(0, 12).padEnd(12) + ' ' + int(1, 2) + int(1, 3) + ' ' + int(type, 2) + ' '
+      + fixed(v.vm, 6, 3) + fixed(v.va, 7, 2) + fixed(load.p, 9, 1) + fixed(load.q, 9, 1) + fixed(pg, 9, 1) + fixed(qg, 8, 1)
+      + ' ' + fixed(0, 7, 2) + ' ' + fixed(type >= 2 ? setpoint : 0, 6, 3)
+      + fixed(gens.length ? qMax : 0, 8, 1) + fixed(gens.length ? qMin : 0, 8, 1) + fixed(0, 8, 4) + fixed(0, 8, 4) + ' ' + int(0, 4);
+  });
+
+  // Parallel branches are told apart by the circuit number
+  const circuits = new Map<string, number>();
+  const branchCards = data.lines.filter(l => !result?.outages.includes(l.id)).map(l => {
+    const key = `${Math.min(l.fromBus, l.toBus)}-${Math.max(l.fromBus, l.toBus)}`;
+    const circuit = (circuits.get(key) ?? 0) + 1;
+    circuits.set(key, circuit);
+    const tap = l.tap ?? 1;
+    return int(l.fromBus, 4) + ' ' + int(l.toBus, 4) + ' ' + int(1, 2) + int(1, 3) + ' ' + int(circuit % 10, 1) + ' ' + int(tap !== 1 ? 1 : 0, 1)
+      + fixed(l.resistance ?? 0, 10, 5) + fixed(l.reactance, 11, 5) + fixed(l.susceptance ?? 0, 10, 5)
+      + int(rating(l.capacity), 5) + ' ' + int(rating(l.emergencyCapacity), 5) + ' ' + int(rating(l.emergencyCapacity), 5)
+      + ' ' + int(0, 4) + ' ' + int(0, 1) + '  ' + fixed(tap !== 1 ? tap : 0, 6, 4) + ' ' + fixed(0, 7, 2)
+      + fixed(0, 7, 4) + fixed(0, 7, 4) + ' ' + fixed(0, 6, 4) + ' ' + fixed(0, 7, 4) + fixed(0, 7, 4);
+  });
+
+  const items = (label: string, n: number) => `${label.padEnd(40)}${String(n).padStart(4)} ITEMS`;
+  return [
+    header,
+    items('BUS DATA FOLLOWS', busCards.length), ...busCards, '-999',
+    items('BRANCH DATA FOLLOWS', branchCards.length), ...branchCards, '-999',
+    items('LOSS ZONES FOLLOWS', 0), '-99',
+    items('INTERCHANGE DATA FOLLOWS', 0), '-9',
+    items('TIE LINES FOLLOWS', 0), '-999',
+    'END OF DATA',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,103 @@
+import { Bus, TransmissionLine } from './types';
+
+// Automatic bus placement for cases read without coordinates. Buses start on
+// breadth-first levels from the first bus (so neighbours start close), then a
+// force-directed pass (Fruchterman-Reingold) spreads them: lines pull their end
+// buses together, all buses push each other apart. The result is deterministic
+// and scaled into the map's 0-100 coordinate system.
+
+const MARGIN = 6; // Map units kept free at the edges
+
+// x/y for every bus (same order as buses), in map coordinates
+export function autoLayout(buses: Bus[], lines: TransmissionLine[]): { x: number; y: number }[] {
+  const n = buses.length;
+  if (n === 0) return [];
+  if (n === 1) return [{ x: 50, y: 50 }];
+
+  const index = new Map(buses.map((b, i) => [b.id, i]));
+  const neighbours = buses.map(() => new Set<number>());
+  lines.forEach(line => {
+    const from = index.get(line.fromBus);
+    const to = index.get(line.toBus);
+    if (from === undefined || to === undefined || from === to) return;
+    neighbours[from].add(to);
+    neighbours[to].add(from);
+  });
+  const edges: [number, number][] = [];
+  neighbours.forEach((set, i) => set.forEach(j => { if (i < j) edges.push([i, j]); }));
+
+  // Starting positions: one row per breadth-first level, islands one after the other
+  const level = Array(n).fill(-1);
+  const rows: number[][] = [];
+  let base = 0;
+  for (let start = 0; start < n; start++) {
+    if (level[start] >= 0) continue;
+    level[start] = base;
+    const queue = [start];
+    let deepest = base;
+    for (let q = 0; q < queue.length; q++) {
+      const i = queue[q];
+      (rows[level[i]] ??= []).push(i);
+      deepest = Math.max(deepest, level[i]);
+      neighbours[i].forEach(j => {
+        if (level[j] >= 0) return;
+        level[j] = level[i] + 1;
+        queue.push(j);
+      });
+    }
+    base = deepest + 1;
+  }
+  const x = Array(n).fill(0);
+  const y = Array(n).fill(0);
+  rows.forEach((row, r) => row.forEach((i, k) => {
+    x[i] = (k + 0.5) / row.length;
+    y[i] = (r + 0.5) / rows.length;
+  }));
+
+  // Force-directed refinement in the unit square; fewer rounds for large cases
+  const ideal = Math.sqrt(1 / n);
+  const rounds = Math.max(20, Math.min(200, Math.floor(4e7 / (n * n))));
+  let temperature = 0.1;
+  const dx = Array(n).fill(0);
+  const dy = Array(n).fill(0);
+  for (let round = 0; round < rounds; round++) {
+    dx.fill(0);
+    dy.fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let ex = x[i] - x[j];
+        let ey = y[i] - y[j];
+        let d2 = ex * ex + ey * ey;
+        if (d2 < 1e-12) { ex = 1e-3 * (i - j); ey = 1e-3; d2 = ex * ex + ey * ey; } // Coincident buses
+        const push = ideal * ideal / d2;
+        dx[i] += ex * push; dy[i] += ey * push;
+        dx[j] -= ex * push; dy[j] -= ey * push;
+      }
+    }
+    edges.forEach(([i, j]) => {
+      const ex = x[i] - x[j];
+      const ey = y[i] - y[j];
+      const pull = Math.sqrt(ex * ex + ey * ey) / ideal;
+      dx[i] -= ex * pull; dy[i] -= ey * pull;
+      dx[j] += ex * pull; dy[j] += ey * pull;
+    });
+    for (let i = 0; i < n; i++) {
+      const d = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (d < 1e-12) continue;
+      const step = Math.min(d, temperature) / d;
+      x[i] = Math.min(1, Math.max(0, x[i] + dx[i] * step));
+      y[i] = Math.min(1, Math.max(0, y[i] + dy[i] * step));
+    }
+    temperature *= 0.97;
+  }
+
+  // Stretch onto the map, keeping the margins
+  const scale = (values: number[]) => {
+    const lo = Math.min(...values);
+    const span = Math.max(...values) - lo || 1;
+    return values.map(v => MARGIN + (100 - 2 * MARGIN) * (v - lo) / span);
+  };
+  const sx = scale(x);
+  const sy = scale(y);
+  return buses.map((_, i) => ({ x: Math.round(sx[i] * 10) / 10, y: Math.round(sy[i] * 10) / 10 }));
+}
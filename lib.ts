@@ -0,0 +1,20 @@
+// Library entry point for scripts and other tools (npm run build:lib builds
+// dist-lib/lib.js for Node): the simulation, case files, validation,
+// settlement, batch runs, exports and reports, without the React app.
+
+export * from './types';
+export { runSimulation } from './simulation';
+export { validateSystem, hasErrors } from './topology';
+export { importCase, exportCase, detectFormat } from './caseio';
+export { settleMarket } from './settlement';
+export { horizonCo2 } from './emissions';
+export { BENCHMARK_CASES, runBenchmark } from './benchmarks';
+export {
+  loadCase, parseSweep, sweepPoints, applySweepPoint, runSweep, summarizeRun, sweepCsv, axisLabel, axisValues,
+} from './batch';
+export type { SweepAxis, SweepDefinition, SweepRun, RunSummary } from './batch';
+export { RESULT_TABLES, resultTable, resultTableCsv, resultsCsv, resultsJson, violationRows, toCsv } from './exports';
+export type { ResultTable } from './exports';
+export { VIOLATION_LABELS, VIOLATION_SEVERITY, allViolations, filterViolations, countByCode } from './violations';
+export type { ViolationFilter } from './violations';
+export { runReport } from './report';
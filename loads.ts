@@ -0,0 +1,31 @@
+import { Bus, DemandBid, SystemData } from './types';
+import { hourOf, profileAt } from './time';
+
+// Bus loads and demand bids by interval
+
+const loadFactor = (data: SystemData, bus: Bus, t: number) =>
+  profileAt(bus.loadProfile?.length ? bus.loadProfile : data.loadProfile, hourOf(data, t));
+
+// Requested load of a bus in interval t (MW), incl. its interruptible blocks
+export const busLoad = (data: SystemData, bus: Bus, t: number) => bus.baseLoad * loadFactor(data, bus, t);
+
+// Reactive load of a bus in interval t (MVAr), scaled like its active load
+export const busReactiveLoad = (data: SystemData, bus: Bus, t: number) => (bus.reactiveLoad ?? 0) * loadFactor(data, bus, t);
+
+// [interval][bus index] requested loads
+export const hourlyBusLoads = (data: SystemData, intervals: number, first = 0): number[][] =>
+  Array.from({ length: intervals }, (_, t) => data.buses.map(b => busLoad(data, b, first + t)));
+
+// Size of a demand bid in interval t (MW)
+export const bidMW = (data: SystemData, bid: DemandBid, t: number) =>
+  Math.max(0, bid.mw * (bid.profile?.length ? profileAt(bid.profile, hourOf(data, t)) : 1));
+
+// Price-taking part of the bus loads: the interruptible blocks are taken out and bid separately
+export function fixedBusLoads(data: SystemData, loads: number[], t: number): number[] {
+  return data.buses.map((b, i) => {
+    const interruptible = (data.demandBids ?? [])
+      .filter(bid => bid.interruptible && bid.busId === b.id)
+      .reduce((sum, bid) => sum + bidMW(data, bid, t), 0);
+    return Math.max(0, loads[i] - interruptible);
+  });
+}
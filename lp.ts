@@ -0,0 +1,515 @@
+// LP solver: bounded-variable dual simplex on the revised form.
+// minimize c·x  s.t.  rows (<=, >=, =),  lower <= x <= upper
+// The constraint matrix is kept sparse (by column and by row) and the basis inverse
+// in product form, refactorized every REFACTOR_INTERVAL pivots, so an iteration
+// costs about the nonzeros it touches instead of rows × columns.
+// Every row i has a logical variable r_i (a_i·x + r_i = b_i, r_i >= 0 for <=,
+// r_i <= 0 for >=, r_i = 0 for =), which gives a starting basis for any LP.
+// The ratio test passes the breakpoints of boxed variables in one step (bound
+// flipping), so the many cost segments of a dispatch take few pivots. A solve can
+// start from the basis of an earlier one (warm start): after rows are added the old
+// optimum stays dual feasible and usually needs only a few more pivots. Reduced
+// costs that a start leaves dual infeasible are shifted away for the dual simplex,
+// and a primal simplex removes the shift at the end.
+// Duals are returned per row as d(objective)/d(rhs).
+
+export type ConstraintSense = '<=' | '>=' | '=';
+
+export interface LinearConstraint {
+  terms: [number, number][]; // [variable index, coefficient]
+  sense: ConstraintSense;
+  rhs: number;
+}
+
+export interface LinearProgram {
+  cost: number[];
+  lower: number[];
+  upper: number[];
+  constraints: LinearConstraint[];
+}
+
+export type BasisStatus = 'Basic' | 'Lower' | 'Upper';
+
+// Basis of a solution, to start a later solve of the same LP (possibly with rows
+// and variables added) from; rows[i] is the status of row i's logical variable
+export interface LPBasis {
+  variables: BasisStatus[];
+  rows: BasisStatus[];
+}
+
+export interface LPSolution {
+  status: 'optimal' | 'infeasible' | 'unbounded' | 'iteration_limit';
+  x: number[];
+  objective: number;
+  duals: number[];
+  basis: LPBasis;
+}
+
+const PRIMAL_TOL = 1e-7;
+const DUAL_TOL = 1e-7;
+const PIVOT_TOL = 1e-7;
+const DROP_TOL = 1e-12;
+const REFACTOR_INTERVAL = 64;
+
+// Column status
+const BASIC = 0;
+const LOWER = 1;
+const UPPER = 2;
+const FREE = 3; // Nonbasic at zero without finite bounds
+
+// Elementary factor of the basis inverse: column `pivotRow` replaced by B^-1 a_q
+interface Eta {
+  pivotRow: number;
+  pivot: number;
+  index: Int32Array;
+  value: Float64Array;
+}
+
+export const createLP = (): LinearProgram => ({ cost: [], lower: [], upper: [], constraints: [] });
+
+// Returns the index of the new variable
+export function addVariable(lp: LinearProgram, cost: number, lower = 0, upper = Infinity): number {
+  lp.cost.push(cost);
+  lp.lower.push(lower);
+  lp.upper.push(upper);
+  return lp.cost.length - 1;
+}
+
+// Returns the index of the new row (used to look up its dual)
+export function addConstraint(lp: LinearProgram, terms: [number, number][], sense: ConstraintSense, rhs: number): number {
+  lp.constraints.push({ terms, sense, rhs });
+  return lp.constraints.length - 1;
+}
+
+export function solveLP(lp: LinearProgram, start?: LPBasis): LPSolution {
+  const n = lp.cost.length;
+  const m = lp.constraints.length;
+  const N = n + m; // Structural columns, then one logical per row
+
+  // Rows with duplicate terms summed, then the same matrix by column
+  const rowStart = new Int32Array(m + 1);
+  const rowCols: number[] = [];
+  const rowVals: number[] = [];
+  const mark = new Int32Array(n).fill(-1);
+  const slot = new Int32Array(n);
+  lp.constraints.forEach((c, i) => {
+    c.terms.forEach(([j, a]) => {
+      if (a === 0) return;
+      if (mark[j] === i) {
+        rowVals[slot[j]] += a;
+      } else {
+        mark[j] = i;
+        slot[j] = rowCols.length;
+        rowCols.push(j);
+        rowVals.push(a);
+      }
+    });
+    rowStart[i + 1] = rowCols.length;
+  });
+  const colStart = new Int32Array(n + 1);
+  rowCols.forEach(j => { colStart[j + 1]++; });
+  for (let j = 0; j < n; j++) colStart[j + 1] += colStart[j];
+  const colRows = new Int32Array(rowCols.length);
+  const colVals = new Float64Array(rowCols.length);
+  const fill = colStart.slice(0, n);
+  for (let i = 0; i < m; i++) {
+    for (let k = rowStart[i]; k < rowStart[i + 1]; k++) {
+      const at = fill[rowCols[k]]++;
+      colRows[at] = i;
+      colVals[at] = rowVals[k];
+    }
+  }
+
+  const lower = new Float64Array(N);
+  const upper = new Float64Array(N);
+  const cost = new Float64Array(N); // Working costs, shifted while the start is dual infeasible
+  const rhs = Float64Array.from(lp.constraints, c => c.rhs);
+  for (let j = 0; j < n; j++) {
+    lower[j] = lp.lower[j];
+    upper[j] = lp.upper[j];
+    cost[j] = lp.cost[j];
+  }
+  lp.constraints.forEach((c, i) => {
+    lower[n + i] = c.sense === '>=' ? -Infinity : 0;
+    upper[n + i] = c.sense === '<=' ? Infinity : 0;
+  });
+
+  // Nonbasic status at the bound given (or the one the cost favours), where it is finite
+  const status = new Int8Array(N);
+  const x = new Float64Array(N);
+  const atBound = (j: number, preferUpper: boolean) => {
+    if (preferUpper ? upper[j] < Infinity : lower[j] === -Infinity) return upper[j] < Infinity ? UPPER : FREE;
+    return lower[j] > -Infinity ? LOWER : FREE;
+  };
+  const setNonbasic = (j: number, s: number) => {
+    status[j] = s;
+    x[j] = s === LOWER ? lower[j] : s === UPPER ? upper[j] : 0;
+  };
+  for (let j = 0; j < N; j++) {
+    const given = j < n ? start?.variables[j] : start?.rows[j - n];
+    if (given === 'Basic' || (given === undefined && j >= n)) status[j] = BASIC;
+    else setNonbasic(j, atBound(j, given ? given === 'Upper' : cost[j] < 0));
+  }
+
+  // --- Basis inverse in product form ---
+  const head = new Int32Array(m); // Column basic in each row position
+  let etas: Eta[] = [];
+  let updates = 0;
+
+  const ftran = (v: Float64Array) => {
+    for (const eta of etas) {
+      const vp = v[eta.pivotRow];
+      if (vp === 0) continue;
+      const t = vp / eta.pivot;
+      v[eta.pivotRow] = t;
+      for (let k = 0; k < eta.index.length; k++) v[eta.index[k]] -= eta.value[k] * t;
+    }
+  };
+  const btran = (v: Float64Array) => {
+    for (let e = etas.length - 1; e >= 0; e--) {
+      const eta = etas[e];
+      let sum = v[eta.pivotRow];
+      for (let k = 0; k < eta.index.length; k++) sum -= eta.value[k] * v[eta.index[k]];
+      v[eta.pivotRow] = sum / eta.pivot;
+    }
+  };
+  const scatter = (j: number, v: Float64Array, scale = 1) => {
+    if (j >= n) {
+      v[j - n] += scale;
+      return;
+    }
+    for (let k = colStart[j]; k < colStart[j + 1]; k++) v[colRows[k]] += scale * colVals[k];
+  };
+  const addEta = (pivotRow: number, v: Float64Array) => {
+    const index: number[] = [];
+    const value: number[] = [];
+    for (let i = 0; i < m; i++) {
+      if (i !== pivotRow && Math.abs(v[i]) > DROP_TOL) {
+        index.push(i);
+        value.push(v[i]);
+      }
+    }
+    etas.push({ pivotRow, pivot: v[pivotRow], index: Int32Array.from(index), value: Float64Array.from(value) });
+  };
+
+  // Factorize the basic columns from scratch. Basic logicals keep their own row;
+  // a structural column that is (nearly) dependent on the others leaves the basis
+  // and the row it leaves uncovered takes its logical.
+  const work = new Float64Array(m);
+  const refactor = () => {
+    etas = [];
+    updates = 0;
+    const taken = new Uint8Array(m);
+    const structural: number[] = [];
+    for (let j = 0; j < N; j++) {
+      if (status[j] !== BASIC) continue;
+      if (j < n) {
+        structural.push(j);
+      } else {
+        taken[j - n] = 1;
+        head[j - n] = j;
+      }
+    }
+    structural.sort((a, b) => (colStart[a + 1] - colStart[a]) - (colStart[b + 1] - colStart[b]));
+    structural.forEach(j => {
+      work.fill(0);
+      scatter(j, work);
+      ftran(work);
+      let p = -1;
+      for (let i = 0; i < m; i++) {
+        if (!taken[i] && (p < 0 || Math.abs(work[i]) > Math.abs(work[p]))) p = i;
+      }
+      if (p < 0 || Math.abs(work[p]) < PIVOT_TOL) {
+        setNonbasic(j, atBound(j, cost[j] < 0));
+        return;
+      }
+      addEta(p, work);
+      taken[p] = 1;
+      head[p] = j;
+    });
+    for (let i = 0; i < m; i++) {
+      if (taken[i]) continue;
+      status[n + i] = BASIC;
+      head[i] = n + i;
+    }
+  };
+
+  // Basic values from the nonbasic ones: x_B = B^-1 (b - N x_N)
+  const computePrimal = () => {
+    work.set(rhs);
+    for (let j = 0; j < N; j++) if (status[j] !== BASIC && x[j] !== 0) scatter(j, work, -x[j]);
+    ftran(work);
+    for (let i = 0; i < m; i++) x[head[i]] = work[i];
+  };
+
+  // Reduced costs d = c - Aᵀy with y = B^-T c_B; returns y
+  const d = new Float64Array(N);
+  const computeDuals = (c: Float64Array) => {
+    const y = new Float64Array(m);
+    for (let i = 0; i < m; i++) y[i] = c[head[i]];
+    btran(y);
+    for (let j = 0; j < n; j++) {
+      if (status[j] === BASIC) {
+        d[j] = 0;
+        continue;
+      }
+      let sum = c[j];
+      for (let k = colStart[j]; k < colStart[j + 1]; k++) sum -= colVals[k] * y[colRows[k]];
+      d[j] = sum;
+    }
+    for (let i = 0; i < m; i++) d[n + i] = status[n + i] === BASIC ? 0 : c[n + i] - y[i];
+    return y;
+  };
+
+  // Dual feasibility: boxed variables move to the bound their reduced cost favours,
+  // the others have their cost shifted until the reduced cost is zero
+  let shifted = false;
+  const restoreDualFeasibility = () => {
+    let flipped = false;
+    for (let j = 0; j < N; j++) {
+      const s = status[j];
+      if (s === BASIC || lower[j] === upper[j]) continue;
+      const wrong = (s === LOWER && d[j] < -DUAL_TOL) || (s === UPPER && d[j] > DUAL_TOL) || (s === FREE && Math.abs(d[j]) > DUAL_TOL);
+      if (!wrong) continue;
+      if (lower[j] > -Infinity && upper[j] < Infinity) {
+        setNonbasic(j, d[j] < 0 ? UPPER : LOWER);
+        flipped = true;
+      } else {
+        cost[j] -= d[j];
+        d[j] = 0;
+        shifted = true;
+      }
+    }
+    if (flipped) computePrimal();
+  };
+
+  const refresh = () => {
+    refactor();
+    computePrimal();
+    computeDuals(cost);
+  };
+
+  const maxIterations = 50 * (m + n) + 1000;
+  let iterations = 0;
+  const rho = new Float64Array(m);
+  const alpha = new Float64Array(N);
+  const touched: number[] = [];
+  const column = new Float64Array(m);
+
+  // Row r of B^-1 [A I] for the nonbasic columns, in alpha (nonzeros listed in touched)
+  const pivotRow = (r: number) => {
+    touched.forEach(j => { alpha[j] = 0; });
+    touched.length = 0;
+    rho.fill(0);
+    rho[r] = 1;
+    btran(rho);
+    for (let i = 0; i < m; i++) {
+      const ri = rho[i];
+      if (Math.abs(ri) <= DROP_TOL) continue;
+      for (let k = rowStart[i]; k < rowStart[i + 1]; k++) {
+        const j = rowCols[k];
+        if (status[j] === BASIC) continue;
+        if (alpha[j] === 0) touched.push(j);
+        alpha[j] += ri * rowVals[k];
+      }
+      if (status[n + i] !== BASIC) {
+        touched.push(n + i);
+        alpha[n + i] = ri;
+      }
+    }
+  };
+
+  // Replace the basic column in position r by column q, whose B^-1 a_q is in `column`
+  const pivot = (r: number, q: number) => {
+    head[r] = q;
+    status[q] = BASIC;
+    d[q] = 0;
+    addEta(r, column);
+    updates++;
+  };
+
+  const dualSimplex = (): LPSolution['status'] => {
+    while (true) {
+      if (++iterations > maxIterations) return 'iteration_limit';
+
+      // Leaving: the basic variable furthest outside its bounds
+      let r = -1;
+      let worst = PRIMAL_TOL;
+      for (let i = 0; i < m; i++) {
+        const j = head[i];
+        const outside = x[j] < lower[j] ? lower[j] - x[j] : x[j] > upper[j] ? x[j] - upper[j] : 0;
+        if (outside > worst) {
+          worst = outside;
+          r = i;
+        }
+      }
+      if (r < 0) return 'optimal';
+      const p = head[r];
+      const toLower = x[p] < lower[p];
+      const sigma = toLower ? 1 : -1;
+      pivotRow(r);
+
+      // Ratio test: the reduced costs move by theta·sigma·alpha_j; candidates are the
+      // nonbasic columns whose reduced cost would change sign, sorted by breakpoint
+      const candidates: { j: number; t: number }[] = [];
+      touched.forEach(j => {
+        const a = sigma * alpha[j];
+        if (Math.abs(a) < PIVOT_TOL || lower[j] === upper[j]) return;
+        const s = status[j];
+        if (s === LOWER && a < 0) candidates.push({ j, t: Math.max(0, d[j]) / -a });
+        else if (s === UPPER && a > 0) candidates.push({ j, t: Math.max(0, -d[j]) / a });
+        else if (s === FREE) candidates.push({ j, t: Math.abs(d[j]) / Math.abs(a) });
+      });
+      candidates.sort((a, b) => a.t - b.t);
+
+      // Pass breakpoints of boxed columns while the dual objective still improves,
+      // flipping them to their other bound
+      let slope = worst;
+      let k = 0;
+      for (; k < candidates.length; k++) {
+        const j = candidates[k].j;
+        const next = slope - Math.abs(alpha[j]) * (upper[j] - lower[j]);
+        if (!(next > 0)) break;
+        slope = next;
+      }
+      if (k === candidates.length) return 'infeasible';
+
+      // Entering: the largest pivot among the breakpoints within the dual tolerance
+      let q = candidates[k].j;
+      let theta = candidates[k].t;
+      let bound = candidates[k].t + DUAL_TOL / Math.abs(alpha[q]);
+      for (let e = k + 1; e < candidates.length && candidates[e].t <= bound; e++) {
+        const j = candidates[e].j;
+        bound = Math.min(bound, candidates[e].t + DUAL_TOL / Math.abs(alpha[j]));
+        if (Math.abs(alpha[j]) > Math.abs(alpha[q])) {
+          q = j;
+          theta = candidates[e].t;
+        }
+      }
+
+      column.fill(0);
+      scatter(q, column);
+      ftran(column);
+      if (Math.abs(column[r] - alpha[q]) > 1e-6 * (1 + Math.abs(alpha[q]))) {
+        // The factors have lost accuracy: start the iteration again from fresh ones
+        refresh();
+        restoreDualFeasibility();
+        continue;
+      }
+
+      // Flips of the passed boxed columns
+      if (k > 0) {
+        work.fill(0);
+        for (let e = 0; e < k; e++) {
+          const j = candidates[e].j;
+          const from = x[j];
+          setNonbasic(j, status[j] === LOWER ? UPPER : LOWER);
+          scatter(j, work, x[j] - from);
+        }
+        ftran(work);
+        for (let i = 0; i < m; i++) x[head[i]] -= work[i];
+      }
+
+      // Dual step
+      touched.forEach(j => { if (status[j] !== BASIC) d[j] += theta * sigma * alpha[j]; });
+      d[p] = sigma * theta;
+
+      // Primal step: the leaving variable goes to the bound it violated
+      const target = toLower ? lower[p] : upper[p];
+      const step = (x[p] - target) / column[r];
+      for (let i = 0; i < m; i++) x[head[i]] -= step * column[i];
+      x[q] += step;
+      x[p] = target;
+      status[p] = toLower ? LOWER : UPPER;
+      pivot(r, q);
+      if (updates >= REFACTOR_INTERVAL) {
+        refresh();
+        restoreDualFeasibility();
+      }
+    }
+  };
+
+  // Primal simplex from a primal feasible basis (removes the cost shifts)
+  const primalSimplex = (): LPSolution['status'] => {
+    while (true) {
+      if (++iterations > maxIterations) return 'iteration_limit';
+
+      // Entering: the largest reduced cost that improves the objective
+      let q = -1;
+      let best = DUAL_TOL;
+      for (let j = 0; j < N; j++) {
+        const s = status[j];
+        if (s === BASIC || lower[j] === upper[j]) continue;
+        const gain = s === LOWER ? -d[j] : s === UPPER ? d[j] : Math.abs(d[j]);
+        if (gain > best) {
+          best = gain;
+          q = j;
+        }
+      }
+      if (q < 0) return 'optimal';
+      const dir = status[q] === UPPER || (status[q] === FREE && d[q] > 0) ? -1 : 1;
+
+      column.fill(0);
+      scatter(q, column);
+      ftran(column);
+
+      // Ratio test: the basic variables move by -dir·step·column
+      let step = upper[q] - lower[q];
+      let r = -1;
+      let toLower = false;
+      let pivotMag = 0;
+      for (let i = 0; i < m; i++) {
+        const a = dir * column[i];
+        const j = head[i];
+        let limit: number;
+        if (a > PIVOT_TOL && lower[j] > -Infinity) limit = (x[j] - lower[j]) / a;
+        else if (a < -PIVOT_TOL && upper[j] < Infinity) limit = (upper[j] - x[j]) / -a;
+        else continue;
+        limit = Math.max(0, limit);
+        if (limit < step - PRIMAL_TOL || (limit <= step + PRIMAL_TOL && r >= 0 && Math.abs(a) > pivotMag)) {
+          step = limit;
+          r = i;
+          toLower = a > 0;
+          pivotMag = Math.abs(a);
+        }
+      }
+      if (step === Infinity) return 'unbounded';
+
+      for (let i = 0; i < m; i++) x[head[i]] -= dir * step * column[i];
+      if (r < 0) {
+        setNonbasic(q, status[q] === LOWER ? UPPER : LOWER); // Bound flip
+        continue;
+      }
+      x[q] += dir * step;
+      const p = head[r];
+      x[p] = toLower ? lower[p] : upper[p];
+      status[p] = toLower ? LOWER : UPPER;
+      pivot(r, q);
+      if (updates >= REFACTOR_INTERVAL) refresh();
+      else computeDuals(cost);
+    }
+  };
+
+  const result = (outcome: LPSolution['status']): LPSolution => {
+    const y = outcome === 'optimal' ? computeDuals(Float64Array.from(lp.cost.concat(Array(m).fill(0)))) : new Float64Array(m);
+    const values = Array.from(x.subarray(0, n));
+    const name = (s: number): BasisStatus => (s === BASIC ? 'Basic' : s === UPPER ? 'Upper' : 'Lower');
+    return {
+      status: outcome,
+      x: values,
+      objective: values.reduce((sum, v, j) => sum + v * lp.cost[j], 0),
+      duals: Array.from(y),
+      basis: { variables: Array.from(status.subarray(0, n), name), rows: Array.from(status.subarray(n), name) },
+    };
+  };
+
+  refresh();
+  restoreDualFeasibility();
+  let outcome = dualSimplex();
+  if (outcome === 'optimal' && shifted) {
+    for (let j = 0; j < N; j++) cost[j] = j < n ? lp.cost[j] : 0;
+    computeDuals(cost);
+    outcome = primalSimplex();
+  }
+  return result(outcome);
+}
@@ -0,0 +1,293 @@
+import { Bus, Generator, HourlyDispatch, OfferSegment, SystemData, TransmissionLine } from './types';
+import {
+  ParseLog, UNLIMITED_RATING, assembleCase, caseState, importedGenerator, num, parseNumber, rating, uniqueId,
+} from './casedata';
+
+// MATPOWER case files (.m, format version 1 or 2): the bus, gen, branch and
+// gencost matrices and the optional bus_name cell array. Polynomial costs map
+// onto costA/costB/costC, piecewise-linear costs onto an offer curve. Bus
+// shunts, phase shifters and dispatchable loads have no counterpart here and
+// are reported as warnings. The writer adds a bus_xy matrix with the map
+// coordinates, which MATPOWER ignores.
+
+interface MatrixRow {
+  line: number;
+  values: string[];
+}
+
+interface Field {
+  line: number;
+  value?: string; // Scalar assignment
+  rows?: MatrixRow[]; // Matrix or cell array
+}
+
+const TOKEN = /'(?:[^']|'')*'|"[^"]*"|[^\s,]+/g;
+
+// Text before a '%' comment (quotes may contain '%')
+function stripComment(text: string): string {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "'") quoted = !quoted;
+    else if (text[i] === '%' && !quoted) return text.slice(0, i);
+  }
+  return text;
+}
+
+// Assignments of the file by field name (mpc.bus, or plain bus in version 1)
+function readFields(text: string, log: ParseLog): Map<string, Field> {
+  const fields = new Map<string, Field>();
+  let open: { field: string; close: string; line: number; rows: MatrixRow[] } | null = null;
+  text.split(/\r?\n/).forEach((raw, n) => {
+    const line = n + 1;
+    let rest = stripComment(raw);
+    if (!open) {
+      if (!rest.trim() || /^\s*function\b/.test(rest)) return;
+      const m = /^\s*(?:\w+\.)?(\w+)\s*=\s*(.*)$/.exec(rest);
+      if (!m) {
+        log.warn(line, `无法识别的语句, 已忽略: ${rest.trim().slice(0, 40)}`);
+        return;
+      }
+      const value = m[2].trim();
+      if (!value.startsWith('[') && !value.startsWith('{')) {
+        fields.set(m[1], { line, value: value.replace(/;\s*$/, '').trim() });
+        return;
+      }
+      open = { field: m[1], close: value[0] === '[' ? ']' : '}', line, rows: [] };
+      rest = value.slice(1);
+    }
+    // Matrix rows end at ';' or at the end of the line
+    const closeAt = rest.indexOf(open.close);
+    (closeAt >= 0 ? rest.slice(0, closeAt) : rest).split(';').forEach(part => {
+      const values = part.match(TOKEN);
+      if (values) open!.rows.push({ line, values });
+    });
+    if (closeAt >= 0) {
+      fields.set(open.field, { line: open.line, rows: open.rows });
+      open = null;
+    }
+  });
+  if (open) log.error((open as { line: number }).line, `矩阵缺少结束符`);
+  return fields;
+}
+
+// Numeric row with at least the named columns
+function readRow(log: ParseLog, row: MatrixRow, table: string, columns: string[]): number[] | null {
+  if (row.values.length < columns.length) {
+    log.error(row.line, `${table} 行只有 ${row.values.length} 列, 至少需要 ${columns.length} 列`);
+    return null;
+  }
+  return row.values.map((v, k) => parseNumber(log, row.line, v, `${table} ${columns[k] ?? `第 ${k + 1} 列`}`));
+}
+
+const BUS_COLUMNS = ['BUS_I', 'BUS_TYPE', 'PD', 'QD', 'GS', 'BS', 'BUS_AREA', 'VM', 'VA', 'BASE_KV', 'ZONE', 'VMAX', 'VMIN'];
+const GEN_COLUMNS = ['GEN_BUS', 'PG', 'QG', 'QMAX', 'QMIN', 'VG', 'MBASE', 'GEN_STATUS', 'PMAX', 'PMIN'];
+const BRANCH_COLUMNS = ['F_BUS', 'T_BUS', 'BR_R', 'BR_X', 'BR_B', 'RATE_A', 'RATE_B', 'RATE_C', 'TAP', 'SHIFT', 'BR_STATUS'];
+const GENCOST_COLUMNS = ['MODEL', 'STARTUP', 'SHUTDOWN', 'NCOST'];
+const RAMP_30 = 18; // MW per 30 minutes (version 2 gen matrix)
+
+const unquote = (token: string) => token.replace(/^'|'$/g, '').replace(/''/g, "'").replace(/^"|"$/g, '');
+
+// Cost columns of a gencost row onto the unit
+function applyCost(log: ParseLog, line: number, gen: Generator, cost: number[]) {
+  const [model, startup, shutdown, n] = cost;
+  const params = cost.slice(4);
+  gen.startUpCost = Math.max(0, startup);
+  if (shutdown !== 0) log.warn(line, `机组 ${gen.id} 的停机成本不计入模型`);
+  if (model === 2) {
+    if (params.length < n) return log.error(line, `gencost 多项式需要 ${n} 个系数`);
+    const coeffs = params.slice(0, n).reverse(); // c0, c1, c2, ...
+    if (coeffs.slice(3).some(c => c !== 0)) log.warn(line, `机组 ${gen.id} 成本多项式高于二次的项被忽略`);
+    gen.costC = coeffs[0] ?? 0;
+    gen.costB = coeffs[1] ?? 0;
+    gen.costA = coeffs[2] ?? 0;
+  } else if (model === 1) {
+    if (n < 2 || params.length < 2 * n) return log.error(line, `gencost 分段线性成本需要至少 2 个点 (${n} 个点需 ${2 * n} 个数)`);
+    const xs = Array.from({ length: n }, (_, k) => params[2 * k]);
+    const ys = Array.from({ length: n }, (_, k) => params[2 * k + 1]);
+    const slopes = xs.slice(1).map((x, k) => (ys[k + 1] - ys[k]) / (x - xs[k]));
+    if (slopes.some(s => !Number.isFinite(s))) return log.error(line, `gencost 分段线性成本的出力点须递增`);
+    if (slopes.some((s, k) => k > 0 && s < slopes[k - 1])) log.warn(line, `机组 ${gen.id} 成本曲线非凸: 报价段按价格排序`);
+    // The first segment extends back to 0 MW, so the cost matches at every point
+    gen.costA = 0;
+    gen.costB = slopes[0];
+    gen.costC = ys[0] - slopes[0] * xs[0];
+    gen.offerCurve = slopes.map((price, k) => ({ mw: k === 0 ? xs[1] : xs[k + 1] - xs[k], price }));
+  } else {
+    log.error(line, `gencost 模型 ${model} 未知 (1: 分段线性, 2: 多项式)`);
+  }
+}
+
+export function parseMatpower(text: string, log: ParseLog): SystemData | null {
+  const fields = readFields(text, log);
+  const busField = fields.get('bus');
+  if (!busField?.rows) {
+    log.error(0, '文件中没有 mpc.bus 矩阵');
+    return null;
+  }
+
+  const baseField = fields.get('baseMVA');
+  const baseMVA = baseField?.value ? parseNumber(log, baseField.line, baseField.value, 'baseMVA') : 100;
+  if (!baseField) log.warn(0, '未给出 baseMVA: 取 100 MVA');
+  const names = fields.get('bus_name')?.rows?.map(r => unquote(r.values[0]));
+  const coords = fields.get('bus_xy')?.rows;
+
+  const buses: (Omit<Bus, 'x' | 'y'> & Partial<Pick<Bus, 'x' | 'y'>>)[] = [];
+  let shuntLine = 0;
+  busField.rows.forEach((row, k) => {
+    const v = readRow(log, row, 'bus', BUS_COLUMNS);
+    if (!v) return;
+    const [id, type, pd, qd, gs, bs] = v;
+    if (!Number.isInteger(id) || id <= 0) return log.error(row.line, `节点编号须为正整数: ${row.values[0]}`);
+    if (type === 4) log.warn(row.line, `节点 ${id} 为孤立节点 (类型 4)`);
+    if ((gs !== 0 || bs !== 0) && !shuntLine) shuntLine = row.line;
+    if (pd < 0) log.warn(row.line, `节点 ${id} 的负荷为负 (${pd} MW): 按注入处理的负荷在调度中计为 0`);
+    const xy = coords?.length === busField.rows!.length ? coords[k].values.map(Number) : null;
+    buses.push({
+      id, name: names?.[k] ?? `节点 ${id}`, type: type === 3 ? 'Slack' : type === 2 ? 'PV' : 'PQ',
+      baseLoad: pd, ...(qd !== 0 ? { reactiveLoad: qd } : {}),
+      ...(v[12] > 0 ? { vMin: v[12] } : {}), ...(v[11] > 0 ? { vMax: v[11] } : {}),
+      ...(xy && xy.length >= 2 && xy.every(Number.isFinite) ? { x: xy[0], y: xy[1] } : {}),
+    });
+  });
+  if (shuntLine) log.warn(shuntLine, '节点并联导纳 (GS/BS) 不计入模型');
+
+  const costRows = fields.get('gencost')?.rows;
+  const generators: Generator[] = [];
+  const genIds = new Set<string>();
+  (fields.get('gen')?.rows ?? []).forEach((row, k) => {
+    const v = readRow(log, row, 'gen', GEN_COLUMNS);
+    if (!v) return;
+    const [busId, pg, , qMax, qMin, vg, , status, pMax, pMin] = v;
+    if (status <= 0) return log.warn(row.line, `节点 ${busId} 的机组停运 (GEN_STATUS = 0), 未导入`);
+    if (pMax <= 0 && pMin < 0) return log.warn(row.line, `节点 ${busId} 的可调度负荷 (PMIN < 0) 不支持, 未导入`);
+    if (pMin < 0) log.warn(row.line, `节点 ${busId} 机组 PMIN < 0, 按 0 处理`);
+    const ramp = v[RAMP_30] > 0 ? 2 * v[RAMP_30] : undefined;
+    const gen = importedGenerator({
+      id: uniqueId(`G${busId}`, genIds), busId, pMin: Math.max(0, pMin), pMax, initialOutput: pg,
+      ...(Number.isFinite(qMin) ? { qMin } : {}), ...(Number.isFinite(qMax) ? { qMax } : {}),
+      ...(vg > 0 ? { voltageSetpoint: vg } : {}), ...(ramp ? { rampUp: ramp, rampDown: ramp } : {}),
+    }, generators.length);
+    const costRow = costRows?.[k];
+    const cost = costRow && readRow(log, costRow, 'gencost', GENCOST_COLUMNS);
+    if (cost) applyCost(log, costRow.line, gen, cost);
+    generators.push(gen);
+  });
+  if (generators.length > 0 && !costRows) log.warn(0, `没有 mpc.gencost: 机组成本取 $${generators[0].costB}/MWh`);
+
+  const lines: TransmissionLine[] = [];
+  const lineIds = new Set<string>();
+  let unlimitedLine = 0;
+  (fields.get('branch')?.rows ?? []).forEach(row => {
+    const v = readRow(log, row, 'branch', BRANCH_COLUMNS);
+    if (!v) return;
+    const [fromBus, toBus, r, x, b, rateA, rateB, , ratio, shift, status] = v;
+    if (status <= 0) return log.warn(row.line, `支路 ${fromBus}-${toBus} 停运 (BR_STATUS = 0), 未导入`);
+    if (shift !== 0) log.warn(row.line, `支路 ${fromBus}-${toBus} 的移相角 ${shift}° 不计入模型`);
+    if (rateA <= 0 && !unlimitedLine) unlimitedLine = row.line;
+    const tap = ratio === 0 ? 1 : ratio;
+    const capacity = rateA > 0 ? rateA : UNLIMITED_RATING;
+    lines.push({
+      id: uniqueId(`${tap !== 1 ? 'T' : 'L'}${fromBus}-${toBus}`, lineIds), fromBus, toBus, reactance: x, capacity,
+      ...(r !== 0 ? { resistance: r } : {}), ...(b !== 0 ? { susceptance: b } : {}), ...(tap !== 1 ? { tap } : {}),
+      ...(rateB > 0 && rateB !== capacity ? { emergencyCapacity: rateB } : {}),
+    });
+  });
+  if (unlimitedLine) log.warn(unlimitedLine, `RATE_A = 0 (不限) 的支路容量取 ${UNLIMITED_RATING} MW`);
+
+  return assembleCase(buses, generators, lines, baseMVA);
+}
+
+// Points of an offer curve as a piecewise-linear cost from 0 MW, covering pMax
+function costPoints(gen: Generator, offer: OfferSegment[]): number[] {
+  const blocks = [...offer].sort((a, b) => a.price - b.price);
+  const points = [0, gen.costC];
+  let mw = 0;
+  let cost = gen.costC;
+  blocks.forEach((block, k) => {
+    const size = k === blocks.length - 1 ? Math.max(block.mw, gen.pMax - mw) : block.mw;
+    mw += size;
+    cost += size * block.price;
+    points.push(mw, cost);
+  });
+  return points;
+}
+
+const matrix = (rows: (string | number)[][]) =>
+  rows.map(r => `\t${r.map(v => (typeof v === 'number' ? num(v) : v)).join('\t')};`).join('\n');
+
+// Case as a MATPOWER version 2 file; with a dispatch result, the loads, unit
+// outputs, commitment and voltages of that interval
+export function writeMatpower(data: SystemData, name = 'scuc_case', result?: HourlyDispatch): string {
+  const state = caseState(data, result);
+  const busType = (b: Bus) => (b.type === 'Slack' ? 3 : b.type === 'PV' ? 2 : 1);
+  const busRows = data.buses.map(b => {
+    const load = state.load(b);
+    const v = state.voltage(b);
+    return [b.id, busType(b), load.p, load.q, 0, 0, 1, v.vm, v.va, 0, 1, b.vMax ?? 1.05, b.vMin ?? 0.95];
+  });
+  const genRows = data.generators.map(g => {
+    const s = state.gen(g);
+    const ramp = g.rampUp !== undefined ? g.rampUp / 2 : 0;
+    return [
+      g.busId, s.p, s.q, g.qMax ?? 9999, g.qMin ?? -9999, g.voltageSetpoint ?? 1, data.baseMVA ?? 100, s.online ? 1 : 0,
+      g.pMax, g.pMin, 0, 0, 0, 0, 0, 0, 0, 0, ramp, 0, 0,
+    ];
+  });
+  const branchRows = data.lines.map(l => [
+    l.fromBus, l.toBus, l.resistance ?? 0, l.reactance, l.susceptance ?? 0,
+    rating(l.capacity), rating(l.emergencyCapacity), rating(l.emergencyCapacity), l.tap ?? 0, 0,
+    result?.outages.includes(l.id) ? 0 : 1, -360, 360,
+  ]);
+  const costRows = data.generators.map(g => (g.offerCurve?.length
+    ? (() => { const points = costPoints(g, g.offerCurve!); return [1, g.startUpCost, 0, points.length / 2, ...points]; })()
+    : [2, g.startUpCost, 0, 3, g.costA, g.costB, g.costC]));
+
+  return [
+    `function mpc = ${name}`,
+    `%${name.toUpperCase()}  Exported by the SCUC/SCED simulator${result ? `, interval ${result.interval + 1} (hour ${result.hour})` : ''}`,
+    '',
+    '%% MATPOWER Case Format : Version 2',
+    "mpc.version = '2';",
+    '',
+    '%%-----  Power Flow Data  -----%%',
+    '%% system MVA base',
+    `mpc.baseMVA = ${num(data.baseMVA ?? 100)};`,
+    '',
+    '%% bus data',
+    '%\tbus_i\ttype\tPd\tQd\tGs\tBs\tarea\tVm\tVa\tbaseKV\tzone\tVmax\tVmin',
+    'mpc.bus = [',
+    matrix(busRows),
+    '];',
+    '',
+    '%% generator data',
+    '%\tbus\tPg\tQg\tQmax\tQmin\tVg\tmBase\tstatus\tPmax\tPmin\tPc1\tPc2\tQc1min\tQc1max\tQc2min\tQc2max\tramp_agc\tramp_10\tramp_30\tramp_q\tapf',
+    'mpc.gen = [',
+    matrix(genRows),
+    '];',
+    '',
+    '%% branch data',
+    '%\tfbus\ttbus\tr\tx\tb\trateA\trateB\trateC\tratio\tangle\tstatus\tangmin\tangmax',
+    'mpc.branch = [',
+    matrix(branchRows),
+    '];',
+    '',
+    '%%-----  OPF Data  -----%%',
+    '%% generator cost data',
+    '%\t1\tstartup\tshutdown\tn\tx1\ty1\t...\txn\tyn',
+    '%\t2\tstartup\tshutdown\tn\tc(n-1)\t...\tc0',
+    'mpc.gencost = [',
+    matrix(costRows),
+    '];',
+    '',
+    '%% bus names',
+    'mpc.bus_name = {',
+    data.buses.map(b => `\t'${b.name.replace(/'/g, "''")}';`).join('\n'),
+    '};',
+    '',
+    '%% bus coordinates on the map (not part of the MATPOWER format)',
+    'mpc.bus_xy = [',
+    matrix(data.buses.map(b => [b.x, b.y])),
+    '];',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,178 @@
+import { SystemData } from './types';
+import { findIslands } from './topology';
+import { SparseFactor, addEntry, createSparseMatrix, factorize, solveFactored } from './sparse';
+
+// DC network model. Buses are addressed by their index in data.buses (busIndex
+// maps the ids, which need not be contiguous). Lines on outage are left out, and
+// when that (or the case itself) splits the network every island gets its own
+// angle reference: the bus declared 'Slack', else the island's bus with the most
+// generating capacity. With slackWeight on any bus the slack is distributed: an
+// imbalance of an island's injections is taken up by its buses in proportion to
+// their weights, and the PTDFs and loss factors refer to that mix instead of a single bus.
+// B is factorized once (sparse LU); PTDF rows and LODF columns are solved from the
+// factors on first use and kept, so they are shared by all intervals and contingencies.
+export interface NetworkModel {
+  numBuses: number;
+  busIndex: Map<number, number>; // Bus id -> index in data.buses
+  slackBusIdx: number; // Reference of the main island
+  islands: number[][]; // Bus indices per island, the main island first
+  busIsland: number[]; // Island of each bus
+  references: number[]; // Reference bus per island
+  slackWeights: number[]; // Share of each bus in its island's slack, sums to 1 per island
+  inService: boolean[]; // Per line
+  lineEnds: [number, number][]; // [from, to] bus indices per line
+  lineSusceptance: number[]; // 1/x per line, 0 when out of service
+  factor: SparseFactor; // B with the reference rows and columns replaced by the identity
+  ptdfRows: (number[] | undefined)[]; // See ptdfRow
+  lodfColumns: (number[] | null | undefined)[]; // See lodfColumn
+}
+
+export function buildNetwork(data: SystemData, outagedLines: Set<string> = new Set()): NetworkModel {
+  const numBuses = data.buses.length;
+  const busIndex = new Map(data.buses.map((b, i) => [b.id, i]));
+  const inService = data.lines.map(line => !outagedLines.has(line.id));
+
+  // Islands and their references, the island of the declared slack first
+  const declared = Math.max(0, data.buses.findIndex(b => b.type === 'Slack'));
+  const islands = findIslands(data, inService).sort((a, b) => Number(b.includes(declared)) - Number(a.includes(declared)));
+  const busIsland = Array(numBuses).fill(0);
+  islands.forEach((island, k) => island.forEach(i => { busIsland[i] = k; }));
+  const capacity = data.buses.map(b => data.generators.reduce((sum, g) => sum + (g.busId === b.id ? g.pMax : 0), 0));
+  const references = islands.map(island => (island.includes(declared)
+    ? declared
+    : island.reduce((best, i) => (capacity[i] > capacity[best] ? i : best), island[0])));
+  const slackBusIdx = references[0];
+
+  const slackWeights = Array(numBuses).fill(0);
+  islands.forEach((island, k) => {
+    const weights = island.map(i => Math.max(0, data.buses[i].slackWeight ?? 0));
+    const total = weights.reduce((a, b) => a + b, 0);
+    if (total > 0) island.forEach((i, j) => { slackWeights[i] = weights[j] / total; });
+    else slackWeights[references[k]] = 1;
+  });
+
+  const lineEnds = data.lines.map(line => [busIndex.get(line.fromBus)!, busIndex.get(line.toBus)!] as [number, number]);
+  const lineSusceptance = data.lines.map((line, l) => (inService[l] ? 1 / line.reactance : 0));
+
+  // B-Matrix construction (Susceptance), the reference angles fixed at 0
+  const isReference = data.buses.map((_, i) => references.includes(i));
+  const B = createSparseMatrix(numBuses);
+  lineEnds.forEach(([from, to], l) => {
+    const b = lineSusceptance[l];
+    if (b === 0) return;
+    [[from, from, b], [to, to, b], [from, to, -b], [to, from, -b]].forEach(([i, j, v]) => {
+      if (!isReference[i] && !isReference[j]) addEntry(B, i, j, v);
+    });
+  });
+  references.forEach(r => B[r].set(r, 1));
+
+  return {
+    numBuses,
+    busIndex,
+    slackBusIdx,
+    islands,
+    busIsland,
+    references,
+    slackWeights,
+    inService,
+    lineEnds,
+    lineSusceptance,
+    factor: factorize(B),
+    ptdfRows: data.lines.map(() => undefined),
+    lodfColumns: data.lines.map(() => undefined),
+  };
+}
+
+// Index of a bus in data.buses
+export const busIdx = (net: NetworkModel, busId: number) => net.busIndex.get(busId) ?? -1;
+
+// Bus angles (rad) for injections that sum to zero in every island (MW / base of the reactances)
+function solveAngles(net: NetworkModel, P: number[]): number[] {
+  const rhs = [...P];
+  net.references.forEach(r => { rhs[r] = 0; });
+  return solveFactored(net.factor, rhs);
+}
+
+const flowsFromAngles = (net: NetworkModel, angles: number[]) =>
+  net.lineEnds.map(([from, to], l) => (angles[from] - angles[to]) * net.lineSusceptance[l]);
+
+// Refer per-bus sensitivities (to the island references) to the distributed slacks
+const distribute = (net: NetworkModel, values: number[]) => {
+  const offsets = net.islands.map(island => island.reduce((sum, i) => sum + net.slackWeights[i] * values[i], 0));
+  return offsets.every(o => o === 0) ? values : values.map((v, i) => v - offsets[net.busIsland[i]]);
+};
+
+// Solve B·y = sum coef·(e_from - e_to) over the given lines
+function solveLineTransfers(net: NetworkModel, coefs: [number, number][]): number[] {
+  const rhs = Array(net.numBuses).fill(0);
+  coefs.forEach(([l, c]) => {
+    const [from, to] = net.lineEnds[l];
+    rhs[from] += c;
+    rhs[to] -= c;
+  });
+  return solveAngles(net, rhs);
+}
+
+// PTDF row of line l: MW flow per MW injected at each bus and withdrawn at the slack.
+// B is symmetric, so the row is a single solve for a transfer between the line's ends.
+export function ptdfRow(net: NetworkModel, l: number): number[] {
+  const cached = net.ptdfRows[l];
+  if (cached) return cached;
+  const y = solveLineTransfers(net, [[l, net.lineSusceptance[l]]]);
+  const row = distribute(net, y);
+  net.ptdfRows[l] = row;
+  return row;
+}
+
+// LODF column of line k: change of flow on each line per MW flowing on k before k
+// is outaged (-1 on k itself), or null when outaging k splits the network
+export function lodfColumn(net: NetworkModel, k: number): number[] | null {
+  const cached = net.lodfColumns[k];
+  if (cached !== undefined) return cached;
+  if (!net.inService[k]) return (net.lodfColumns[k] = net.lineEnds.map(() => 0)); // Already out
+  const [from, to] = net.lineEnds[k];
+  const transfer = Array(net.numBuses).fill(0);
+  transfer[from] = 1;
+  transfer[to] = -1;
+  const flows = flowsFromAngles(net, solveAngles(net, transfer));
+  const denom = 1 - flows[k];
+  const column = Math.abs(denom) < 1e-9 ? null : flows.map((f, l) => (l === k ? -1 : f / denom));
+  net.lodfColumns[k] = column;
+  return column;
+}
+
+// DC line flows (MW) for bus injections P_inj = P_gen - P_load (MW, data.buses order);
+// any imbalance of an island is taken up by its slack
+export function computeLineFlows(net: NetworkModel, P_inj: number[]): number[] {
+  const totals = net.islands.map(island => island.reduce((sum, i) => sum + P_inj[i], 0));
+  const balanced = P_inj.map((p, i) => p - net.slackWeights[i] * totals[net.busIsland[i]]);
+  return flowsFromAngles(net, solveAngles(net, balanced));
+}
+
+// Per-unit base of the line impedances (MVA)
+export const baseMVA = (data: SystemData) => data.baseMVA ?? 100;
+
+// I²R losses of the DC flows (MW): r·(f/base)²·base per line
+export function lineLosses(data: SystemData, flows: number[]): number {
+  const base = baseMVA(data);
+  return data.lines.reduce((sum, line, l) => sum + (line.resistance ?? 0) * flows[l] * flows[l] / base, 0);
+}
+
+// Losses per island (MW), a line counted in the island of its from bus
+export function islandLosses(data: SystemData, net: NetworkModel, flows: number[]): number[] {
+  const base = baseMVA(data);
+  const losses = net.islands.map(() => 0);
+  data.lines.forEach((line, l) => {
+    losses[net.busIsland[net.lineEnds[l][0]]] += (line.resistance ?? 0) * flows[l] * flows[l] / base;
+  });
+  return losses;
+}
+
+// Marginal losses per bus (MW per MW injected at the bus and withdrawn at the slack):
+// PTDFᵀ·dL/df, one solve for all buses
+export function lossFactors(data: SystemData, net: NetworkModel, flows: number[]): number[] {
+  const base = baseMVA(data);
+  const coefs = data.lines.map((line, l) =>
+    [l, 2 * (line.resistance ?? 0) * flows[l] / base * net.lineSusceptance[l]] as [number, number]);
+  return distribute(net, solveLineTransfers(net, coefs.filter(([, c]) => c !== 0)));
+}
@@ -0,0 +1,311 @@
+import { Bus, Generator, HourlyDispatch, SystemData, TransmissionLine } from './types';
+import {
+  ParseLog, UNLIMITED_RATING, assembleCase, caseState, importedGenerator, num, parseNumber, rating, uniqueId,
+} from './casedata';
+
+// PSS/E RAW files, revisions 30 to 35: the bus, load, generator, branch and
+// two-winding transformer sections (fixed shunts are reported, three-winding
+// transformers, switching devices and the sections after the transformers are
+// skipped). Records are comma or blank separated with quoted names; '/' starts
+// a comment, a record starting with 0 ends a section and 'Q' the data. The
+// section order follows the revision, or the "BEGIN ... DATA" comment of the
+// terminator when the file has one. RAW files have no costs: units get the
+// default cost. The writer produces revision 33 (without the line charging of
+// transformers).
+
+type Section = 'Bus' | 'Load' | 'FixedShunt' | 'Generator' | 'Branch' | 'Switch' | 'Transformer' | 'Other';
+
+const sectionOrder = (rev: number): Section[] =>
+  rev <= 30 ? ['Bus', 'Load', 'Generator', 'Branch', 'Transformer']
+  : rev <= 33 ? ['Bus', 'Load', 'FixedShunt', 'Generator', 'Branch', 'Transformer']
+  : ['Bus', 'Load', 'FixedShunt', 'Generator', 'Branch', 'Switch', 'Transformer'];
+
+const SECTION_NAMES: [RegExp, Section][] = [
+  [/^BUS/, 'Bus'], [/^LOAD/, 'Load'], [/^FIXED SHUNT/, 'FixedShunt'], [/^GENERATOR/, 'Generator'],
+  [/^(NON-TRANSFORMER )?BRANCH/, 'Branch'], [/^SYSTEM SWITCHING DEVICE/, 'Switch'], [/^TRANSFORMER/, 'Transformer'],
+];
+
+// Record text without the '/' comment, and the comment
+function splitComment(text: string): [string, string] {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "'" || text[i] === '"') quoted = !quoted;
+    else if (text[i] === '/' && !quoted) return [text.slice(0, i), text.slice(i + 1)];
+  }
+  return [text, ''];
+}
+
+// Fields of a record: comma separated (empty fields kept) or blank separated
+function recordFields(text: string): string[] {
+  let quoted = false;
+  let comma = false;
+  for (const ch of text) {
+    if (ch === "'" || ch === '"') quoted = !quoted;
+    else if (ch === ',' && !quoted) comma = true;
+  }
+  const fields: string[] = [];
+  let current = '';
+  const flush = () => { fields.push(current.trim().replace(/^['"]|['"]$/g, '').trim()); current = ''; };
+  quoted = false;
+  for (const ch of text) {
+    if (ch === "'" || ch === '"') quoted = !quoted;
+    if (!quoted && (comma ? ch === ',' : /\s/.test(ch))) {
+      if (comma || current.trim()) flush();
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim() || comma) flush();
+  return fields;
+}
+
+interface RawRecord {
+  line: number;
+  fields: string[];
+}
+
+export function parsePsse(text: string, log: ParseLog): SystemData | null {
+  const lines = text.split(/\r?\n/);
+  if (lines.length < 3) {
+    log.error(0, 'RAW 文件至少需要 3 行标题');
+    return null;
+  }
+  const header = recordFields(splitComment(lines[0])[0]);
+  const baseMVA = header[1] ? parseNumber(log, 1, header[1], 'SBASE') : 100;
+  const rev = header[2] ? Math.round(parseNumber(log, 1, header[2], 'REV')) : 33;
+  if (rev < 30 || rev > 35) log.warn(1, `RAW 版本 ${rev} 未经验证: 按 ${rev < 30 ? 30 : 35} 版格式读取`);
+
+  // Records per section
+  const records = new Map<Section, RawRecord[]>();
+  const order = sectionOrder(rev);
+  let position = 0;
+  let section: Section = order[0];
+  let n = 3;
+  // Revision 35 puts system-wide data before the buses, closed by its own terminator
+  if (rev >= 35 && lines.slice(3).some(l => /END OF SYSTEM-WIDE DATA/i.test(l))) {
+    while (n < lines.length && !/END OF SYSTEM-WIDE DATA/i.test(lines[n])) n++;
+    n++;
+  }
+  for (; n < lines.length; n++) {
+    const [body, comment] = splitComment(lines[n]);
+    const fields = recordFields(body);
+    if (fields.length === 0 || fields.every(f => f === '')) continue;
+    if (/^q$/i.test(fields[0])) break;
+    if (fields[0] === '0' && fields.length === 1) {
+      const next = /BEGIN (.+?) DATA/i.exec(comment)?.[1].trim().toUpperCase();
+      const named = next === undefined ? undefined : SECTION_NAMES.find(([pattern]) => pattern.test(next))?.[1] ?? 'Other';
+      position = named && order.includes(named) ? order.indexOf(named) : position + 1;
+      section = named ?? order[position] ?? 'Other';
+      continue;
+    }
+    if (!records.has(section)) records.set(section, []);
+    records.get(section)!.push({ line: n + 1, fields });
+  }
+  const bus = records.get('Bus') ?? [];
+  if (bus.length === 0) {
+    log.error(0, 'RAW 文件中没有节点数据');
+    return null;
+  }
+
+  // Buses; revisions 30-32 carry the shunt in the bus record
+  const buses: Omit<Bus, 'x' | 'y'>[] = [];
+  const baseKV = new Map<number, number>();
+  let shuntLine = 0;
+  bus.forEach(({ line, fields }) => {
+    const id = parseNumber(log, line, fields[0], 'I');
+    if (!Number.isInteger(id) || id <= 0) return log.error(line, `节点编号须为正整数: ${fields[0]}`);
+    const kv = parseNumber(log, line, fields[2] || '0', 'BASKV');
+    const ide = parseNumber(log, line, fields[3] || '1', 'IDE');
+    if (rev <= 32 && (Number(fields[4] || 0) !== 0 || Number(fields[5] || 0) !== 0)) shuntLine ||= line;
+    if (ide === 4) log.warn(line, `节点 ${id} 为孤立节点 (IDE = 4)`);
+    baseKV.set(id, kv);
+    buses.push({ id, name: fields[1] || `节点 ${id}`, type: ide === 3 ? 'Slack' : ide === 2 ? 'PV' : 'PQ', baseLoad: 0 });
+  });
+  const busById = new Map(buses.map(b => [b.id, b]));
+
+  // Loads: constant power, plus the current and admittance parts at 1.0 p.u.
+  let nonConstantLine = 0;
+  (records.get('Load') ?? []).forEach(({ line, fields }) => {
+    const id = parseNumber(log, line, fields[0], 'I');
+    if ((fields[2] || '1') === '0') return;
+    const [pl, ql, ip, iq, yp, yq] = [5, 6, 7, 8, 9, 10].map(k => parseNumber(log, line, fields[k] || '0', `load field ${k + 1}`));
+    if (ip !== 0 || iq !== 0 || yp !== 0 || yq !== 0) nonConstantLine ||= line;
+    const b = busById.get(id);
+    if (!b) return log.error(line, `负荷所在节点 ${id} 不存在`);
+    b.baseLoad += pl + ip + yp;
+    const q = (b.reactiveLoad ?? 0) + ql + iq - yq;
+    if (q !== 0) b.reactiveLoad = q;
+  });
+  if (nonConstantLine) log.warn(nonConstantLine, '恒流与恒阻抗负荷按 1.0 p.u. 电压折算为恒功率');
+  (records.get('FixedShunt') ?? []).forEach(({ line, fields }) => { if ((fields[2] || '1') !== '0') shuntLine ||= line; });
+  if (shuntLine) log.warn(shuntLine, '并联导纳不计入模型');
+
+  // Units; revision 35 adds NREG after IREG
+  const shift = rev >= 35 ? 1 : 0;
+  const generators: Generator[] = [];
+  const genIds = new Set<string>();
+  (records.get('Generator') ?? []).forEach(({ line, fields }) => {
+    const value = (k: number, name: string, fallback: string) => parseNumber(log, line, fields[k] || fallback, name);
+    const busId = value(0, 'I', '');
+    const status = value(14 + shift, 'STAT', '1');
+    if (status <= 0) return log.warn(line, `节点 ${busId} 的机组 ${fields[1]} 停运 (STAT = 0), 未导入`);
+    const [pg, qMax, qMin, vs] = [value(2, 'PG', '0'), value(4, 'QT', '9999'), value(5, 'QB', '-9999'), value(6, 'VS', '1')];
+    const [pMax, pMin] = [value(16 + shift, 'PT', '9999'), value(17 + shift, 'PB', '-9999')];
+    if (pMin < 0 && pMin > -9999) log.warn(line, `节点 ${busId} 机组 PB < 0, 按 0 处理`);
+    generators.push(importedGenerator({
+      id: uniqueId(`G${busId}-${fields[1] || '1'}`, genIds), busId, pMin: Math.max(0, pMin), pMax, initialOutput: pg,
+      qMin, qMax, voltageSetpoint: vs,
+    }, generators.length));
+  });
+  if (generators.length > 0) log.warn(0, `RAW 文件不含机组成本: 取 $${generators[0].costB}/MWh`);
+
+  // Branches; revisions 34-35 have a name and twelve ratings before the status
+  const lineList: TransmissionLine[] = [];
+  const lineIds = new Set<string>();
+  let unlimitedLine = 0;
+  const branchStatus = rev >= 34 ? 23 : 13;
+  const firstRating = rev >= 34 ? 7 : 6;
+  (records.get('Branch') ?? []).forEach(({ line, fields }) => {
+    const value = (k: number, name: string, fallback: string) => parseNumber(log, line, fields[k] || fallback, name);
+    const fromBus = Math.abs(value(0, 'I', ''));
+    const toBus = Math.abs(value(1, 'J', ''));
+    if (value(branchStatus, 'ST', '1') <= 0) return log.warn(line, `支路 ${fromBus}-${toBus} 停运 (ST = 0), 未导入`);
+    const [r, x, b] = [value(3, 'R', '0'), value(4, 'X', ''), value(5, 'B', '0')];
+    const [rateA, rateB] = [value(firstRating, 'RATEA', '0'), value(firstRating + 1, 'RATEB', '0')];
+    if (rateA <= 0) unlimitedLine ||= line;
+    const capacity = rateA > 0 ? rateA : UNLIMITED_RATING;
+    lineList.push({
+      id: uniqueId(`L${fromBus}-${toBus}`, lineIds), fromBus, toBus, reactance: x, capacity,
+      ...(r !== 0 ? { resistance: r } : {}), ...(b !== 0 ? { susceptance: b } : {}),
+      ...(rateB > 0 && rateB !== capacity ? { emergencyCapacity: rateB } : {}),
+    });
+  });
+  if ((records.get('Switch') ?? []).length > 0) log.warn(records.get('Switch')![0].line, '系统开关设备未导入');
+
+  // Two-winding transformers: four records, impedance and ratio by the CZ / CW codes
+  const transformer = records.get('Transformer') ?? [];
+  for (let k = 0; k < transformer.length;) {
+    const first = transformer[k];
+    const value = (rec: RawRecord | undefined, i: number, name: string, fallback: string) =>
+      parseNumber(log, rec?.line ?? first.line, rec?.fields[i] || fallback, name);
+    const threeWinding = value(first, 2, 'K', '0') !== 0;
+    const [, second, third, fourth] = transformer.slice(k, k + 4);
+    k += threeWinding ? 5 : 4;
+    const fromBus = Math.abs(value(first, 0, 'I', ''));
+    const toBus = Math.abs(value(first, 1, 'J', ''));
+    if (threeWinding) {
+      log.warn(first.line, `三绕组变压器 ${fromBus}-${toBus} 未导入`);
+      continue;
+    }
+    if (!fourth) {
+      log.error(first.line, `变压器 ${fromBus}-${toBus} 数据不完整 (需要 4 行)`);
+      break;
+    }
+    if (value(first, 11, 'STAT', '1') <= 0) {
+      log.warn(first.line, `变压器 ${fromBus}-${toBus} 停运 (STAT = 0), 未导入`);
+      continue;
+    }
+    const cw = value(first, 4, 'CW', '1');
+    const cz = value(first, 5, 'CZ', '1');
+    let [r, x] = [value(second, 0, 'R1-2', '0'), value(second, 1, 'X1-2', '')];
+    const sbase = value(second, 2, 'SBASE1-2', String(baseMVA));
+    if (cz === 3) { // Load loss in W and |Z| in p.u. on the winding base
+      r = r / 1e6 / sbase;
+      x = Math.sqrt(Math.max(0, x * x - r * r));
+    }
+    if (cz === 2 || cz === 3) [r, x] = [r * baseMVA / sbase, x * baseMVA / sbase];
+    const windv1 = value(third, 0, 'WINDV1', '1');
+    const windv2 = value(fourth, 0, 'WINDV2', '1');
+    const angle = value(third, 2, 'ANG1', '0');
+    if (angle !== 0) log.warn(third.line, `变压器 ${fromBus}-${toBus} 的移相角 ${angle}° 不计入模型`);
+    // Off-nominal ratio in p.u. of the bus base voltages
+    const nominal = (rec: RawRecord, busId: number) => value(rec, 1, 'NOMV', '0') || baseKV.get(busId) || 1;
+    const tap = cw === 2 ? (windv1 / (baseKV.get(fromBus) || 1)) / (windv2 / (baseKV.get(toBus) || 1))
+      : cw === 3 ? (windv1 * nominal(third, fromBus) / (baseKV.get(fromBus) || 1)) / (windv2 * nominal(fourth, toBus) / (baseKV.get(toBus) || 1))
+      : windv1 / windv2;
+    const [rateA, rateB] = [value(third, 3, 'RATA1', '0'), value(third, 4, 'RATB1', '0')];
+    if (rateA <= 0) unlimitedLine ||= third.line;
+    const capacity = rateA > 0 ? rateA : UNLIMITED_RATING;
+    lineList.push({
+      id: uniqueId(`T${fromBus}-${toBus}`, lineIds), fromBus, toBus, reactance: x, capacity,
+      ...(r !== 0 ? { resistance: r } : {}), ...(Math.abs(tap - 1) > 1e-9 ? { tap } : {}),
+      ...(rateB > 0 && rateB !== capacity ? { emergencyCapacity: rateB } : {}),
+    });
+  }
+  if (unlimitedLine) log.warn(unlimitedLine, `额定容量为 0 (不限) 的支路取 ${UNLIMITED_RATING} MW`);
+
+  return assembleCase(buses, generators, lineList, baseMVA);
+}
+
+const quote = (text: string, width: number) => `'${text.slice(0, width).replace(/'/g, ' ').padEnd(width)}'`;
+const record = (values: (string | number)[]) => values.map(v => (typeof v === 'number' ? num(v) : v)).join(', ');
+
+// Sections after the transformers in revision 33, all left empty
+const TRAILING_SECTIONS = [
+  'AREA', 'TWO-TERMINAL DC', 'VSC DC LINE', 'IMPEDANCE CORRECTION', 'MULTI-TERMINAL DC', 'MULTI-SECTION LINE',
+  'ZONE', 'INTER-AREA TRANSFER', 'OWNER', 'FACTS DEVICE', 'SWITCHED SHUNT', 'GNE DEVICE', 'INDUCTION MACHINE',
+];
+
+// Case as a PSS/E revision 33 RAW file; with a dispatch result, the loads, unit
+// outputs, commitment and voltages of that interval
+export function writePsse(data: SystemData, title = 'SCUC/SCED CASE', result?: HourlyDispatch): string {
+  const state = caseState(data, result);
+  const base = data.baseMVA ?? 100;
+  const end = (finished: string, next: string) => `0 / END OF ${finished} DATA, BEGIN ${next} DATA`;
+
+  const busRecords = data.buses.map(b => {
+    const v = state.voltage(b);
+    const ide = b.type === 'Slack' ? 3 : b.type === 'PV' ? 2 : 1;
+    return record([b.id, quote(b.name, 12), 0, ide, 1, 1, 1, v.vm, v.va, b.vMax ?? 1.05, b.vMin ?? 0.95, b.vMax ?? 1.05, b.vMin ?? 0.95]);
+  });
+  const loadRecords = data.buses.filter(b => state.load(b).p !== 0 || state.load(b).q !== 0).map(b => {
+    const load = state.load(b);
+    return record([b.id, "'1 '", 1, 1, 1, load.p, load.q, 0, 0, 0, 0, 1, 1, 0]);
+  });
+  // Unit ids are counted per bus (PSS/E ids have two characters)
+  const perBus = new Map<number, number>();
+  const genRecords = data.generators.map(g => {
+    const k = (perBus.get(g.busId) ?? 0) + 1;
+    perBus.set(g.busId, k);
+    const s = state.gen(g);
+    return record([
+      g.busId, quote(String(k), 2), s.p, s.q, g.qMax ?? 9999, g.qMin ?? -9999, g.voltageSetpoint ?? 1, 0, base,
+      0, 1, 0, 0, 1, s.online ? 1 : 0, 100, g.pMax, g.pMin, 1, 1,
+    ]);
+  });
+  const inService = (l: TransmissionLine) => (result?.outages.includes(l.id) ? 0 : 1);
+  const isTransformer = (l: TransmissionLine) => (l.tap ?? 1) !== 1;
+  const circuits = new Map<string, number>();
+  const circuit = (l: TransmissionLine) => {
+    const key = `${Math.min(l.fromBus, l.toBus)}-${Math.max(l.fromBus, l.toBus)}`;
+    circuits.set(key, (circuits.get(key) ?? 0) + 1);
+    return quote(String(circuits.get(key)), 2);
+  };
+  const branchRecords = data.lines.filter(l => !isTransformer(l)).map(l => record([
+    l.fromBus, l.toBus, circuit(l), l.resistance ?? 0, l.reactance, l.susceptance ?? 0,
+    rating(l.capacity), rating(l.emergencyCapacity), rating(l.emergencyCapacity), 0, 0, 0, 0, inService(l), 1, 0, 1, 1,
+  ]));
+  const transformerRecords = data.lines.filter(isTransformer).flatMap(l => [
+    record([l.fromBus, l.toBus, 0, circuit(l), 1, 1, 1, 0, 0, 2, quote(l.id, 12), inService(l), 1, 1]),
+    record([l.resistance ?? 0, l.reactance, base]),
+    record([l.tap ?? 1, 0, 0, rating(l.capacity), rating(l.emergencyCapacity), rating(l.emergencyCapacity), 0, 0, 1.1, 0.9, 1.1, 0.9, 33, 0, 0, 0]),
+    record([1, 0]),
+  ]);
+
+  const trailing = TRAILING_SECTIONS.map((name, k) => end(name, TRAILING_SECTIONS[k + 1] ?? 'Q'));
+  trailing[trailing.length - 1] = `0 / END OF ${TRAILING_SECTIONS[TRAILING_SECTIONS.length - 1]} DATA`;
+  return [
+    `0, ${num(base)}, 33, 0, 1, 60.00     / Exported by the SCUC/SCED simulator`,
+    title.slice(0, 60),
+    result ? `Interval ${result.interval + 1} (hour ${result.hour})` : 'Base case',
+    ...busRecords, end('BUS', 'LOAD'),
+    ...loadRecords, end('LOAD', 'FIXED SHUNT'),
+    end('FIXED SHUNT', 'GENERATOR'),
+    ...genRecords, end('GENERATOR', 'BRANCH'),
+    ...branchRecords, end('BRANCH', 'TRANSFORMER'),
+    ...transformerRecords, end('TRANSFORMER', 'AREA'),
+    ...trailing,
+    'Q',
+    '',
+  ].join('\n');
+}
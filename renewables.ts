@@ -0,0 +1,41 @@
+import { Generator, SystemData } from './types';
+import { hourOf, profileAt } from './time';
+import { onOutage } from './topology';
+
+// Time-varying unit limits: availability profiles (wind, solar, run-of-river)
+// scale Pmax interval by interval; hydro units can be limited by a daily energy budget.
+// A unit on scheduled outage has no capacity.
+
+// Available capacity of a unit in interval t (MW)
+export function availableCapacity(data: SystemData, gen: Generator, t: number): number {
+  if (onOutage(data, 'Generator', gen.id, t)) return 0;
+  const profile = data.availabilityProfiles?.[gen.id];
+  if (!profile || profile.length === 0) return gen.pMax;
+  return gen.pMax * Math.max(0, profileAt(profile, hourOf(data, t)));
+}
+
+// The unit as seen in interval t; the same object when nothing changes
+export function generatorAt(data: SystemData, gen: Generator, t: number): Generator {
+  const pMax = availableCapacity(data, gen, t);
+  return pMax === gen.pMax ? gen : { ...gen, pMax, pMin: Math.min(gen.pMin, pMax) };
+}
+
+// [interval][generator index] views for the dispatch
+export const hourlyGenerators = (data: SystemData, intervals: number, first = 0): Generator[][] =>
+  Array.from({ length: intervals }, (_, t) => data.generators.map(g => generatorAt(data, g, first + t)));
+
+// Views for the commitment: a unit with an energy budget is offered at the average
+// rate of the budget, the dispatch then shapes it into the high-price hours
+export const commitmentGenerators = (data: SystemData, intervals: number): Generator[][] =>
+  hourlyGenerators(data, intervals).map(units => units.map(budgetRateGenerator));
+
+// The unit held to the average rate of its energy budget (not below Pmin), for
+// dispatches of single intervals that cannot shape the budget over the day
+export const budgetRateGenerator = (g: Generator): Generator =>
+  (g.energyBudget === undefined
+    ? g
+    : { ...g, pMax: Math.max(g.pMin, Math.min(g.pMax, g.energyBudget / 24)), energyBudget: undefined });
+
+// Energy budget over a horizon of `hours` (MWh), Infinity when unlimited
+export const energyBudget = (gen: Generator, hours: number) =>
+  (gen.energyBudget === undefined ? Infinity : gen.energyBudget * hours / 24);
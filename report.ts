@@ -0,0 +1,201 @@
+import { SimulationResult, SystemData } from './types';
+import { summarizeRun } from './batch';
+import { settleMarket } from './settlement';
+import { SEVERITY_LABELS, VIOLATION_LABELS, VIOLATION_SEVERITY, countByCode } from './violations';
+import { intervalHours, intervalLabel, intervalMinutes } from './time';
+
+// Run report: a self-contained HTML page (inline styles and SVG charts, no
+// scripts) with the summary, generation and price charts, unit, line and bus
+// tables and the violations of a run. Laid out for A4 printing, so the
+// browser's print dialog turns it into a PDF.
+
+export const REPORT_VIOLATION_ROWS = 200; // Errors and warnings listed one by one
+
+const html = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c] ?? c));
+
+const num = (value: number, digits = 0) => value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+function table(header: string[], rows: (string | number)[][], numeric = header.map((_, k) => k > 0)): string {
+  const cell = (value: string | number, k: number, tag: string) =>
+    `<${tag}${numeric[k] ? ' class="n"' : ''}>${typeof value === 'number' ? num(value, Number.isInteger(value) ? 0 : 1) : html(value)}</${tag}>`;
+  return `<table><thead><tr>${header.map((h, k) => cell(h, k, 'th')).join('')}</tr></thead>`
+    + `<tbody>${rows.map(r => `<tr>${r.map((v, k) => cell(v, k, 'td')).join('')}</tr>`).join('')}</tbody></table>`;
+}
+
+// ---------------------------------------------------------------------------
+// Charts
+
+const WIDTH = 680;
+const HEIGHT = 220;
+const PAD = { left: 48, right: 12, top: 10, bottom: 24 };
+
+interface Series {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+function axes(labels: string[], min: number, max: number, unit: string): string {
+  const h = HEIGHT - PAD.top - PAD.bottom;
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => {
+    const y = PAD.top + h * (1 - f);
+    return `<line x1="${PAD.left}" x2="${WIDTH - PAD.right}" y1="${y}" y2="${y}" stroke="#ddd"/>`
+      + `<text x="${PAD.left - 4}" y="${y + 3}" text-anchor="end">${num(min + (max - min) * f)}</text>`;
+  }).join('');
+  const step = Math.max(1, Math.ceil(labels.length / 12));
+  const xLabels = labels.map((label, t) => (t % step === 0
+    ? `<text x="${xAt(t, labels.length)}" y="${HEIGHT - 8}" text-anchor="middle">${html(label)}</text>` : '')).join('');
+  return `${ticks}${xLabels}<text x="4" y="${PAD.top + 4}">${html(unit)}</text>`;
+}
+
+const xAt = (t: number, count: number) => PAD.left + (WIDTH - PAD.left - PAD.right) * (count > 1 ? t / (count - 1) : 0.5);
+const yAt = (value: number, min: number, max: number) =>
+  PAD.top + (HEIGHT - PAD.top - PAD.bottom) * (1 - (value - min) / Math.max(1e-9, max - min));
+
+const legend = (series: Series[]) =>
+  `<div class="legend">${series.map(s => `<span><i style="background:${s.color}"></i>${html(s.label)}</span>`).join('')}</div>`;
+
+// Stacked areas of the series, plus an optional line on top (e.g. the load)
+function stackedChart(labels: string[], series: Series[], line: Series | null, unit: string): string {
+  const totals = labels.map((_, t) => series.reduce((sum, s) => sum + Math.max(0, s.values[t]), 0));
+  const max = Math.max(1, ...totals, ...(line?.values ?? [])) * 1.05;
+  const base = labels.map(() => 0);
+  const areas = series.map(s => {
+    const lower = [...base];
+    s.values.forEach((v, t) => { base[t] += Math.max(0, v); });
+    const upper = labels.map((_, t) => `${xAt(t, labels.length)},${yAt(base[t], 0, max)}`);
+    const bottom = labels.map((_, t) => `${xAt(t, labels.length)},${yAt(lower[t], 0, max)}`).reverse();
+    return `<polygon points="${[...upper, ...bottom].join(' ')}" fill="${s.color}" fill-opacity="0.85"/>`;
+  }).join('');
+  const top = line
+    ? `<polyline points="${line.values.map((v, t) => `${xAt(t, labels.length)},${yAt(v, 0, max)}`).join(' ')}" fill="none" stroke="${line.color}" stroke-width="2"/>`
+    : '';
+  return `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}">${axes(labels, 0, max, unit)}${areas}${top}</svg>${legend(line ? [...series, line] : series)}`;
+}
+
+function lineChart(labels: string[], series: Series[], unit: string): string {
+  const values = series.flatMap(s => s.values);
+  const low = Math.min(0, ...values);
+  const high = Math.max(1, ...values) * 1.05;
+  const lines = series.map(s =>
+    `<polyline points="${s.values.map((v, t) => `${xAt(t, labels.length)},${yAt(v, low, high)}`).join(' ')}" fill="none" stroke="${s.color}" stroke-width="1.5"/>`).join('');
+  return `<svg viewBox="0 0 ${WIDTH} ${HEIGHT}">${axes(labels, low, high, unit)}${lines}</svg>${legend(series)}`;
+}
+
+// Horizontal bars, value as % of 100 with a marker at the limit
+function barChart(bars: { label: string; value: number }[], limit: number): string {
+  const rowHeight = 16;
+  const max = Math.max(limit * 1.2, ...bars.map(b => b.value));
+  const width = WIDTH - 140;
+  const rows = bars.map((b, k) => {
+    const y = k * rowHeight;
+    const color = b.value > limit + 1e-6 ? '#dc2626' : b.value > limit * 0.9 ? '#f59e0b' : '#3b82f6';
+    return `<text x="90" y="${y + 11}" text-anchor="end">${html(b.label)}</text>`
+      + `<rect x="96" y="${y + 2}" width="${width * b.value / max}" height="${rowHeight - 5}" fill="${color}"/>`
+      + `<text x="${100 + width * b.value / max}" y="${y + 11}">${num(b.value, 1)}%</text>`;
+  }).join('');
+  const x = 96 + width * limit / max;
+  const height = bars.length * rowHeight;
+  return `<svg viewBox="0 0 ${WIDTH} ${height}">${rows}<line x1="${x}" x2="${x}" y1="0" y2="${height}" stroke="#111" stroke-dasharray="3 2"/></svg>`;
+}
+
+// ---------------------------------------------------------------------------
+// Report
+
+const STYLE = `
+  body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #111; margin: 24px auto; max-width: 760px; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 2px; } h2 { font-size: 15px; border-bottom: 1px solid #999; padding-bottom: 2px; margin-top: 22px; }
+  .meta { color: #555; } section { break-inside: avoid; page-break-inside: avoid; }
+  table { border-collapse: collapse; width: 100%; margin: 6px 0; } th, td { border-bottom: 1px solid #ddd; padding: 2px 6px; text-align: left; }
+  th { background: #f3f4f6; } .n { text-align: right; font-variant-numeric: tabular-nums; }
+  .summary td:nth-child(odd) { color: #555; } svg { width: 100%; font-size: 9px; fill: #333; }
+  .legend span { margin-right: 10px; white-space: nowrap; } .legend i { display: inline-block; width: 9px; height: 9px; margin-right: 3px; }
+  .Error { color: #b91c1c; } .Warning { color: #b45309; } .Info { color: #555; }
+  @page { size: A4; margin: 14mm; } @media print { body { margin: 0; max-width: none; } }
+`;
+
+const BUS_PALETTE = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#475569', '#ea580c'];
+
+export function runReport(name: string, data: SystemData, results: SimulationResult, generatedAt = new Date()): string {
+  const dt = intervalHours(data);
+  const summary = summarizeRun(data, results);
+  const settlement = settleMarket(data, results);
+  const labels = results.map(r => intervalLabel(data, r.interval));
+  const violations = results.flatMap(r => r.violations);
+  const listed = violations.filter(v => v.severity !== 'Info');
+
+  const summaryRows: [string, string][] = [
+    ['总成本', `$${num(summary.totalCost)}`], ['启动成本', `$${num(summary.startupCost)}`],
+    ['碳成本', `$${num(summary.carbonCost)}`], ['供电量', `${num(summary.servedMWh)} MWh`],
+    ['切负荷', `${num(summary.shedMWh, 1)} MWh`], ['弃电', `${num(summary.curtailedMWh, 1)} MWh`],
+    ['负荷加权平均电价', `$${num(summary.averageLmp, 2)}/MWh`], ['最高电价', `$${num(summary.maxLmp, 2)}/MWh`],
+    ['阻塞时段', `${summary.congestedIntervals} / ${results.length}`], ['机组启动', `${summary.startups} 次`],
+    ['CO2', `${num(summary.co2, 1)} t`], ['越限 (错误/警告)', `${summary.violations}`],
+  ];
+  const summaryTable = `<table class="summary"><tbody>${Array.from({ length: summaryRows.length / 2 }, (_, k) =>
+    `<tr>${[summaryRows[2 * k], summaryRows[2 * k + 1]].map(([l, v]) => `<td>${l}</td><td class="n">${v}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+  const generation = stackedChart(
+    labels,
+    data.generators.map(g => ({ label: g.id, color: g.color, values: results.map(r => r.genOutput[g.id] ?? 0) })),
+    { label: '负荷', color: '#111', values: results.map(r => r.servedLoad) },
+    'MW');
+  const buses = data.buses.length <= BUS_PALETTE.length
+    ? data.buses.map((b, k) => ({ label: `节点 ${b.id}`, color: BUS_PALETTE[k], values: results.map(r => r.lmp[b.id] ?? 0) }))
+    : [
+      { label: '最高', color: '#dc2626', values: results.map(r => Math.max(...Object.values(r.lmp))) },
+      { label: '能量分量', color: '#2563eb', values: results.map(r => r.lmpEnergy) },
+      { label: '最低', color: '#16a34a', values: results.map(r => Math.min(...Object.values(r.lmp))) },
+    ];
+  const maxLoading = data.lines
+    .map(l => ({ label: l.id, value: Math.max(0, ...results.map(r => r.lineLoading[l.id] ?? 0)) }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, 20);
+
+  const unitRows = data.generators.map((g, i) => {
+    const s = settlement.generators[i];
+    const online = results.filter(r => r.genStatus[g.id]).length * dt;
+    const energy = s.energyMWh;
+    return [
+      `${g.id} ${g.name}`, online, results.filter(r => r.startups.includes(g.id)).length, energy,
+      online > 0 ? energy / (g.pMax * results.length * dt) * 100 : 0, s.energyRevenue, s.profit, s.uplift,
+    ];
+  });
+  const lineRows = data.lines.map((l, k) => [
+    `${l.id} (${l.fromBus}-${l.toBus})`, Math.max(0, ...results.map(r => r.lineLoading[l.id] ?? 0)),
+    settlement.lines[k].congestedIntervals, settlement.lines[k].congestionRent,
+  ]);
+  const busRows = data.buses.map(b => {
+    const prices = results.map(r => r.lmp[b.id] ?? 0);
+    return [`${b.id} ${b.name}`, prices.reduce((a, p) => a + p, 0) / Math.max(1, prices.length), Math.min(...prices), Math.max(...prices)];
+  });
+
+  const violationSummary = countByCode(violations).map(c =>
+    [VIOLATION_LABELS[c.code], SEVERITY_LABELS[VIOLATION_SEVERITY[c.code]], c.count, c.intervals]);
+  const violationList = listed.slice(0, REPORT_VIOLATION_ROWS).map(v =>
+    `<tr class="${v.severity}"><td>${html(labels[v.interval] ?? String(v.interval))}</td><td>${html(VIOLATION_LABELS[v.code])}</td>`
+    + `<td>${html(v.elementId ?? '')}</td><td class="n">${v.value !== undefined ? num(v.value, 2) : ''}</td>`
+    + `<td class="n">${v.limit !== undefined ? num(v.limit, 2) : ''}</td><td>${html(v.message)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head><meta charset="utf-8"><title>运行报告 - ${html(name)}</title><style>${STYLE}</style></head>
+<body>
+<h1>运行报告: ${html(name)}</h1>
+<div class="meta">生成于 ${html(generatedAt.toLocaleString())} | ${data.buses.length} 节点, ${data.generators.length} 机组, ${data.lines.length} 线路 |
+${results.length} 个时段 × ${intervalMinutes(data)} 分钟${data.carbonPrice ? ` | 碳价 $${data.carbonPrice}/t` : ''}${data.emissionCap !== undefined ? ` | 排放上限 ${num(data.emissionCap)} t` : ''}</div>
+<section><h2>概要</h2>${summaryTable}</section>
+<section><h2>机组出力与负荷</h2>${generation}</section>
+<section><h2>节点电价 ($/MWh)</h2>${lineChart(labels, buses, '$/MWh')}</section>
+<section><h2>线路最大负载率</h2>${barChart(maxLoading, 100)}</section>
+<section><h2>机组</h2>${table(['机组', '运行 h', '启动', '电量 MWh', '利用率 %', '电能收入 $', '利润 $', '补偿 $'], unitRows)}</section>
+<section><h2>线路</h2>${table(['线路', '最大负载率 %', '阻塞时段', '阻塞盈余 $'], lineRows)}</section>
+<section><h2>节点电价统计</h2>${table(['节点', '平均', '最低', '最高'], busRows)}</section>
+<section><h2>越限统计</h2>${violationSummary.length ? table(['类型', '级别', '次数', '时段数'], violationSummary, [false, false, true, true]) : '<p>无越限</p>'}</section>
+${listed.length ? `<section><h2>越限明细 (错误与警告${listed.length > REPORT_VIOLATION_ROWS ? `, 前 ${REPORT_VIOLATION_ROWS} 条 / 共 ${listed.length} 条` : ''})</h2>
+<table><thead><tr><th>时段</th><th>类型</th><th>元件</th><th class="n">值</th><th class="n">限值</th><th>说明</th></tr></thead><tbody>${violationList}</tbody></table></section>` : ''}
+</body>
+</html>
+`;
+}
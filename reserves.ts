@@ -0,0 +1,21 @@
+import { Generator, ReserveRequirement, SystemData } from './types';
+
+// Reserve requirements and unit reserve capability
+
+export const maxSpinReserve = (g: Generator) => Math.max(0, g.maxSpinReserve ?? g.pMax - g.pMin);
+export const maxNonSpinReserve = (g: Generator) => Math.max(0, Math.min(g.pMax, g.maxNonSpinReserve ?? 0));
+
+// Whether a unit's reserve counts towards the requirement (zonal requirements)
+export const inReserveZone = (req: ReserveRequirement, g: Generator) => !req.buses || req.buses.includes(g.busId);
+
+// Requirement in MW for the given bus loads (data.buses order)
+export function reserveRequirementMW(data: SystemData, req: ReserveRequirement, busLoads: number[]): number {
+  const zoneLoad = data.buses.reduce((sum, b, i) => sum + (!req.buses || req.buses.includes(b.id) ? busLoads[i] : 0), 0);
+  return (req.fixedMW ?? 0) + (req.loadFraction ?? 0) * zoneLoad;
+}
+
+// Spinning reserve the commitment has to carry in each hour (all spinning requirements)
+export function spinningRequirement(data: SystemData, hourlyBusLoads: number[][]): number[] {
+  const reqs = (data.reserveRequirements ?? []).filter(r => r.product === 'Spinning');
+  return hourlyBusLoads.map(loads => reqs.reduce((sum, r) => sum + reserveRequirementMW(data, r, loads), 0));
+}
@@ -0,0 +1,98 @@
+import { SimulationProgress, SimulationResult, SystemData } from './types';
+import type { SimulationMessage, SimulationRequest } from './simulation.worker';
+
+// Runs the simulation off the main thread. Requests are debounced, and a new
+// request supersedes the one in progress: the solver cannot be interrupted
+// between messages, so a busy worker is terminated and a fresh one started.
+// The listener gets the state of the latest request and every finished result;
+// superseded and cancelled runs never report.
+
+export const DEBOUNCE_MS = 250;
+
+export type RunnerState =
+  | { status: 'Idle' }
+  | { status: 'Pending' } // Waiting for the debounce
+  | { status: 'Running'; progress: SimulationProgress | null }
+  | { status: 'Cancelled' }
+  | { status: 'Failed'; message: string };
+
+export interface RunnerListener {
+  onState: (state: RunnerState) => void;
+  onResult: (data: SystemData, results: SimulationResult) => void;
+}
+
+export interface SimulationRunner {
+  schedule: (data: SystemData) => void; // Run after the debounce delay
+  cancel: () => void; // Stop the pending or running request
+  dispose: () => void;
+}
+
+export function createSimulationRunner(listener: RunnerListener): SimulationRunner {
+  let worker: Worker | null = null;
+  let busy = false;
+  let latest = 0; // Id of the request that may still report
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingData: SystemData | null = null;
+  let runningData: SystemData | null = null;
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    busy = false;
+  };
+
+  const start = (data: SystemData) => {
+    if (busy) stopWorker();
+    if (!worker) {
+      worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<SimulationMessage>) => {
+        const message = e.data;
+        if (message.id !== latest) return;
+        if (message.type === 'Progress') return listener.onState({ status: 'Running', progress: message.progress });
+        busy = false;
+        if (message.type === 'Result') {
+          listener.onResult(runningData!, message.results);
+          listener.onState({ status: 'Idle' });
+        } else {
+          listener.onState({ status: 'Failed', message: message.message });
+        }
+      };
+      worker.onerror = (e) => {
+        e.preventDefault();
+        stopWorker();
+        listener.onState({ status: 'Failed', message: e.message || '模拟进程出错' });
+      };
+    }
+    busy = true;
+    runningData = data;
+    const request: SimulationRequest = { id: ++latest, data };
+    worker.postMessage(request);
+    listener.onState({ status: 'Running', progress: null });
+  };
+
+  return {
+    schedule: (data) => {
+      clearTimeout(timer);
+      latest++; // A run in progress no longer reports
+      pendingData = data;
+      listener.onState({ status: 'Pending' });
+      timer = setTimeout(() => {
+        pendingData = null;
+        start(data);
+      }, DEBOUNCE_MS);
+    },
+    cancel: () => {
+      if (!busy && pendingData === null) return;
+      clearTimeout(timer);
+      pendingData = null;
+      latest++;
+      stopWorker();
+      listener.onState({ status: 'Cancelled' });
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      latest++;
+      stopWorker();
+    },
+  };
+}
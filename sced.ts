@@ -0,0 +1,593 @@
+import { BindingContingency, Generator, SystemData } from './types';
+import { NetworkModel, busIdx, computeLineFlows, islandLosses, lineLosses, lossFactors } from './network';
+import { LPBasis, LinearConstraint, createLP, addVariable, addConstraint, solveLP } from './lp';
+import { costSegments, economicDispatch, productionCost } from './dispatch';
+import {
+  Contingency, FlowSensitivity, emergencyRating, flowSensitivity, listContingencies, postContingencyFlows,
+} from './contingency';
+import { inReserveZone, maxNonSpinReserve, maxSpinReserve, reserveRequirementMW } from './reserves';
+import { finalEnergyTarget, initialEnergy, maxEnergy, minEnergy } from './storage';
+import { energyBudget, hourlyGenerators } from './renewables';
+import { bidMW, fixedBusLoads } from './loads';
+import { intervalHours } from './time';
+
+// Security Constrained Economic Dispatch over the horizon.
+// Starts from the unconstrained lambda-iteration dispatch of every interval. If that
+// overloads a line or breaks a ramp limit between intervals, an LP over the units'
+// cost segments for all intervals takes over, with the DC network represented by
+// PTDFs. Limits are added lazily: dispatch, check, add the violated limits as rows
+// and re-solve from the previous basis until every limit holds.
+// With data.securityConstrained the N-1 post-contingency flows (LODFs) are
+// checked and added the same way against the emergency ratings.
+// Load that cannot be served is shed at the value of lost load and generation
+// that cannot be absorbed is curtailed at the over-generation penalty, so the
+// LP always balances and the LMPs rise to VOLL (or fall to -penalty) in scarcity.
+// Unit limits follow the availability profiles interval by interval; must-take units
+// are offered at the negative over-generation penalty so they are only
+// curtailed when nothing else can give way. Hydro energy budgets are limits
+// on the sum of a unit's outputs, added lazily like the others; when the committed
+// minimum outputs alone exceed a budget it is overrun at the over-generation penalty.
+// Demand bids are served when the price at their bus is at or below the bid;
+// interruptible blocks are taken out of the bus load and bid the same way.
+// Storage units charge and discharge at their bus, with the state of charge
+// carried from interval to interval, so they shift energy into high-price hours and
+// around congestion.
+// With data.modelLosses the I²R losses of the lines are linearized around the
+// last solution (loss factors per bus, referenced to the slack) and the LP is
+// re-solved until the losses settle; the LMPs then carry a loss component.
+// Intervals last data.timeModel.intervalMinutes: ramp rates, stored energy and
+// energy budgets are scaled by the interval length, while the objective stays a
+// cost rate ($/h) so the balance duals are prices in $/MWh.
+// Reserve requirements are co-optimized with energy in the same LP: a unit's
+// spinning award shares its headroom with energy, so the energy and reserve
+// prices carry each other's opportunity cost.
+
+export interface ScedResult {
+  feasible: boolean;
+  output: Record<string, number>;
+  cost: number; // Production cost incl. no-load ($/hr)
+  lineFlows: number[]; // MW, in data.lines order
+  lmp: Record<number, number>; // $/MWh per bus
+  lmpEnergy: number; // Energy component (price at the reference bus)
+  islandEnergy: number[]; // Energy component per island of the interval's network
+  lmpCongestion: Record<number, number>; // Congestion component per bus
+  lmpLoss: Record<number, number>; // Marginal loss component per bus
+  losses: number; // MW supplied for line losses
+  lineShadowPrices: Record<string, number>; // $/MWh per MW, signed with the flow direction
+  bindingContingencies: BindingContingency[];
+  rampShadowPrices: Record<string, number>; // $/MW per unit, + ramp up / - ramp down
+  reserveAwards: Record<string, { spinning: number; nonSpinning: number }>; // MW per unit
+  reserveRequired: Record<string, number>; // MW per requirement id
+  reservePrices: Record<string, number>; // $/MW shadow price per requirement id
+  reserveShortfall: Record<string, number>; // MW per requirement id
+  reserveCost: number; // Reserve offer cost ($/hr)
+  unservedLoad: Record<number, number>; // MW shed per bus
+  overGeneration: Record<number, number>; // MW of generation curtailed per bus
+  storageOutput: Record<string, number>; // MW per storage unit, + discharging / - charging
+  storageSoc: Record<string, number>; // MWh per storage unit at the end of the interval
+  demandServed: Record<string, number>; // MW per demand bid
+  budgetOverruns: Record<string, { energy: number; budget: number }>; // MWh per unit over its energy budget, in the last interval
+  busWithdrawals: number[]; // Net MW taken per bus besides the generators, in data.buses order
+}
+
+// A limit on the unit outputs: sum coef·P[interval][gen] <= rhs
+interface OutputLimit {
+  terms: [number, number, number][]; // [interval, generator index, coefficient]
+  rhs: number;
+  hour: number; // Interval the limit is reported in
+  flow?: { lineIdx: number; dir: 1 | -1; contingency?: Contingency; sens: FlowSensitivity };
+  ramp?: { genIdx: number; dir: 1 | -1 };
+  energy?: { genIdx: number };
+}
+
+const FLOW_TOL = 1e-6;
+const PRICE_TOL = 1e-6;
+const LOSS_TOL = 0.1; // MW change of the losses between loss iterations
+const MAX_LOSS_ROUNDS = 10;
+
+export const valueOfLostLoad = (data: SystemData) => data.valueOfLostLoad ?? 10000;
+export const overGenerationPenalty = (data: SystemData) => data.overGenerationPenalty ?? 1000;
+
+// Ramp limits in MW per interval of dt hours; unlimited when not given
+const rampUp = (g: Generator, dt: number) => (g.rampUp ?? Infinity) * dt;
+const rampDown = (g: Generator, dt: number) => (g.rampDown ?? Infinity) * dt;
+const startupRamp = (g: Generator, dt: number) => Math.max(g.pMin, g.startupRamp ?? rampUp(g, dt));
+const shutdownRamp = (g: Generator, dt: number) => Math.max(g.pMin, g.shutdownRamp ?? rampDown(g, dt));
+
+// Energy budgets over the horizon (hydro), in MWh
+function energyLimits(data: SystemData, status: boolean[][], dt: number): OutputLimit[] {
+  const limits: OutputLimit[] = [];
+  data.generators.forEach((g, i) => {
+    const rhs = energyBudget(g, status.length * dt);
+    if (rhs === Infinity) return;
+    const terms = status.flatMap((s, t) => (s[i] ? [[t, i, dt] as [number, number, number]] : []));
+    limits.push({ terms, rhs, hour: status.length - 1, energy: { genIdx: i } });
+  });
+  return limits;
+}
+
+// Flow limit of line l in one direction, base case or after a contingency;
+// null when the contingency cannot be evaluated (islanding or no pickup)
+function flowLimit(
+  data: SystemData, net: NetworkModel, committed: Generator[], genIdx: number[], busLoads: number[], hour: number,
+  l: number, dir: 1 | -1, contingency?: Contingency,
+): OutputLimit | null {
+  const sens = flowSensitivity(data, net, committed, l, contingency);
+  if (!sens) return null;
+  const limit = contingency ? emergencyRating(data, l) : data.lines[l].capacity;
+  const loadFlow = sens.busCoef.reduce((sum, c, i) => sum + c * busLoads[i], 0);
+  return {
+    terms: sens.unitCoef.map((c, k) => [hour, genIdx[k], dir * c]),
+    rhs: limit + dir * loadFlow,
+    hour,
+    flow: { lineIdx: l, dir, contingency, sens },
+  };
+}
+
+// Ramp limits between consecutive intervals (and from the initial output at interval 0)
+function rampLimits(data: SystemData, status: boolean[][], dt: number): OutputLimit[] {
+  const limits: OutputLimit[] = [];
+  data.generators.forEach((g, i) => {
+    const wasOn = (t: number) => (t === 0 ? (g.initialStatus ?? -1) > 0 : status[t - 1][i]);
+    for (let t = 0; t < status.length; t++) {
+      if (!status[t][i]) continue;
+      const add = (dir: 1 | -1, rhs: number, terms: [number, number, number][]) => {
+        if (rhs < Infinity) limits.push({ terms, rhs, hour: t, ramp: { genIdx: i, dir } });
+      };
+      const up = (rhs: number, terms: [number, number, number][]) => add(1, rhs, terms);
+      const down = (rhs: number, terms: [number, number, number][]) => add(-1, rhs, terms);
+
+      if (!wasOn(t)) {
+        up(startupRamp(g, dt), [[t, i, 1]]);
+      } else if (t > 0) {
+        up(rampUp(g, dt), [[t, i, 1], [t - 1, i, -1]]);
+        down(rampDown(g, dt), [[t - 1, i, 1], [t, i, -1]]);
+      } else if (g.initialOutput !== undefined) {
+        up(rampUp(g, dt) + g.initialOutput, [[t, i, 1]]);
+        down(rampDown(g, dt) - g.initialOutput, [[t, i, -1]]);
+      }
+      // Must be able to come down to zero before a shutdown
+      if (t + 1 < status.length && !status[t + 1][i]) down(shutdownRamp(g, dt), [[t, i, 1]]);
+    }
+  });
+  return limits;
+}
+
+export function solveSced(
+  data: SystemData,
+  nets: NetworkModel[], // Per interval (scheduled line outages)
+  status: boolean[][], // [interval][generator index]
+  hourlyBusLoads: number[][], // Requested loads [interval][bus index]
+  enforceRamps = true,
+  first = 0, // Interval of status[0] in the horizon, for the profiles
+): ScedResult[] {
+  const dt = intervalHours(data);
+  const gens = data.generators;
+  const storage = data.storage ?? [];
+  const bids = data.demandBids ?? [];
+  const committed = status.map(s => gens.filter((_, i) => s[i]));
+  // units[t][i]: unit i with the limits of interval t
+  const units = hourlyGenerators(data, status.length, first);
+  const fixedLoads = hourlyBusLoads.map((loads, t) => fixedBusLoads(data, loads, first + t));
+  const busAt = (busId: number) => busIdx(nets[0], busId); // Same in every interval's network
+
+  // adjust[t][b]: extra withdrawal at bus b (curtailed generation - shed load), MW
+  // flexible[t][b]: net injection of storage and demand bids at bus b, MW
+  const withdrawalsFor = (t: number, adjust?: number[][], flexible?: number[][]) =>
+    fixedLoads[t].map((load, b) => load + (adjust ? adjust[t][b] : 0) - (flexible ? flexible[t][b] : 0));
+  const flowsFor = (t: number, output: Record<string, number>, adjust?: number[][], flexible?: number[][]) => {
+    const P_inj = withdrawalsFor(t, adjust, flexible).map(w => -w);
+    committed[t].forEach(g => { P_inj[busAt(g.busId)] += output[g.id]; });
+    return computeLineFlows(nets[t], P_inj);
+  };
+
+  // Ramp limits and energy budgets are checked from a list; flow limits (N-1 included)
+  // from the flows of each dispatch, so only the violated ones are ever built
+  const candidates: OutputLimit[] = [
+    ...(enforceRamps ? rampLimits(data, status, dt) : []),
+    ...energyLimits(data, status, dt),
+  ];
+  const contingencies = nets.map((net, t) => (data.securityConstrained
+    ? listContingencies(data, net).filter(c => c.type === 'Line' || status[t][c.index])
+    : []));
+  const committedIdx = status.map(s => gens.flatMap((_, i) => (s[i] ? [i] : [])));
+
+  const monitored: OutputLimit[] = [];
+  const monitoredKeys = new Set<OutputLimit | string>();
+  const monitor = (key: OutputLimit | string, limit: OutputLimit) => {
+    monitoredKeys.add(key);
+    monitored.push(limit);
+  };
+
+  // Flow limits broken by the dispatch of interval t; base case and post-contingency
+  // flows both with the shed load and curtailed generation, as screened afterwards
+  const addFlowViolations = (t: number, output: Record<string, number>, adjust?: number[][], flexible?: number[][]) => {
+    let added = false;
+    const check = (flows: number[], rating: (l: number) => number, contingency?: Contingency) => flows.forEach((flow, l) => {
+      if (!nets[t].inService[l] || (contingency?.type === 'Line' && contingency.index === l)) return;
+      if (Math.abs(flow) <= rating(l) + FLOW_TOL) return;
+      const dir = flow > 0 ? 1 : -1;
+      const key = `${t}/${l}/${dir}/${contingency ? `${contingency.type}:${contingency.id}` : ''}`;
+      if (monitoredKeys.has(key)) return;
+      const limit = flowLimit(data, nets[t], committed[t], committedIdx[t], fixedLoads[t], t, l, dir, contingency);
+      if (!limit) return;
+      monitor(key, limit);
+      added = true;
+    });
+    check(flowsFor(t, output, adjust, flexible), l => data.lines[l].capacity);
+    const withdrawals = withdrawalsFor(t, adjust, flexible);
+    contingencies[t].forEach(c => {
+      const flows = postContingencyFlows(data, nets[t], committed[t], output, withdrawals, c);
+      if (flows) check(flows, l => emergencyRating(data, l), c);
+    });
+    return added;
+  };
+
+  const addViolations = (outputs: Record<string, number>[], adjust?: number[][], flexible?: number[][]) => {
+    let added = false;
+    candidates.forEach(c => {
+      if (monitoredKeys.has(c)) return;
+      const value = c.terms.reduce((sum, [t, i, coef]) => sum + coef * (outputs[t][gens[i].id] ?? 0), 0);
+      if (value <= c.rhs + FLOW_TOL) return;
+      monitor(c, c);
+      added = true;
+    });
+    outputs.forEach((output, t) => { added = addFlowViolations(t, output, adjust, flexible) || added; });
+    return added;
+  };
+
+  // Reserve requirements per interval (MW)
+  const requirements = data.reserveRequirements ?? [];
+  const reserveNeeds = hourlyBusLoads.map(loads => requirements.map(req => reserveRequirementMW(data, req, loads)));
+  const noReserves = (t: number) => ({
+    reserveAwards: {},
+    reserveRequired: Object.fromEntries(requirements.map((req, r) => [req.id, reserveNeeds[t][r]])),
+    reservePrices: Object.fromEntries(requirements.map(req => [req.id, 0])),
+    reserveShortfall: Object.fromEntries(requirements.map((req, r) => [req.id, reserveNeeds[t][r]])),
+    reserveCost: 0,
+  });
+  const coOptimize = reserveNeeds.some(needs => needs.some(need => need > 0));
+
+  // Unconstrained economic dispatch first; the LP is only needed once a limit binds,
+  // or when reserves, storage or demand bids have to be co-optimized with energy, or load and generation do not balance
+  const eds = fixedLoads.map((loads, t) =>
+    economicDispatch(units[t].filter((_, i) => status[t][i]), loads.reduce((a, b) => a + b, 0)));
+  const balanced = eds.every(ed => Math.abs(ed.mismatch) <= FLOW_TOL);
+  const mustTake = gens.some((g, i) => g.mustTake && status.some(s => s[i]));
+  const flexibleResources = storage.length > 0 || bids.length > 0 || mustTake;
+  const lossy = !!data.modelLosses && data.lines.some(line => (line.resistance ?? 0) > 0);
+  const split = nets.some(net => net.islands.length > 1);
+  if (balanced && !addViolations(eds.map(ed => ed.output)) && !coOptimize && !flexibleResources && !lossy && !split) {
+    return eds.map((ed, t) => {
+      const lmp: Record<number, number> = {};
+      const lmpCongestion: Record<number, number> = {};
+      const lmpLoss: Record<number, number> = {};
+      data.buses.forEach(b => { lmp[b.id] = ed.lambda; lmpCongestion[b.id] = 0; lmpLoss[b.id] = 0; });
+      return {
+        feasible: true,
+        output: ed.output,
+        cost: ed.cost,
+        lineFlows: flowsFor(t, ed.output),
+        lmp,
+        lmpEnergy: ed.lambda,
+        islandEnergy: [ed.lambda],
+        lmpCongestion,
+        lmpLoss,
+        losses: 0,
+        lineShadowPrices: {},
+        bindingContingencies: [],
+        rampShadowPrices: {},
+        ...noReserves(t),
+        unservedLoad: {},
+        overGeneration: {},
+        storageOutput: {},
+        storageSoc: {},
+        demandServed: {},
+        budgetOverruns: {},
+        busWithdrawals: withdrawalsFor(t),
+      };
+    });
+  }
+
+  // Cost curves as linear segments above Pmin, per interval where the limits vary
+  const voll = valueOfLostLoad(data);
+  const overGenPenalty = overGenerationPenalty(data);
+  const baseSegments = gens.map(g => costSegments(g));
+  const segments = units.map(hourUnits => hourUnits.map((u, i) => {
+    const segs = u === gens[i] ? baseSegments[i] : costSegments(u);
+    return u.mustTake ? segs.map(seg => ({ ...seg, price: -overGenPenalty })) : segs;
+  }));
+  // Committed capacity per bus and interval bounds the generation that can be curtailed there
+  const busCapacity = status.map((s, t) => data.buses.map(b =>
+    units[t].reduce((sum, g, i) => sum + (s[i] && g.busId === b.id ? g.pMax : 0), 0)));
+  const perBus = (mw: number[]) => Object.fromEntries(
+    data.buses.flatMap((bus, b) => (mw[b] > FLOW_TOL ? [[bus.id, mw[b]]] : []))) as Record<number, number>;
+
+  // Linearized losses per interval and island: L ≈ L0 + sum LF_b·(P_b - P0_b), starting lossless
+  const genBus = gens.map(g => busAt(g.busId));
+  let factors = status.map(() => data.buses.map(() => 0));
+  let lossOffset = nets.map(net => net.islands.map(() => 0)); // L0 - sum LF_b·P0_b
+  let lossEstimate = status.map(() => 0);
+  let lossRounds = 0;
+
+  // The LP is built once; violated limits are added to it as rows, the balance rows are
+  // re-linearized for the losses, and every solve starts from the basis of the last one
+  const lp = createLP();
+  // vars[t][i]: segment variables of unit i in interval t (empty when off)
+  const vars = status.map((s, t) => gens.map((g, i) => (s[i] ? segments[t][i].map(seg => addVariable(lp, seg.price, 0, seg.mw)) : [])));
+  const outputTerms = (t: number, i: number, coef: number) => vars[t][i].map(v => [v, coef] as [number, number]);
+  const minOutput = (t: number, i: number) => (status[t][i] ? units[t][i].pMin : 0);
+
+  // Shed load and curtailed generation per bus (-1 where not possible)
+  const shedVars = fixedLoads.map(loads => loads.map(load => (load > 0 ? addVariable(lp, voll, 0, load) : -1)));
+  const curtailVars = busCapacity.map(caps => caps.map(cap => (cap > 0 ? addVariable(lp, overGenPenalty, 0, cap) : -1)));
+  const slackTerms = (t: number, busCoef: (b: number) => number) => data.buses.flatMap((_, b) => {
+    const terms: [number, number][] = [];
+    const c = busCoef(b);
+    if (c === 0) return terms;
+    if (shedVars[t][b] >= 0) terms.push([shedVars[t][b], c]);
+    if (curtailVars[t][b] >= 0) terms.push([curtailVars[t][b], -c]);
+    return terms;
+  });
+
+  // Storage: charge / discharge power and the energy stored at the end of each interval
+  const chargeVars = status.map(() => storage.map(st => addVariable(lp, 0, 0, st.chargeMW)));
+  const dischargeVars = status.map(() => storage.map(st => addVariable(lp, 0, 0, st.dischargeMW)));
+  const energyVars = status.map(() => storage.map(st => addVariable(lp, 0, minEnergy(st), maxEnergy(st))));
+  storage.forEach((st, k) => {
+    status.forEach((_, t) => {
+      // E[t] = E[t-1] + (etaC·charge - discharge/etaD)·dt
+      const terms: [number, number][] = [
+        [energyVars[t][k], 1],
+        [chargeVars[t][k], -st.chargeEfficiency * dt],
+        [dischargeVars[t][k], dt / st.dischargeEfficiency],
+      ];
+      if (t > 0) terms.push([energyVars[t - 1][k], -1]);
+      addConstraint(lp, terms, '=', t > 0 ? 0 : initialEnergy(st));
+    });
+    addConstraint(lp, [[energyVars[status.length - 1][k], 1]], '>=', finalEnergyTarget(st, status.length * dt));
+  });
+  // Demand bids: served MW valued at the bid price
+  const demandVars = status.map((_, t) => bids.map(bid => addVariable(lp, -bid.price, 0, bidMW(data, bid, first + t))));
+  // Net injection of storage and demand bids
+  const flexibleTerms = (t: number, busCoef: (b: number) => number) => [
+    ...storage.flatMap((st, k) => {
+      const c = busCoef(busAt(st.busId));
+      return c === 0 ? [] : [[dischargeVars[t][k], c], [chargeVars[t][k], -c]] as [number, number][];
+    }),
+    ...bids.flatMap((bid, k) => {
+      const c = busCoef(busAt(bid.busId));
+      return c === 0 ? [] : [[demandVars[t][k], -c]] as [number, number][];
+    }),
+  ];
+
+  // Power balance of every island incl. losses: sum (1 - LF_b)·P_b = L0 - sum LF_b·P0_b
+  const balanceRow = (t: number, k: number): LinearConstraint => {
+    const kept = (b: number) => (nets[t].busIsland[b] === k ? 1 - factors[t][b] : 0);
+    const load = fixedLoads[t].reduce((sum, mw, b) => sum + kept(b) * mw, 0);
+    const terms = [
+      ...gens.flatMap((_, i) => (kept(genBus[i]) === 0 ? [] : outputTerms(t, i, kept(genBus[i])))),
+      ...slackTerms(t, kept),
+      ...flexibleTerms(t, kept),
+    ];
+    const pMinTotal = gens.reduce((sum, _, i) => sum + kept(genBus[i]) * minOutput(t, i), 0);
+    return { terms, sense: '=', rhs: load - pMinTotal + lossOffset[t][k] };
+  };
+  const balanceRows = status.map((_, t) => nets[t].islands.map((_, k) => {
+    const row = balanceRow(t, k);
+    return addConstraint(lp, row.terms, row.sense, row.rhs);
+  }));
+
+  // Rows of the monitored limits; energy over a budget (MWh) is priced per MWh like curtailed generation
+  const overrunVars: number[] = [];
+  const limitRows: number[] = [];
+  const addLimitRow = (m: OutputLimit) => {
+    const overrun = m.energy ? addVariable(lp, overGenPenalty / dt, 0, Infinity) : -1;
+    const terms = m.terms.flatMap(([t, i, coef]) => outputTerms(t, i, coef));
+    if (overrun >= 0) terms.push([overrun, -1]);
+    if (m.flow) {
+      const { dir, sens } = m.flow;
+      terms.push(...flexibleTerms(m.hour, b => dir * sens.busCoef[b]));
+      terms.push(...slackTerms(m.hour, b => dir * sens.busCoef[b]));
+    }
+    const atMin = m.terms.reduce((sum, [t, i, coef]) => sum + coef * minOutput(t, i), 0);
+    overrunVars.push(overrun);
+    limitRows.push(addConstraint(lp, terms, '<=', m.rhs - atMin));
+  };
+
+  // Reserves: spinning from online headroom, non-spinning from offline quick-start units,
+  // shortfall priced at the requirement's shortfall price
+  const spinVars = status.map((s, t) => units[t].map((g, i) =>
+    (s[i] && maxSpinReserve(g) > 0 ? addVariable(lp, g.spinReserveCost ?? 0, 0, maxSpinReserve(g)) : -1)));
+  // Offline units offer non-spinning reserve within their available capacity (none while on outage)
+  const nonSpinVars = status.map((s, t) => units[t].map((g, i) =>
+    (!s[i] && maxNonSpinReserve(g) > 0 ? addVariable(lp, g.nonSpinReserveCost ?? 0, 0, maxNonSpinReserve(g)) : -1)));
+  const shortfallVars = reserveNeeds.map(needs => requirements.map((req, r) => addVariable(lp, req.shortfallPrice, 0, needs[r])));
+  if (coOptimize) {
+    status.forEach((s, t) => units[t].forEach((g, i) => {
+      if (spinVars[t][i] < 0) return;
+      addConstraint(lp, [...outputTerms(t, i, 1), [spinVars[t][i], 1]], '<=', g.pMax - g.pMin);
+    }));
+  }
+  const reserveRows = reserveNeeds.map((needs, t) => requirements.map((req, r) => {
+    const terms: [number, number][] = [[shortfallVars[t][r], 1]];
+    gens.forEach((g, i) => {
+      if (!inReserveZone(req, g)) return;
+      if (spinVars[t][i] >= 0) terms.push([spinVars[t][i], 1]);
+      if (req.product === 'NonSpinning' && nonSpinVars[t][i] >= 0) terms.push([nonSpinVars[t][i], 1]);
+    });
+    return addConstraint(lp, terms, '>=', needs[r]);
+  }));
+
+  let basis: LPBasis | undefined;
+  let relinearized = false;
+
+  // Each round adds at least one limit, or re-linearizes the losses
+  const maxRounds = candidates.length + MAX_LOSS_ROUNDS
+    + 2 * status.length * data.lines.length * (1 + Math.max(0, ...contingencies.map(c => c.length)));
+  for (let round = 0; round <= maxRounds; round++) {
+    monitored.slice(limitRows.length).forEach(addLimitRow);
+    if (relinearized) {
+      balanceRows.forEach((rows, t) => rows.forEach((row, k) => { lp.constraints[row] = balanceRow(t, k); }));
+      relinearized = false;
+    }
+    const solution = solveLP(lp, basis);
+    if (solution.status !== 'optimal') break;
+    basis = solution.basis;
+
+    const outputs = status.map((s, t) => {
+      const output: Record<string, number> = {};
+      gens.forEach((g, i) => {
+        if (s[i]) output[g.id] = minOutput(t, i) + vars[t][i].reduce((sum, v) => sum + solution.x[v], 0);
+      });
+      return output;
+    });
+    const value = (v: number) => (v >= 0 ? solution.x[v] : 0);
+    const shed = shedVars.map(row => row.map(value));
+    const curtailed = curtailVars.map(row => row.map(value));
+    const adjust = shed.map((row, t) => row.map((mw, b) => curtailed[t][b] - mw));
+    const storageOutputs = status.map((_, t) => storage.map((_, k) => solution.x[dischargeVars[t][k]] - solution.x[chargeVars[t][k]]));
+    const served = status.map((_, t) => bids.map((_, k) => solution.x[demandVars[t][k]]));
+    const flexible = storageOutputs.map((row, t) => {
+      const inj = data.buses.map(() => 0);
+      storage.forEach((st, k) => { inj[busAt(st.busId)] += row[k]; });
+      bids.forEach((bid, k) => { inj[busAt(bid.busId)] -= served[t][k]; });
+      return inj;
+    });
+
+    // Add any violated limit that is not yet monitored and re-solve
+    if (addViolations(outputs, adjust, flexible)) continue;
+
+    // Re-linearize the losses at this solution until they settle
+    const lineFlows = outputs.map((output, t) => flowsFor(t, output, adjust, flexible));
+    if (lossy) {
+      const losses = lineFlows.map(flows => lineLosses(data, flows));
+      if (lossRounds < MAX_LOSS_ROUNDS && losses.some((l, t) => Math.abs(l - lossEstimate[t]) > LOSS_TOL)) {
+        lossRounds++;
+        factors = lineFlows.map((flows, t) => lossFactors(data, nets[t], flows));
+        lossOffset = outputs.map((output, t) => {
+          const injections = withdrawalsFor(t, adjust, flexible).map(w => -w);
+          committed[t].forEach(g => { injections[busAt(g.busId)] += output[g.id]; });
+          const offset = islandLosses(data, nets[t], lineFlows[t]);
+          injections.forEach((p, b) => { offset[nets[t].busIsland[b]] -= factors[t][b] * p; });
+          return offset;
+        });
+        lossEstimate = losses;
+        relinearized = true;
+        continue;
+      }
+    }
+
+    // Shadow prices of the monitored limits (>= 0)
+    const nu = monitored.map((_, k) => -solution.duals[limitRows[k]]);
+
+    return outputs.map((output, t) => {
+      const islandEnergy = balanceRows[t].map(row => solution.duals[row]);
+      const lmpEnergy = islandEnergy[0];
+      const lineShadowPrices: Record<string, number> = {};
+      const bindingContingencies: BindingContingency[] = [];
+      const rampShadowPrices: Record<string, number> = {};
+      const congestion = Array(data.buses.length).fill(0);
+
+      monitored.forEach((m, k) => {
+        if (m.hour !== t || nu[k] <= PRICE_TOL) return;
+        if (m.flow) {
+          // LMP_i = lambda - sum busCoef[i] * mu, mu signed with the flow direction
+          const mu = m.flow.dir * nu[k];
+          m.flow.sens.busCoef.forEach((c, i) => { congestion[i] -= c * mu; });
+          const lineId = data.lines[m.flow.lineIdx].id;
+          if (m.flow.contingency) {
+            bindingContingencies.push({ lineId, contingencyId: m.flow.contingency.id, shadowPrice: mu });
+          } else {
+            lineShadowPrices[lineId] = (lineShadowPrices[lineId] || 0) + mu;
+          }
+        } else if (m.ramp) {
+          const id = gens[m.ramp.genIdx].id;
+          rampShadowPrices[id] = (rampShadowPrices[id] || 0) + m.ramp.dir * nu[k];
+        }
+      });
+
+      const lmp: Record<number, number> = {};
+      const lmpCongestion: Record<number, number> = {};
+      const lmpLoss: Record<number, number> = {};
+      data.buses.forEach((b, i) => {
+        lmpCongestion[b.id] = congestion[i];
+        const energy = islandEnergy[nets[t].busIsland[i]];
+        lmpLoss[b.id] = -energy * factors[t][i];
+        lmp[b.id] = energy + lmpLoss[b.id] + congestion[i];
+      });
+
+      const reserveAwards: Record<string, { spinning: number; nonSpinning: number }> = {};
+      let reserveCost = 0;
+      gens.forEach((g, i) => {
+        const spinning = spinVars[t][i] >= 0 ? solution.x[spinVars[t][i]] : 0;
+        const nonSpinning = nonSpinVars[t][i] >= 0 ? solution.x[nonSpinVars[t][i]] : 0;
+        if (spinning <= FLOW_TOL && nonSpinning <= FLOW_TOL) return;
+        reserveAwards[g.id] = { spinning, nonSpinning };
+        reserveCost += spinning * (g.spinReserveCost ?? 0) + nonSpinning * (g.nonSpinReserveCost ?? 0);
+      });
+
+      const budgetOverruns: ScedResult['budgetOverruns'] = {};
+      monitored.forEach((m, k) => {
+        if (!m.energy || m.hour !== t || solution.x[overrunVars[k]] <= FLOW_TOL) return;
+        budgetOverruns[gens[m.energy.genIdx].id] = { energy: m.rhs + solution.x[overrunVars[k]], budget: m.rhs };
+      });
+
+      return {
+        feasible: true,
+        output,
+        cost: committed[t].reduce((sum, g) => sum + productionCost(g, output[g.id]), 0),
+        lineFlows: lineFlows[t],
+        lmp,
+        lmpEnergy,
+        islandEnergy,
+        lmpCongestion,
+        lmpLoss,
+        losses: lossy ? lineLosses(data, lineFlows[t]) : 0,
+        lineShadowPrices,
+        bindingContingencies,
+        rampShadowPrices,
+        reserveAwards,
+        reserveRequired: Object.fromEntries(requirements.map((req, r) => [req.id, reserveNeeds[t][r]])),
+        reservePrices: Object.fromEntries(requirements.map((req, r) => [req.id, solution.duals[reserveRows[t][r]]])),
+        reserveShortfall: Object.fromEntries(requirements.map((req, r) => [req.id, solution.x[shortfallVars[t][r]]])),
+        reserveCost,
+        unservedLoad: perBus(shed[t]),
+        overGeneration: perBus(curtailed[t]),
+        storageOutput: Object.fromEntries(storage.map((st, k) => [st.id, storageOutputs[t][k]])),
+        storageSoc: Object.fromEntries(storage.map((st, k) => [st.id, solution.x[energyVars[t][k]]])),
+        demandServed: Object.fromEntries(bids.map((bid, k) => [bid.id, served[t][k]])),
+        budgetOverruns,
+        busWithdrawals: withdrawalsFor(t, adjust, flexible),
+      };
+    });
+  }
+
+  return status.map((_, t) => infeasibleResult(noReserves(t)));
+}
+
+type ReserveFields = Pick<ScedResult, 'reserveAwards' | 'reserveRequired' | 'reservePrices' | 'reserveShortfall' | 'reserveCost'>;
+
+const infeasibleResult = (reserves: ReserveFields): ScedResult => ({
+  feasible: false,
+  output: {},
+  cost: 0,
+  lineFlows: [],
+  lmp: {},
+  lmpEnergy: 0,
+  islandEnergy: [],
+  lmpCongestion: {},
+  lmpLoss: {},
+  losses: 0,
+  lineShadowPrices: {},
+  bindingContingencies: [],
+  rampShadowPrices: {},
+  ...reserves,
+  unservedLoad: {},
+  overGeneration: {},
+  storageOutput: {},
+  storageSoc: {},
+  demandServed: {},
+  budgetOverruns: {},
+  busWithdrawals: [],
+});
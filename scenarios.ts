@@ -0,0 +1,170 @@
+import { SimulationResult, SystemData } from './types';
+
+// Named scenarios: a case with the results it was saved with, kept in the
+// browser's IndexedDB and exchanged as JSON files. Two scenarios are compared
+// by their inputs (elements added, removed or changed, field by field) and by
+// their results interval by interval (cost, commitment, flows, LMPs).
+
+export interface Scenario {
+  id: string;
+  name: string;
+  savedAt: string; // ISO time
+  caseName: string;
+  data: SystemData;
+  results: SimulationResult;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+
+const DB_NAME = 'scuc-sced';
+const STORE = 'scenarios';
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+function openDb(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+  return request(req);
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await request(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+}
+
+// Saved scenarios, oldest first
+export async function listScenarios(): Promise<Scenario[]> {
+  const all = await withStore<Scenario[]>('readonly', store => store.getAll());
+  return all.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+}
+
+export const putScenario = (scenario: Scenario) => withStore('readwrite', store => store.put(scenario)).then(() => undefined);
+
+export const deleteScenario = (id: string) => withStore('readwrite', store => store.delete(id)).then(() => undefined);
+
+export function createScenario(name: string, caseName: string, data: SystemData, results: SimulationResult): Scenario {
+  const savedAt = new Date().toISOString();
+  return { id: `${savedAt}-${Math.random().toString(36).slice(2, 8)}`, name, savedAt, caseName, data, results };
+}
+
+// ---------------------------------------------------------------------------
+// JSON files
+
+const FILE_FORMAT = 'scuc-sced-scenarios';
+
+export const scenarioFile = (scenarios: Scenario[]) =>
+  JSON.stringify({ format: FILE_FORMAT, version: 1, scenarios }, null, 1);
+
+// Scenarios of a file, with fresh ids so an import never replaces a saved scenario
+export function parseScenarioFile(text: string): { scenarios: Scenario[]; error: string | null } {
+  let parsed: { format?: unknown; scenarios?: unknown };
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return { scenarios: [], error: (e as Error).message };
+  }
+  const list = parsed?.format === FILE_FORMAT && Array.isArray(parsed.scenarios) ? parsed.scenarios as Scenario[] : null;
+  if (!list || list.some(s => typeof s?.name !== 'string' || !Array.isArray(s.data?.buses) || !Array.isArray(s.results))) {
+    return { scenarios: [], error: '不是情景文件 (需要 format、scenarios, 每个情景含 name、data 与 results)' };
+  }
+  return {
+    scenarios: list.map(s => ({ ...createScenario(s.name, s.caseName ?? s.name, s.data, s.results), savedAt: s.savedAt ?? new Date().toISOString() })),
+    error: null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+
+export type ElementKind = 'Bus' | 'Line' | 'Generator' | 'Storage' | 'DemandBid' | 'Reserve' | 'Outage' | 'FTR' | 'Availability' | 'System';
+
+export interface InputChange {
+  kind: ElementKind;
+  id: string;
+  change: 'Added' | 'Removed' | 'Changed';
+  fields: { field: string; before: unknown; after: unknown }[]; // Changed fields only
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function changedFields(a: object, b: object) {
+  const before = a as Record<string, unknown>;
+  const after = b as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return keys.filter(k => !same(before[k], after[k])).map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+// Elements matched by id
+function diffElements<T extends { id: string | number }>(kind: ElementKind, a: T[] = [], b: T[] = []): InputChange[] {
+  const after = new Map(b.map(e => [e.id, e]));
+  const before = new Map(a.map(e => [e.id, e]));
+  const changes: InputChange[] = [];
+  a.forEach(e => {
+    const other = after.get(e.id);
+    if (!other) changes.push({ kind, id: String(e.id), change: 'Removed', fields: [] });
+    else {
+      const fields = changedFields(e, other);
+      if (fields.length > 0) changes.push({ kind, id: String(e.id), change: 'Changed', fields });
+    }
+  });
+  b.filter(e => !before.has(e.id)).forEach(e => changes.push({ kind, id: String(e.id), change: 'Added', fields: [] }));
+  return changes;
+}
+
+const ELEMENT_LISTS = ['buses', 'lines', 'generators', 'storage', 'demandBids', 'reserveRequirements', 'outages', 'ftrs', 'availabilityProfiles'] as const;
+
+export function diffInputs(a: SystemData, b: SystemData): InputChange[] {
+  const profiles = (d: SystemData) => Object.entries(d.availabilityProfiles ?? {}).map(([id, profile]) => ({ id, profile }));
+  const system = (d: SystemData) => Object.fromEntries(Object.entries(d).filter(([k]) => !(ELEMENT_LISTS as readonly string[]).includes(k)));
+  const systemFields = changedFields(system(a), system(b));
+  return [
+    ...(systemFields.length > 0 ? [{ kind: 'System' as const, id: '', change: 'Changed' as const, fields: systemFields }] : []),
+    ...diffElements('Bus', a.buses, b.buses),
+    ...diffElements('Line', a.lines, b.lines),
+    ...diffElements('Generator', a.generators, b.generators),
+    ...diffElements('Storage', a.storage, b.storage),
+    ...diffElements('DemandBid', a.demandBids, b.demandBids),
+    ...diffElements('Reserve', a.reserveRequirements, b.reserveRequirements),
+    ...diffElements('Outage', a.outages, b.outages),
+    ...diffElements('FTR', a.ftrs, b.ftrs),
+    ...diffElements('Availability', profiles(a), profiles(b)),
+  ];
+}
+
+export interface IntervalDelta {
+  interval: number;
+  costA: number;
+  costB: number;
+  commitment: { id: string; a: boolean | null; b: boolean | null }[]; // Units whose status differs (null: not in the case)
+  flowDeltas: Record<string, number>; // B - A, lines of both cases
+  lmpDeltas: Record<number, number>; // B - A, buses of both cases
+}
+
+// Interval by interval over the intervals both runs have
+export function compareResults(a: SimulationResult, b: SimulationResult): IntervalDelta[] {
+  return a.slice(0, b.length).map((ra, t) => {
+    const rb = b[t];
+    const units = [...new Set([...Object.keys(ra.genStatus), ...Object.keys(rb.genStatus)])];
+    const delta = <K extends string | number>(x: Record<K, number>, y: Record<K, number>) =>
+      Object.fromEntries(Object.keys(x).filter(k => k in y).map(k => [k, y[k as K] - x[k as K]])) as Record<K, number>;
+    return {
+      interval: t,
+      costA: ra.systemCost,
+      costB: rb.systemCost,
+      commitment: units
+        .map(id => ({ id, a: ra.genStatus[id] ?? null, b: rb.genStatus[id] ?? null }))
+        .filter(u => u.a !== u.b),
+      flowDeltas: delta(ra.lineFlows, rb.lineFlows),
+      lmpDeltas: delta(ra.lmp, rb.lmp),
+    };
+  });
+}
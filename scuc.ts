@@ -0,0 +1,285 @@
+import { Generator } from './types';
+import { economicDispatch, outputAtPrice, productionCost } from './dispatch';
+
+// Unit Commitment over the whole horizon by Lagrangian Relaxation.
+// The system constraints (demand balance, reserve) are priced with multipliers
+// lambda/mu, which decouples the problem into one dynamic program per unit
+// that handles startup cost and min up/down times exactly. Multipliers are
+// updated by subgradient steps; every iteration is turned into a feasible
+// schedule and the cheapest one is kept.
+// Unit limits may vary by interval (availability profiles): units[t][i] is unit i
+// as seen in interval t. With intervals of dt hours, minimum up/down times are
+// counted in intervals and production costs are weighted by dt. A unit on outage
+// (outages[t][i]) is off in that interval, shut down regardless of its minimum up time.
+// Energy budgets (hydro) are held in the unit's own program: the minimum outputs of
+// each block of intervals (the dispatch windows) are priced until they fit the budget.
+
+export interface CommitmentSchedule {
+  status: boolean[][]; // [interval][generator index]
+  startups: boolean[][]; // [interval][generator index]
+  shutdowns: boolean[][]; // [interval][generator index]
+  cost: number; // Production + startup cost over the horizon ($)
+}
+
+interface UnitSchedule {
+  on: boolean[];
+  output: number[];
+  cost: number; // Lagrangian cost of this unit
+}
+
+const MAX_ITERATIONS = 60;
+const SHORTAGE_PENALTY = 1e5; // $/MW of uncovered load or reserve when ranking schedules
+const MAX_BUDGET_PRICE = 1e6; // $/MWh, beyond it a budget is left to the dispatch
+const BUDGET_BISECTIONS = 20;
+
+// Hours to intervals
+const intervals = (hours: number, dt: number) => Math.max(1, Math.round(hours / dt));
+const minUp = (g: Generator, dt: number) => intervals(g.minUpTime ?? 1, dt);
+const minDown = (g: Generator, dt: number) => intervals(g.minDownTime ?? 1, dt);
+
+// Dynamic program for a single unit given prices per interval.
+// States: online for 1..U intervals (U = "at least U") or offline for 1..D intervals.
+// energyPrice[t] is charged on the minimum output of an online interval ($/MWh).
+function solveUnit(
+  gen: Generator, hourly: Generator[], lambda: number[], mu: number[], dt: number, out: boolean[],
+  energyPrice: number[] = lambda.map(() => 0),
+): UnitSchedule {
+  const T = lambda.length;
+  const U = minUp(gen, dt);
+  const D = minDown(gen, dt);
+  const nStates = U + D; // 0..U-1 online (d = idx+1), U..U+D-1 offline (d = idx-U+1)
+
+  // Best output and cost when online in interval t
+  const onOutput: number[] = [];
+  const onCost: number[] = [];
+  for (let t = 0; t < T; t++) {
+    const p = outputAtPrice(hourly[t], lambda[t]);
+    onOutput.push(p);
+    onCost.push((productionCost(gen, p) - lambda[t] * p - mu[t] * hourly[t].pMax + energyPrice[t] * hourly[t].pMin) * dt);
+  }
+
+  // Initial state from the status before the horizon (default: off long enough to start)
+  const init = gen.initialStatus === undefined ? -D : Math.sign(gen.initialStatus) * intervals(Math.abs(gen.initialStatus), dt);
+  const initState = init > 0 ? Math.min(init, U) - 1 : U + Math.min(-init, D) - 1;
+
+  let value = Array(nStates).fill(Infinity);
+  value[initState] = 0;
+  const back: number[][] = [];
+
+  for (let t = 0; t < T; t++) {
+    const next = Array(nStates).fill(Infinity);
+    const from = Array(nStates).fill(-1);
+    const relax = (s: number, to: number, c: number) => {
+      if (value[s] + c < next[to]) {
+        next[to] = value[s] + c;
+        from[to] = s;
+      }
+    };
+    for (let s = 0; s < nStates; s++) {
+      if (value[s] === Infinity) continue;
+      if (out[t]) {
+        relax(s, s < U ? U : Math.min(s + 1, U + D - 1), 0); // Forced off
+      } else if (s < U) {
+        relax(s, Math.min(s + 1, U - 1), onCost[t]); // Stay on
+        if (s === U - 1) relax(s, U, 0); // Shut down
+      } else {
+        relax(s, Math.min(s + 1, U + D - 1), 0); // Stay off
+        if (s === U + D - 1) relax(s, 0, onCost[t] + gen.startUpCost); // Start up
+      }
+    }
+    value = next;
+    back.push(from);
+  }
+
+  let state = 0;
+  for (let s = 1; s < nStates; s++) if (value[s] < value[state]) state = s;
+  const cost = value[state];
+
+  const on: boolean[] = Array(T).fill(false);
+  const output: number[] = Array(T).fill(0);
+  for (let t = T - 1; t >= 0; t--) {
+    if (state < U) {
+      on[t] = true;
+      output[t] = onOutput[t];
+    }
+    state = back[t][state];
+  }
+
+  return { on, output, cost };
+}
+
+// Unit program within an energy budget (MWh per interval, shared out over blocks of
+// `block` intervals): the price on the minimum outputs of a block that overruns is
+// raised by bisection until they fit. The budget terms are taken out of the cost so
+// it stays a Lagrangian cost.
+function solveBudgetedUnit(
+  gen: Generator, hourly: Generator[], lambda: number[], mu: number[], dt: number, out: boolean[], budget: number, block: number,
+): UnitSchedule {
+  const T = lambda.length;
+  const price: number[] = Array(T).fill(0);
+  const solve = () => solveUnit(gen, hourly, lambda, mu, dt, out, price);
+  let unit = solve();
+  if (budget === Infinity) return unit;
+  const minEnergy = (u: UnitSchedule, start: number, end: number) =>
+    u.on.slice(start, end).reduce((sum, on, k) => sum + (on ? hourly[start + k].pMin * dt : 0), 0);
+
+  for (let start = 0; start < T; start += block) {
+    const end = Math.min(T, start + block);
+    const fits = (u: UnitSchedule) => minEnergy(u, start, end) <= budget * (end - start) + 1e-6;
+    if (fits(unit)) continue;
+    let lo = 0;
+    let hi = 1;
+    for (;;) {
+      price.fill(hi, start, end);
+      unit = solve();
+      if (fits(unit) || hi >= MAX_BUDGET_PRICE) break;
+      lo = hi;
+      hi *= 2;
+    }
+    if (!fits(unit)) continue; // Held on by its initial status or outages
+    for (let k = 0; k < BUDGET_BISECTIONS; k++) {
+      const mid = (lo + hi) / 2;
+      price.fill(mid, start, end);
+      if (fits(solve())) hi = mid;
+      else lo = mid;
+    }
+    price.fill(hi, start, end);
+    unit = solve();
+  }
+  return { ...unit, cost: unit.cost - price.reduce((sum, p) => sum + p * budget, 0) };
+}
+
+function startupsOf(gen: Generator, on: boolean[]): boolean[] {
+  const wasOn = (gen.initialStatus ?? -1) > 0;
+  return on.map((u, t) => u && !(t === 0 ? wasOn : on[t - 1]));
+}
+
+function shutdownsOf(gen: Generator, on: boolean[]): boolean[] {
+  const wasOn = (gen.initialStatus ?? -1) > 0;
+  return on.map((u, t) => !u && (t === 0 ? wasOn : on[t - 1]));
+}
+
+// Production + startup cost of a commitment, with a penalty for uncovered load/reserve
+function evaluateSchedule(
+  gens: Generator[], units: Generator[][], on: boolean[][], loads: number[], reserves: number[], dt: number,
+): number {
+  let cost = 0;
+  gens.forEach((g, i) => {
+    startupsOf(g, on[i]).forEach(s => { if (s) cost += g.startUpCost; });
+  });
+  loads.forEach((load, t) => {
+    const committed = units[t].filter((_, i) => on[i][t]);
+    const ed = economicDispatch(committed, load);
+    const capacity = committed.reduce((sum, g) => sum + g.pMax, 0);
+    cost += (ed.cost + Math.max(0, ed.mismatch) * SHORTAGE_PENALTY) * dt;
+    cost += Math.max(0, load + reserves[t] - capacity) * SHORTAGE_PENALTY * dt;
+  });
+  return cost;
+}
+
+// Raise the reserve multipliers of short intervals until enough capacity is committed
+function repairSchedule(
+  gens: Generator[], units: Generator[][], lambda: number[], mu: number[], loads: number[], reserves: number[], dt: number,
+  outages: boolean[][], budgets: number[], block: number,
+): boolean[][] {
+  const T = loads.length;
+  const muRepair = [...mu];
+  const step = Array(T).fill(1);
+  const solveAll = () => gens.map((g, i) =>
+    solveBudgetedUnit(g, units.map(u => u[i]), lambda, muRepair, dt, outages.map(o => o[i]), budgets[i], block).on);
+  let on = solveAll();
+
+  for (let round = 0; round < 40; round++) {
+    let short = false;
+    for (let t = 0; t < T; t++) {
+      const capacity = units[t].reduce((sum, g, i) => sum + (on[i][t] ? g.pMax : 0), 0);
+      const allOn = gens.every((_, i) => on[i][t] || outages[t][i]);
+      if (capacity < loads[t] + reserves[t] - 1e-6 && !allOn) {
+        muRepair[t] += step[t];
+        step[t] *= 2;
+        short = true;
+      }
+    }
+    if (!short) break;
+    on = solveAll();
+  }
+  return on;
+}
+
+export function solveUnitCommitment(
+  gens: Generator[],
+  loads: number[],
+  reserves: number[],
+  units: Generator[][] = loads.map(() => gens),
+  dt = 1, // Interval length (hours)
+  outages: boolean[][] = loads.map(() => gens.map(() => false)), // [interval][generator index]
+  budgets: number[] = gens.map(() => Infinity), // Energy budgets, MWh per interval
+  block = loads.length, // Intervals that share a budget
+): CommitmentSchedule {
+  const T = loads.length;
+
+  // Start the energy price at the incremental cost with every unit available
+  const lambda = loads.map((load, t) => economicDispatch(units[t], load).lambda);
+  const mu: number[] = Array(T).fill(0);
+
+  let bestOn = repairSchedule(gens, units, lambda, mu, loads, reserves, dt, outages, budgets, block);
+  let bestCost = evaluateSchedule(gens, units, bestOn, loads, reserves, dt);
+  let bestDual = -Infinity;
+  let theta = 1;
+  let sinceImprovement = 0;
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const schedules = gens.map((g, i) =>
+      solveBudgetedUnit(g, units.map(u => u[i]), lambda, mu, dt, outages.map(o => o[i]), budgets[i], block));
+
+    // Dual function value and subgradients
+    let dual = schedules.reduce((sum, u) => sum + u.cost, 0);
+    const gLambda: number[] = [];
+    const gMu: number[] = [];
+    for (let t = 0; t < T; t++) {
+      const gen = schedules.reduce((sum, u) => sum + u.output[t], 0);
+      const capacity = units[t].reduce((sum, g, i) => sum + (schedules[i].on[t] ? g.pMax : 0), 0);
+      dual += (lambda[t] * loads[t] + mu[t] * (loads[t] + reserves[t])) * dt;
+      gLambda.push((loads[t] - gen) * dt);
+      gMu.push((loads[t] + reserves[t] - capacity) * dt);
+    }
+
+    if (dual > bestDual + 1e-6) {
+      bestDual = dual;
+      sinceImprovement = 0;
+    } else if (++sinceImprovement >= 5) {
+      theta /= 2;
+      sinceImprovement = 0;
+    }
+
+    // Feasible schedule from the current multipliers
+    const on = repairSchedule(gens, units, lambda, mu, loads, reserves, dt, outages, budgets, block);
+    const cost = evaluateSchedule(gens, units, on, loads, reserves, dt);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestOn = on;
+    }
+
+    // Stop when the duality gap is closed
+    if (bestCost - bestDual <= 1e-4 * Math.abs(bestCost)) break;
+
+    // Polyak step towards the best known schedule cost
+    const norm = gLambda.reduce((s, g) => s + g * g, 0) + gMu.reduce((s, g) => s + g * g, 0);
+    if (norm < 1e-9) break;
+    const stepSize = theta * (bestCost - dual) / norm;
+    for (let t = 0; t < T; t++) {
+      lambda[t] += stepSize * gLambda[t];
+      mu[t] = Math.max(0, mu[t] + stepSize * gMu[t]);
+    }
+  }
+
+  const byHour = (perUnit: boolean[][]) =>
+    Array.from({ length: T }, (_, t) => perUnit.map(unit => unit[t]));
+
+  return {
+    status: byHour(bestOn),
+    startups: byHour(gens.map((g, i) => startupsOf(g, bestOn[i]))),
+    shutdowns: byHour(gens.map((g, i) => shutdownsOf(g, bestOn[i]))),
+    cost: bestCost,
+  };
+}
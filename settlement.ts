@@ -0,0 +1,215 @@
+import { FinancialTransmissionRight, Generator, SimulationResult, SystemData } from './types';
+import { productionCost } from './dispatch';
+import { inReserveZone } from './reserves';
+import { intervalHours } from './time';
+
+// Market settlement of a run at its LMPs and reserve prices. Units are paid
+// their output at their bus price and their reserve awards at the prices of the
+// requirements they count towards; loads pay for what they take at their bus
+// price; storage is paid for discharging and pays for charging. What loads pay
+// beyond what units and storage are paid is the congestion rent of the lines
+// (flow times the difference of the congestion components across the line)
+// plus the loss surplus. Congestion rent funds the FTRs.
+// As-bid costs (energy, no-load, startup) that a unit's market revenue does not
+// cover over a day are made whole with uplift. Under a carbon price a unit also
+// pays for its CO2, which its offers included.
+
+export interface GeneratorSettlement {
+  id: string;
+  energyMWh: number;
+  energyRevenue: number; // $
+  reserveRevenue: number;
+  energyCost: number; // Offer cost of the output above no-load
+  noLoadCost: number;
+  startupCost: number;
+  carbonCost: number; // CO2 at the carbon price of the run
+  profit: number; // Revenue minus all four costs
+  uplift: number; // Make-whole payment, per day of the horizon
+}
+
+export interface BusSettlement {
+  busId: number;
+  loadMWh: number; // Load served, incl. cleared demand bids
+  payment: number; // $ at the LMP
+  energyPayment: number; // LMP components
+  lossPayment: number;
+  congestionPayment: number;
+}
+
+export interface LineSettlement {
+  lineId: string;
+  congestionRent: number; // $
+  congestedIntervals: number; // Intervals with a binding limit on the line
+}
+
+export interface FtrSettlement {
+  id: string;
+  payout: number; // $ (negative: the holder pays)
+  intervals: number[]; // $ per interval
+}
+
+export interface IntervalSettlement {
+  interval: number;
+  generatorRevenue: number; // Energy and reserves
+  storageRevenue: number;
+  loadPayment: number;
+  congestionRent: number;
+  ftrPayout: number;
+}
+
+export interface Settlement {
+  generators: GeneratorSettlement[];
+  storage: { id: string; revenue: number }[];
+  buses: BusSettlement[];
+  lines: LineSettlement[];
+  ftrs: FtrSettlement[];
+  intervals: IntervalSettlement[];
+  totals: {
+    loadPayment: number;
+    generatorRevenue: number;
+    storageRevenue: number;
+    congestionRent: number;
+    lossSurplus: number; // Merchandising surplus left after the congestion rent
+    uplift: number;
+    ftrPayout: number;
+    ftrFunding: number; // Share of the FTR payout the congestion rent covers (1 when fully funded)
+  };
+}
+
+// Reserve price a unit's award is paid: spinning awards also count towards the
+// non-spinning requirements
+function reservePrice(data: SystemData, prices: Record<string, number>, g: Generator, product: 'Spinning' | 'NonSpinning') {
+  return (data.reserveRequirements ?? [])
+    .filter(req => inReserveZone(req, g) && (req.product === product || (product === 'Spinning' && req.product === 'NonSpinning')))
+    .reduce((sum, req) => sum + (prices[req.id] ?? 0), 0);
+}
+
+export const ftrPayout = (ftr: FinancialTransmissionRight, congestion: Record<number, number>) => {
+  const spread = (congestion[ftr.sinkBus] ?? 0) - (congestion[ftr.sourceBus] ?? 0);
+  return ftr.mw * (ftr.kind === 'Option' ? Math.max(0, spread) : spread);
+};
+
+export function settleMarket(data: SystemData, results: SimulationResult): Settlement {
+  const dt = intervalHours(data);
+  const storage = data.storage ?? [];
+  const ftrs = data.ftrs ?? [];
+  const intervalsPerDay = Math.max(1, Math.round(24 / dt));
+
+  const generators: GeneratorSettlement[] = data.generators.map(g => ({
+    id: g.id, energyMWh: 0, energyRevenue: 0, reserveRevenue: 0, energyCost: 0, noLoadCost: 0, startupCost: 0, carbonCost: 0, profit: 0, uplift: 0,
+  }));
+  const storageRevenue = storage.map(st => ({ id: st.id, revenue: 0 }));
+  const buses: BusSettlement[] = data.buses.map(b => ({
+    busId: b.id, loadMWh: 0, payment: 0, energyPayment: 0, lossPayment: 0, congestionPayment: 0,
+  }));
+  const lines: LineSettlement[] = data.lines.map(l => ({ lineId: l.id, congestionRent: 0, congestedIntervals: 0 }));
+  const ftrResults: FtrSettlement[] = ftrs.map(f => ({ id: f.id, payout: 0, intervals: [] }));
+  const dayMargin = data.generators.map(() => 0); // Revenue minus cost in the current day
+
+  const intervals = results.map((r, t) => {
+    const energyAt = (busId: number) => r.islandEnergy[r.islands.findIndex(island => island.includes(busId))] ?? r.lmpEnergy;
+    let generatorRevenue = 0;
+    data.generators.forEach((g, i) => {
+      const s = generators[i];
+      const award = r.reserveAwards[g.id];
+      const reserve = award
+        ? (award.spinning * reservePrice(data, r.reservePrices, g, 'Spinning') + award.nonSpinning * reservePrice(data, r.reservePrices, g, 'NonSpinning')) * dt
+        : 0;
+      let margin = reserve;
+      if (r.genStatus[g.id]) {
+        const p = r.genOutput[g.id] ?? 0;
+        const revenue = p * (r.lmp[g.busId] ?? 0) * dt;
+        const energyCost = (productionCost(g, p) - g.costC) * dt;
+        const carbonCost = (r.emissions[g.id]?.co2 ?? 0) * r.carbonPrice;
+        s.energyMWh += p * dt;
+        s.energyRevenue += revenue;
+        s.energyCost += energyCost;
+        s.noLoadCost += g.costC * dt;
+        s.carbonCost += carbonCost;
+        margin += revenue - energyCost - g.costC * dt - carbonCost;
+        generatorRevenue += revenue;
+      }
+      if (r.startups.includes(g.id)) {
+        s.startupCost += g.startUpCost;
+        margin -= g.startUpCost;
+      }
+      s.reserveRevenue += reserve;
+      generatorRevenue += reserve;
+      dayMargin[i] += margin;
+      // Make whole at the end of each day
+      if ((t + 1) % intervalsPerDay === 0 || t === results.length - 1) {
+        s.uplift += Math.max(0, -dayMargin[i]);
+        dayMargin[i] = 0;
+      }
+    });
+
+    let stored = 0;
+    storage.forEach((st, k) => {
+      const revenue = (r.storageOutput[st.id] ?? 0) * (r.lmp[st.busId] ?? 0) * dt;
+      storageRevenue[k].revenue += revenue;
+      stored += revenue;
+    });
+
+    // Load: withdrawals less storage charging and curtailed generation
+    let loadPayment = 0;
+    data.buses.forEach((b, i) => {
+      const charging = storage.filter(st => st.busId === b.id).reduce((sum, st) => sum - (r.storageOutput[st.id] ?? 0), 0);
+      const curtailed = r.supplyEvents.filter(e => e.type === 'OverGeneration' && e.busId === b.id).reduce((sum, e) => sum + e.mw, 0);
+      const load = (r.busWithdrawals[b.id] ?? 0) - charging - curtailed;
+      const s = buses[i];
+      s.loadMWh += load * dt;
+      s.payment += load * (r.lmp[b.id] ?? 0) * dt;
+      s.energyPayment += load * energyAt(b.id) * dt;
+      s.lossPayment += load * (r.lmpLoss[b.id] ?? 0) * dt;
+      s.congestionPayment += load * (r.lmpCongestion[b.id] ?? 0) * dt;
+      loadPayment += load * (r.lmp[b.id] ?? 0) * dt;
+    });
+
+    let congestionRent = 0;
+    data.lines.forEach((l, k) => {
+      const rent = (r.lineFlows[l.id] ?? 0) * ((r.lmpCongestion[l.toBus] ?? 0) - (r.lmpCongestion[l.fromBus] ?? 0)) * dt;
+      lines[k].congestionRent += rent;
+      if (r.lineShadowPrices[l.id] || r.bindingContingencies.some(c => c.lineId === l.id)) lines[k].congestedIntervals++;
+      congestionRent += rent;
+    });
+
+    let ftrTotal = 0;
+    ftrs.forEach((f, k) => {
+      const payout = ftrPayout(f, r.lmpCongestion) * dt;
+      ftrResults[k].payout += payout;
+      ftrResults[k].intervals.push(payout);
+      ftrTotal += payout;
+    });
+
+    return { interval: t, generatorRevenue, storageRevenue: stored, loadPayment, congestionRent, ftrPayout: ftrTotal };
+  });
+
+  generators.forEach(s => {
+    s.profit = s.energyRevenue + s.reserveRevenue - s.energyCost - s.noLoadCost - s.startupCost - s.carbonCost;
+  });
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  const loadPayment = sum(intervals.map(i => i.loadPayment));
+  const energyRevenue = sum(generators.map(g => g.energyRevenue));
+  const storageTotal = sum(intervals.map(i => i.storageRevenue));
+  const congestionRent = sum(intervals.map(i => i.congestionRent));
+  const ftrTotal = sum(intervals.map(i => i.ftrPayout));
+  return {
+    generators,
+    storage: storageRevenue,
+    buses,
+    lines,
+    ftrs: ftrResults,
+    intervals,
+    totals: {
+      loadPayment,
+      generatorRevenue: sum(intervals.map(i => i.generatorRevenue)),
+      storageRevenue: storageTotal,
+      congestionRent,
+      lossSurplus: loadPayment - energyRevenue - storageTotal - congestionRent,
+      uplift: sum(generators.map(g => g.uplift)),
+      ftrPayout: ftrTotal,
+      ftrFunding: ftrTotal > 1e-6 ? Math.min(1, Math.max(0, congestionRent) / ftrTotal) : 1,
+    },
+  };
+}
@@ -1,217 +1,445 @@
-import { SystemData, SimulationResult, HourlyDispatch } from './types';
-
-// Matrix math helpers for DC Power Flow
-const createMatrix = (rows: number, cols: number, val = 0) => Array(rows).fill(null).map(() => Array(cols).fill(val));
-
-// Gaussian elimination to solve Ax = b
-function solveLinearSystem(A: number[][], b: number[]): number[] {
-  const n = A.length;
-  // Deep copy to avoid modifying originals
-  const M = A.map(row => [...row]);
-  const x = [...b];
-
-  for (let i = 0; i < n; i++) {
-    // Pivot
-    let maxEl = Math.abs(M[i][i]);
-    let maxRow = i;
-    for (let k = i + 1; k < n; k++) {
-      if (Math.abs(M[k][i]) > maxEl) {
-        maxEl = Math.abs(M[k][i]);
-        maxRow = k;
-      }
-    }
+import { SystemData, SimulationResult, SimulationProgress, HourlyDispatch, StorageUnit, SupplyEvent, Violation } from './types';
+import { economicDispatch } from './dispatch';
+import { solveUnitCommitment } from './scuc';
+import { NetworkModel, buildNetwork, busIdx, computeLineFlows } from './network';
+import { ScedResult, overGenerationPenalty, solveSced, valueOfLostLoad } from './sced';
+import { screenContingencies } from './contingency';
+import { reserveRequirementMW, spinningRequirement } from './reserves';
+import { initialEnergy } from './storage';
+import { budgetRateGenerator, commitmentGenerators, energyBudget, hourlyGenerators } from './renewables';
+import { bidMW, busReactiveLoad, hourlyBusLoads as busLoadsByHour } from './loads';
+import { solveAcFlow } from './acflow';
+import { horizonHours, hourOf, intervalCount, intervalHours } from './time';
+import { outagesAt } from './topology';
+import { CARBON_PRICE_TOL, MAX_CAP_ROUNDS, MAX_CARBON_PRICE, horizonCo2, unitEmissions, withCarbonPrice } from './emissions';
+import { violation } from './violations';
 
-    // Swap
-    [M[i], M[maxRow]] = [M[maxRow], M[i]];
-    [x[i], x[maxRow]] = [x[maxRow], x[i]];
+// SCED windows: the dispatch LP covers one day at a time, and at most
+// MAX_WINDOW_INTERVALS intervals (the LP grows quickly with the intervals),
+// starting from the outputs and storage energy at the end of the previous window
+const WINDOW_HOURS = 24;
+const MAX_WINDOW_INTERVALS = 24;
+// Commitments solved again for load shed behind ramp limits
+const MAX_RECOMMIT_ROUNDS = 5;
 
-    // Eliminate
-    for (let k = i + 1; k < n; k++) {
-      const c = -M[k][i] / M[i][i];
-      for (let j = i; j < n; j++) {
-        if (i === j) M[k][j] = 0;
-        else M[k][j] += c * M[i][j];
-      }
-      x[k] += c * x[i];
-    }
+// SCED of one window, relaxed step by step when the full problem has no solution
+function dispatchWindow(
+  data: SystemData, nets: NetworkModel[], status: boolean[][], busLoads: number[][], first: number, violations: Violation[][],
+): ScedResult[] {
+  let sced = solveSced(data, nets, status, busLoads, true, first);
+
+  if (!sced[0].feasible && data.securityConstrained) {
+    // N-1 limits cannot all be met: keep the base case secure and report the rest
+    violations.forEach((v, k) => v.push(violation('SecurityRelaxed', first + k, 'N-1 安全约束无法全部满足: 仅考虑基态约束')));
+    sced = solveSced({ ...data, securityConstrained: false }, nets, status, busLoads, true, first);
   }
 
-  // Back substitution
-  const result = Array(n).fill(0);
-  for (let i = n - 1; i >= 0; i--) {
-    let sum = 0;
-    for (let j = i + 1; j < n; j++) {
-      sum += M[i][j] * result[j];
-    }
-    result[i] = (x[i] - sum) / M[i][i];
+  if (!sced[0].feasible) {
+    // Ramp limits conflict with the line limits: dispatch every interval on its own (storage
+    // idle, energy budgets held as an average rate)
+    violations.forEach((v, k) => v.push(violation('RampRelaxed', first + k, '爬坡约束无法满足: 各时段独立调度')));
+    const hourData = { ...data, securityConstrained: false, storage: [], generators: data.generators.map(budgetRateGenerator) };
+    sced = status.map((s, t) => solveSced(hourData, [nets[t]], [s], [busLoads[t]], false, first + t)[0]);
+  }
+  return sced;
+}
+
+// Simulation of the horizon. With an emission cap, runs at rising carbon prices:
+// the price is doubled until the CO2 fits under the cap, then bisected down to
+// the lowest such price; that run is the result.
+export function runSimulation(data: SystemData, onProgress?: (progress: SimulationProgress) => void): SimulationResult {
+  const base = data.carbonPrice ?? 0;
+  const cap = data.emissionCap;
+  if (cap === undefined) return simulate(data, base, 0, onProgress);
+
+  const report = (round: number) => onProgress?.({ stage: 'EmissionCap', done: round, total: MAX_CAP_ROUNDS });
+  report(0);
+  let results = simulate(data, base, 0);
+  if (horizonCo2(results) <= cap) return results;
+
+  let low = 0; // Shadow prices known to leave the CO2 above the cap
+  let high = 10;
+  let round = 1;
+  let capped: SimulationResult | null = null;
+  while (!capped && round < MAX_CAP_ROUNDS) {
+    report(round++);
+    results = simulate(data, base + high, high);
+    if (horizonCo2(results) <= cap) capped = results;
+    else if (high >= MAX_CARBON_PRICE) break;
+    else [low, high] = [high, Math.min(MAX_CARBON_PRICE, high * 2)];
   }
-  return result;
+  if (!capped) {
+    const co2 = horizonCo2(results);
+    results.forEach(r => r.violations.push(violation(
+      'EmissionCap', r.interval, `排放上限 ${cap.toFixed(0)} t 无法满足: 碳价已达 $${(base + high).toFixed(0)}/t`, { value: co2, limit: cap })));
+    return results;
+  }
+  while (high - low > CARBON_PRICE_TOL && round < MAX_CAP_ROUNDS) {
+    report(round++);
+    const mid = (low + high) / 2;
+    const trial = simulate(data, base + mid, mid);
+    if (horizonCo2(trial) <= cap) [high, capped] = [mid, trial];
+    else low = mid;
+  }
+  return capped;
 }
 
-export function runSimulation(data: SystemData): SimulationResult {
+// Simulation at a given carbon price ($/t, of which shadowPrice comes from the cap)
+function simulate(
+  input: SystemData, carbonPrice: number, shadowPrice: number, onProgress?: (progress: SimulationProgress) => void,
+): SimulationResult {
+  const data = withCarbonPrice(input, carbonPrice);
   const results: SimulationResult = [];
 
-  // B-Matrix construction (Susceptance)
-  const numBuses = data.buses.length;
-  const B = createMatrix(numBuses, numBuses, 0);
-
-  data.lines.forEach(line => {
-    const fromIdx = line.fromBus - 1;
-    const toIdx = line.toBus - 1;
-    const susceptance = 1 / line.reactance;
-    
-    B[fromIdx][fromIdx] += susceptance;
-    B[toIdx][toIdx] += susceptance;
-    B[fromIdx][toIdx] -= susceptance;
-    B[toIdx][fromIdx] -= susceptance;
+  // Time model: T intervals of dt hours
+  const T = intervalCount(data);
+  const dt = intervalHours(data);
+  onProgress?.({ stage: 'Commitment', done: 0, total: T });
+
+  // Network per interval without the lines on scheduled outage, built once per topology
+  const outages = Array.from({ length: T }, (_, t) => outagesAt(data, t));
+  const topologies = new Map<string, NetworkModel>();
+  const nets = outages.map(out => {
+    const key = [...out.lines].sort().join(',');
+    if (!topologies.has(key)) topologies.set(key, buildNetwork(data, out.lines));
+    return topologies.get(key)!;
   });
 
-  // Reduced B matrix for DC Flow (Remove Slack Bus, usually Bus 1)
-  const slackBusIdx = 0; // Bus 1 is slack
-  const B_reduced: number[][] = [];
-  for (let i = 0; i < numBuses; i++) {
-    if (i === slackBusIdx) continue;
-    const row: number[] = [];
-    for (let j = 0; j < numBuses; j++) {
-      if (j === slackBusIdx) continue;
-      row.push(B[i][j]);
+  // Loads per interval: each bus follows its own profile (or the system profile)
+  const hourlyBusLoads = busLoadsByHour(data, T);
+  const hourlyLoads = hourlyBusLoads.map(loads => loads.reduce((a, b) => a + b, 0));
+
+  const units = hourlyGenerators(data, T);
+  const window = Math.min(MAX_WINDOW_INTERVALS, Math.max(1, Math.round(WINDOW_HOURS / dt)));
+
+  // --- SCUC (Security Constrained Unit Commitment) ---
+  // Commitment for the whole horizon at once (startup cost, min up/down times)
+  // Committed capacity has to cover the spinning reserve requirements, and the
+  // minimum outputs of every SCED window have to fit the energy budgets, plus extra
+  // capacity (MW per interval) where the dispatch had to shed load
+  const reserves = spinningRequirement(data, hourlyBusLoads);
+  const commitmentUnits = commitmentGenerators(data, T);
+  const unitOutages = outages.map(out => data.generators.map(g => out.generators.has(g.id)));
+  const budgets = data.generators.map(g => energyBudget(g, dt));
+  const commit = (extra: number[]) => solveUnitCommitment(
+    data.generators, hourlyLoads, reserves.map((mw, t) => mw + extra[t]), commitmentUnits, dt, unitOutages, budgets, window);
+  const profiled = data.generators.filter(g => data.availabilityProfiles?.[g.id]?.length);
+
+  // --- SCED (Security Constrained Economic Dispatch) ---
+  // LP dispatch per window: line limits via PTDFs, ramp limits between intervals,
+  // nodal prices from the duals
+  const requirements = data.reserveRequirements ?? [];
+  const storage = data.storage ?? [];
+  // Sub-hourly windows are shorter than a day: storage then ends every window at the
+  // energy of an hourly run at that time, otherwise at its final SOC every day
+  const plan = dt < 1 && storage.length > 0
+    ? simulate({ ...data, timeModel: { intervalMinutes: 60, horizonHours: horizonHours(data) } }, 0, 0)
+    : null;
+  const windowTarget = (st: StorageUnit, last: number) => {
+    const planned = last < T ? plan?.[Math.round(hourOf(data, last)) - 1]?.storageSoc[st.id] : undefined;
+    return planned !== undefined ? planned / st.energyMWh : st.finalSoc ?? st.initialSoc;
+  };
+  const dispatchHorizon = (status: boolean[][], violations: Violation[][]) => {
+    onProgress?.({ stage: 'Dispatch', done: 0, total: T });
+    const sced: ScedResult[] = [];
+    const energy: Record<string, number> = Object.fromEntries(storage.map(st => [st.id, initialEnergy(st)]));
+    for (let first = 0; first < T; first += window) {
+      const last = Math.min(T, first + window);
+      // Later windows start from the end of the previous one
+      const windowData: SystemData = {
+        ...data,
+        generators: first === 0 ? data.generators : data.generators.map((g, i) => ({
+          ...g, initialStatus: status[first - 1][i] ? 1 : -1, initialOutput: sced[first - 1].output[g.id],
+        })),
+        storage: storage.map(st => ({ ...st, initialSoc: energy[st.id] / st.energyMWh, finalSoc: windowTarget(st, last) })),
+      };
+      const windowResults = dispatchWindow(
+        windowData, nets.slice(first, last), status.slice(first, last), hourlyBusLoads.slice(first, last), first, violations.slice(first, last));
+      windowResults.forEach(r => storage.forEach(st => { energy[st.id] = r.storageSoc[st.id] ?? energy[st.id]; }));
+      sced.push(...windowResults);
+      onProgress?.({ stage: 'Dispatch', done: last, total: T });
     }
-    B_reduced.push(row);
-  }
+    return sced;
+  };
 
-  // Iterate through 24 hours
-  for (let h = 0; h < 24; h++) {
-    const loadFactor = data.loadProfile[h];
-    const busLoads = data.buses.map(b => b.baseLoad * loadFactor);
-    const totalLoad = busLoads.reduce((a, b) => a + b, 0);
-
-    // --- SCUC (Security Constrained Unit Commitment) ---
-    // Simplified: Priority List based on Avg Cost at Max Output
-    // In real SCUC, we solve MIP. Here we simulate "Merit Order Commitment".
-    const sortedGens = [...data.generators].sort((a, b) => {
-      const costA = (a.costB * a.pMax + a.costC) / a.pMax;
-      const costB = (b.costB * b.pMax + b.costC) / b.pMax;
-      return costA - costB;
+  // At short intervals the committed units may not ramp fast enough to follow the load,
+  // although their capacity covers it. Where load is shed while a unit is held at its ramp
+  // limit and other units are off, the commitment has to cover the shed load on top of
+  // the capacity it had committed, and both are solved again. Stops when a round sheds
+  // no less than the one before, and keeps the better one.
+  const shedOf = (r: ScedResult) => Object.values(r.unservedLoad).reduce((a, b) => a + b, 0);
+  const extra = hourlyLoads.map(() => 0);
+  let commitment = commit(extra);
+  let violations: Violation[][] = hourlyLoads.map(() => []);
+  let sced = dispatchHorizon(commitment.status, violations);
+  for (let round = 0; round < MAX_RECOMMIT_ROUNDS; round++) {
+    let short = false;
+    sced.forEach((r, t) => {
+      const rampHeld = Object.values(r.rampShadowPrices).some(price => price > 1e-6);
+      const offline = data.generators.some((g, i) => !commitment.status[t][i] && !unitOutages[t][i] && units[t][i].pMax > 0);
+      if (shedOf(r) <= 1e-6 || !rampHeld || !offline) return;
+      const capacity = commitmentUnits[t].reduce((sum, g, i) => sum + (commitment.status[t][i] ? g.pMax : 0), 0);
+      extra[t] = Math.max(extra[t], capacity + shedOf(r) - hourlyLoads[t] - reserves[t]);
+      short = true;
     });
+    if (!short) break;
+    const trialCommitment = commit(extra);
+    const trialViolations: Violation[][] = hourlyLoads.map(() => []);
+    const trial = dispatchHorizon(trialCommitment.status, trialViolations);
+    const total = (results: ScedResult[]) => results.reduce((sum, r) => sum + shedOf(r), 0);
+    if (total(trial) >= total(sced) - 1e-6) break;
+    [commitment, violations, sced] = [trialCommitment, trialViolations, trial];
+  }
+
+  // Storage energy carried from interval to interval; intervals without a schedule leave it idle
+  const soc: Record<string, number> = Object.fromEntries(storage.map(st => [st.id, initialEnergy(st)]));
+
+  // Iterate through the intervals
+  for (let t = 0; t < T; t++) {
+    const net = nets[t];
+    const busLoads = hourlyBusLoads[t];
+    const totalLoad = hourlyLoads[t];
 
     const genStatus: Record<string, boolean> = {};
-    let committedCap = 0;
-    // Simple Reserve Margin Requirement (e.g., 10%)
-    const targetCap = totalLoad * 1.10; 
-
-    for (const gen of sortedGens) {
-      if (committedCap < targetCap) {
-        genStatus[gen.id] = true;
-        committedCap += gen.pMax;
-      } else {
-        genStatus[gen.id] = false;
+    const startups: string[] = [];
+    const shutdowns: string[] = [];
+    let startupCost = 0;
+    data.generators.forEach((g, i) => {
+      genStatus[g.id] = commitment.status[t][i];
+      if (commitment.startups[t][i]) {
+        startups.push(g.id);
+        startupCost += g.startUpCost;
       }
+      if (commitment.shutdowns[t][i]) shutdowns.push(g.id);
+    });
+
+    const committedGens = data.generators.filter(g => genStatus[g.id]);
+    let dispatch = sced[t];
+
+    if (!dispatch.feasible) {
+      // No dispatch satisfies the line limits: fall back to merit order and report the overloads.
+      // A shortage is shed in proportion to the bus loads, a surplus curtailed in proportion to Pmin.
+      // Units with an energy budget run at most at its average rate.
+      violations[t].push(violation('ScedInfeasible', t, 'SCED 无可行解: 按经济顺序调度'));
+      const ed = economicDispatch(units[t].filter(g => genStatus[g.id]).map(budgetRateGenerator), totalLoad);
+      const unservedLoad: Record<number, number> = {};
+      const overGeneration: Record<number, number> = {};
+      const withdrawals = [...busLoads];
+      if (ed.mismatch > 1e-6) {
+        data.buses.forEach((b, i) => {
+          if (busLoads[i] <= 0) return;
+          unservedLoad[b.id] = ed.mismatch * busLoads[i] / totalLoad;
+          withdrawals[i] -= unservedLoad[b.id];
+        });
+      } else if (ed.mismatch < -1e-6) {
+        const pMinTotal = committedGens.reduce((sum, g) => sum + g.pMin, 0);
+        committedGens.forEach(g => {
+          const mw = -ed.mismatch * g.pMin / pMinTotal;
+          overGeneration[g.busId] = (overGeneration[g.busId] || 0) + mw;
+          withdrawals[busIdx(net, g.busId)] += mw;
+        });
+      }
+      const P_inj = withdrawals.map(w => -w);
+      committedGens.forEach(g => { P_inj[busIdx(net, g.busId)] += ed.output[g.id]; });
+      const price = ed.mismatch > 1e-6 ? valueOfLostLoad(data) : ed.mismatch < -1e-6 ? -overGenerationPenalty(data) : ed.lambda;
+      const lmp: Record<number, number> = {};
+      const lmpCongestion: Record<number, number> = {};
+      const lmpLoss: Record<number, number> = {};
+      data.buses.forEach(b => { lmp[b.id] = price; lmpCongestion[b.id] = 0; lmpLoss[b.id] = 0; });
+      dispatch = {
+        feasible: false,
+        output: ed.output,
+        cost: ed.cost,
+        lineFlows: computeLineFlows(net, P_inj),
+        lmp,
+        lmpEnergy: price,
+        islandEnergy: net.islands.map(() => price),
+        lmpCongestion,
+        lmpLoss, // Losses are not supplied in the fallback
+        losses: 0,
+        lineShadowPrices: {},
+        bindingContingencies: [],
+        rampShadowPrices: {},
+        reserveAwards: {},
+        reserveRequired: Object.fromEntries(requirements.map(req => [req.id, reserveRequirementMW(data, req, busLoads)])),
+        reservePrices: {}, // Reserves are not scheduled in the fallback
+        reserveShortfall: {},
+        reserveCost: 0,
+        unservedLoad,
+        overGeneration,
+        storageOutput: {},
+        storageSoc: {},
+        demandServed: {}, // Demand bids are not cleared, interruptible load is served
+        budgetOverruns: {},
+        busWithdrawals: withdrawals,
+      };
     }
 
-    // --- SCED (Security Constrained Economic Dispatch) ---
-    // Simplified: Iterative Lambda Search + Congestion Relief Heuristic
-
-    // 1. Initial Unconstrained Economic Dispatch (Equal Lambda / Merit Order)
-    // We'll use a simple merit order fill for stability in this demo
-    const genOutput: Record<string, number> = {};
-    let remainingLoad = totalLoad;
-    let systemCost = 0;
-
-    const committedGens = data.generators.filter(g => genStatus[g.id]).sort((a, b) => a.costB - b.costB);
-    
-    // Set all to Pmin first
-    committedGens.forEach(g => {
-      genOutput[g.id] = g.pMin;
-      remainingLoad -= g.pMin;
-      systemCost += g.costC + g.costB * g.pMin; // Startup cost omitted for simplicity in hourly loop
+    // Requested vs served demand; bids are valued at their bid prices
+    const demandServed: Record<string, number> = {};
+    let requestedLoad = totalLoad;
+    let demandWelfare = 0;
+    (data.demandBids ?? []).forEach(bid => {
+      const mw = dispatch.demandServed[bid.id] ?? (bid.interruptible ? bidMW(data, bid, t) : 0);
+      demandServed[bid.id] = mw;
+      demandWelfare += mw * bid.price * dt;
+      if (!bid.interruptible) requestedLoad += bidMW(data, bid, t);
     });
+    const notCleared = (data.demandBids ?? []).reduce((sum, bid) => sum + bidMW(data, bid, t) - demandServed[bid.id], 0);
+    const shed = Object.values(dispatch.unservedLoad).reduce((a, b) => a + b, 0);
+    const servedLoad = requestedLoad - shed - notCleared;
 
-    // Fill remaining load with cheapest available
-    for (const g of committedGens) {
-      if (remainingLoad <= 0) break;
-      const available = g.pMax - g.pMin;
-      const take = Math.min(available, remainingLoad);
-      genOutput[g.id] += take;
-      remainingLoad -= take;
-      systemCost += take * g.costB;
-    }
+    const storageOutput: Record<string, number> = {};
+    storage.forEach(st => {
+      storageOutput[st.id] = dispatch.storageOutput[st.id] ?? 0;
+      soc[st.id] = dispatch.storageSoc[st.id] ?? soc[st.id];
+    });
 
-    // 2. DC Power Flow Calculation
-    // P_inj = P_gen - P_load
-    const P_inj = Array(numBuses).fill(0);
-    
-    // Sum Generation per bus
-    data.generators.forEach(g => {
-      if (genStatus[g.id]) {
-        P_inj[g.busId - 1] += genOutput[g.id];
-      }
+    // Curtailment of units with an availability profile: congestion when the
+    // unit's bus is priced below the reference bus, otherwise a system-wide surplus
+    const curtailment: HourlyDispatch['curtailment'] = {};
+    let netLoad = totalLoad;
+    profiled.forEach(g => {
+      const available = units[t][data.generators.indexOf(g)].pMax;
+      netLoad -= available;
+      const mw = available - (dispatch.output[g.id] ?? 0);
+      if (mw <= 1e-6) return;
+      const congested = (dispatch.lmpCongestion[g.busId] ?? 0) < -1e-6;
+      curtailment[g.id] = { mw, available, reason: congested ? 'Congestion' : 'Surplus' };
+      violations[t].push(violation('Curtailment', t, `机组 ${g.id} 弃电 ${mw.toFixed(1)} MW (${congested ? '阻塞' : '电量过剩'})`,
+        { elementId: g.id, value: mw, limit: available }));
     });
-    // Subtract Load per bus
-    busLoads.forEach((load, idx) => {
-      P_inj[idx] -= load;
+
+    // Load shedding and over-generation as structured events
+    const supplyEvents: SupplyEvent[] = [
+      ...Object.entries(dispatch.unservedLoad).map(([busId, mw]) => ({
+        type: 'LoadShedding' as const, busId: Number(busId), mw, price: dispatch.lmp[Number(busId)], cost: mw * valueOfLostLoad(data) * dt,
+      })),
+      ...Object.entries(dispatch.overGeneration).map(([busId, mw]) => ({
+        type: 'OverGeneration' as const, busId: Number(busId), mw, price: dispatch.lmp[Number(busId)], cost: mw * overGenerationPenalty(data) * dt,
+      })),
+    ];
+    supplyEvents.forEach(e => {
+      violations[t].push(violation(e.type, t, `节点 ${e.busId} ${e.type === 'LoadShedding' ? '切负荷' : '弃发电'}: ${e.mw.toFixed(1)} MW`,
+        { elementId: String(e.busId), value: e.mw }));
     });
 
-    // Solve for Angles (Theta)
-    // P = B * Theta  =>  Theta = inv(B) * P
-    const P_reduced = P_inj.filter((_, i) => i !== slackBusIdx);
-    // Convert to p.u. (Assuming Base MVA = 100)
-    const P_reduced_pu = P_reduced.map(p => p / 100); 
-
-    let angles_reduced: number[] = [];
-    try {
-        angles_reduced = solveLinearSystem(B_reduced, P_reduced_pu);
-    } catch (e) {
-        angles_reduced = Array(numBuses - 1).fill(0); // Fallback
-    }
+    const genOutput = dispatch.output;
+    // Cost rates ($/h) over the interval, plus the startups in it and the shed load and
+    // over-generation at their penalties
+    const systemCost = (dispatch.cost + dispatch.reserveCost) * dt + startupCost
+      + supplyEvents.reduce((sum, e) => sum + e.cost, 0);
 
-    // Reconstruct full angles array
-    const angles = Array(numBuses).fill(0);
-    let rIdx = 0;
-    for (let i = 0; i < numBuses; i++) {
-      if (i === slackBusIdx) angles[i] = 0; // Slack reference
-      else angles[i] = angles_reduced[rIdx++];
-    }
+    Object.entries(dispatch.reserveShortfall).forEach(([id, mw]) => {
+      if (mw > 1e-6) {
+        violations[t].push(violation('ReserveShortfall', t, `备用 ${id} 短缺: ${mw.toFixed(1)} MW`, { elementId: id, value: mw, limit: dispatch.reserveRequired[id] }));
+      }
+    });
 
-    // Calculate Line Flows
+    Object.entries(dispatch.rampShadowPrices).forEach(([genId, price]) => {
+      violations[t].push(violation('RampLimit', t, `机组 ${genId} ${price > 0 ? '上' : '下'}爬坡受限: $${Math.abs(price).toFixed(2)}/MW`,
+        { elementId: genId, value: price }));
+    });
+
+    Object.entries(dispatch.budgetOverruns).forEach(([genId, { energy, budget }]) => {
+      violations[t].push(violation('EnergyBudget', t, `机组 ${genId} 超出电量预算: ${energy.toFixed(1)} / ${budget.toFixed(1)} MWh`,
+        { elementId: genId, value: energy, limit: budget }));
+    });
+
+    // Line Flows
     const lineFlows: Record<string, number> = {};
     const lineLoading: Record<string, number> = {};
-    const alerts: string[] = [];
 
-    data.lines.forEach(line => {
-      const fromIdx = line.fromBus - 1;
-      const toIdx = line.toBus - 1;
-      const flow = (angles[fromIdx] - angles[toIdx]) / line.reactance * 100; // *100 for Base MVA
+    data.lines.forEach((line, l) => {
+      const flow = dispatch.lineFlows[l];
       lineFlows[line.id] = flow;
       const loading = Math.abs(flow) / line.capacity * 100;
       lineLoading[line.id] = loading;
 
-      if (loading > 100) {
-        alerts.push(`线路 ${line.fromBus}-${line.toBus} 过载: ${loading.toFixed(1)}%`);
-        // Note: Real SCED would re-run dispatch here with line constraints (LMP).
-        // For this demo, we just report the violation to show "why SCED is needed".
+      if (loading > 100 + 1e-6) {
+        violations[t].push(violation('LineOverload', t, `线路 ${line.fromBus}-${line.toBus} 过载: ${loading.toFixed(1)}%`,
+          { elementId: line.id, value: loading, limit: 100 }));
       }
     });
 
-    // Marginal Unit (Simplified LMP)
-    // Find the most expensive unit that is not at max
-    const marginalGen = committedGens.find(g => genOutput[g.id] > g.pMin && genOutput[g.id] < g.pMax) || committedGens[committedGens.length-1];
-    const systemLambda = marginalGen ? marginalGen.costB : 0;
-    
-    // Assign uniform LMP for this unconstrained pass (in real SCED, LMPs vary by bus due to congestion)
-    const lmp: Record<number, number> = {};
-    data.buses.forEach(b => lmp[b.id] = systemLambda);
+    if (net.islands.length > 1) {
+      violations[t].push(violation('Islanding', t, `电网分为 ${net.islands.length} 个电气岛: 各岛分别平衡`, { value: net.islands.length }));
+    }
+
+    // N-1 screening of the final dispatch
+    const contingencies = screenContingencies(data, net, committedGens, genOutput, dispatch.busWithdrawals);
+    contingencies.forEach(c => {
+      c.overloads.forEach(o => {
+        violations[t].push(violation('ContingencyOverload', t, `N-1 断开 ${c.id} 后线路 ${o.lineId} 过载: ${o.loading.toFixed(1)}%`,
+          { elementId: o.lineId, value: o.loading, limit: 100 }));
+      });
+    });
+
+    // AC power flow check of the final dispatch
+    const acFlow = data.acPowerFlow
+      ? solveAcFlow(data, net, genStatus, genOutput, dispatch.busWithdrawals, data.buses.map(b => busReactiveLoad(data, b, t)))
+      : null;
+    if (acFlow && !acFlow.converged) violations[t].push(violation('AcNotConverged', t, 'AC 潮流不收敛', { value: acFlow.iterations }));
+    acFlow?.violations.forEach(v => {
+      const fields = { elementId: v.id, value: v.value, limit: v.limit };
+      if (v.type === 'Voltage') violations[t].push(violation('Voltage', t, `节点 ${v.id} 电压越限: ${v.value.toFixed(3)} p.u.`, fields));
+      else if (v.type === 'ReactiveLimit') violations[t].push(violation('ReactiveLimit', t, `节点 ${v.id} 无功越限: ${v.value.toFixed(1)} MVAr`, fields));
+      else violations[t].push(violation('AcOverload', t, `线路 ${v.id} AC 过载: ${v.value.toFixed(1)}%`, fields));
+    });
+
+    // Emissions of the committed units; their carbon cost is already in the offers
+    const emissions = Object.fromEntries(committedGens.map(g => [g.id, unitEmissions(g, (genOutput[g.id] ?? 0) * dt)]));
+    const carbonCost = Object.values(emissions).reduce((sum, e) => sum + e.co2, 0) * carbonPrice;
 
     results.push({
-      hour: h,
+      interval: t,
+      hour: hourOf(data, t),
       totalLoad,
+      requestedLoad,
+      servedLoad,
+      demandServed,
+      demandWelfare,
+      busWithdrawals: Object.fromEntries(data.buses.map((b, i) => [b.id, dispatch.busWithdrawals[i]])),
+      netLoad,
       genStatus,
       genOutput,
+      startups,
+      shutdowns,
       lineFlows,
       lineLoading,
       systemCost,
-      lmp,
-      alerts
+      startupCost,
+      outages: [...outages[t].lines, ...outages[t].generators],
+      islands: net.islands.map(island => island.map(i => data.buses[i].id)),
+      lmp: dispatch.lmp,
+      lmpEnergy: dispatch.lmpEnergy,
+      islandEnergy: dispatch.islandEnergy,
+      lmpCongestion: dispatch.lmpCongestion,
+      lmpLoss: dispatch.lmpLoss,
+      losses: dispatch.losses,
+      lossCost: dispatch.losses * dispatch.lmpEnergy * dt,
+      lineShadowPrices: dispatch.lineShadowPrices,
+      congested: Object.keys(dispatch.lineShadowPrices).length > 0 || dispatch.bindingContingencies.length > 0,
+      contingencies,
+      bindingContingencies: dispatch.bindingContingencies,
+      rampShadowPrices: dispatch.rampShadowPrices,
+      reserveAwards: dispatch.reserveAwards,
+      reserveRequired: dispatch.reserveRequired,
+      reservePrices: dispatch.reservePrices,
+      reserveShortfall: dispatch.reserveShortfall,
+      reserveCost: dispatch.reserveCost * dt,
+      supplyEvents,
+      storageOutput,
+      storageSoc: { ...soc },
+      curtailment,
+      acFlow,
+      emissions,
+      carbonPrice,
+      carbonShadowPrice: shadowPrice,
+      carbonCost,
+      violations: violations[t]
     });
+    onProgress?.({ stage: 'Results', done: t + 1, total: T });
   }
 
   return results;
@@ -0,0 +1,27 @@
+import { SimulationProgress, SimulationResult, SystemData } from './types';
+import { runSimulation } from './simulation';
+
+// Worker side of the simulation runner (runner.ts): one run per request,
+// progress messages while it runs, then the result or the error.
+
+export interface SimulationRequest {
+  id: number;
+  data: SystemData;
+}
+
+export type SimulationMessage =
+  | { id: number; type: 'Progress'; progress: SimulationProgress }
+  | { id: number; type: 'Result'; results: SimulationResult }
+  | { id: number; type: 'Error'; message: string };
+
+const post = (message: SimulationMessage) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<SimulationRequest>) => {
+  const { id, data } = e.data;
+  try {
+    const results = runSimulation(data, progress => post({ id, type: 'Progress', progress }));
+    post({ id, type: 'Result', results });
+  } catch (error) {
+    post({ id, type: 'Error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
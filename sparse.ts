@@ -0,0 +1,106 @@
+// Sparse LU factorization for the network matrices (B for the DC flow, the
+// Newton-Raphson Jacobian for the AC flow). Both are structurally symmetric with
+// a strong diagonal, so the pivots are taken on the diagonal in a minimum-degree
+// order (which keeps the fill-in of a meshed grid small) without row exchanges.
+// A factorization is computed once and reused for any number of right-hand sides.
+
+// Rows of a square matrix: column index -> value
+export type SparseMatrix = Map<number, number>[];
+
+export interface SparseFactor {
+  order: number[]; // order[k]: original index eliminated k-th
+  position: number[]; // position[i]: elimination step of original index i
+  lower: [number, number][][]; // lower[k]: [step j < k, L_kj] (unit diagonal)
+  upper: [number, number][][]; // upper[k]: [step j > k, U_kj]
+  pivot: number[]; // U_kk
+}
+
+export const createSparseMatrix = (n: number): SparseMatrix => Array.from({ length: n }, () => new Map<number, number>());
+
+// A[i][j] += value
+export function addEntry(A: SparseMatrix, i: number, j: number, value: number) {
+  A[i].set(j, (A[i].get(j) ?? 0) + value);
+}
+
+// Minimum-degree elimination order of the (symmetrized) pattern of A
+export function minimumDegreeOrder(A: SparseMatrix): number[] {
+  const n = A.length;
+  const adj = A.map(() => new Set<number>());
+  A.forEach((row, i) => row.forEach((_, j) => {
+    if (i === j) return;
+    adj[i].add(j);
+    adj[j].add(i);
+  }));
+
+  const done = Array(n).fill(false);
+  const order: number[] = [];
+  for (let step = 0; step < n; step++) {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (!done[i] && (best < 0 || adj[i].size < adj[best].size)) best = i;
+    }
+    done[best] = true;
+    order.push(best);
+    // The remaining neighbours of the eliminated node become a clique (fill-in)
+    const neighbours = [...adj[best]];
+    neighbours.forEach(u => {
+      adj[u].delete(best);
+      neighbours.forEach(w => { if (w !== u) adj[u].add(w); });
+    });
+    adj[best].clear();
+  }
+  return order;
+}
+
+// LU factors of A; `order` can be passed when the pattern is known to repeat
+export function factorize(A: SparseMatrix, order = minimumDegreeOrder(A)): SparseFactor {
+  const n = A.length;
+  const position = Array(n).fill(0);
+  order.forEach((i, k) => { position[i] = k; });
+
+  // Working rows in elimination order; the pattern stays symmetric as the fill is
+  // added to both the row and the column of every pivot
+  const rows: Map<number, number>[] = order.map(i => {
+    const row = new Map<number, number>();
+    A[i].forEach((value, j) => row.set(position[j], value));
+    return row;
+  });
+  rows.forEach((row, k) => row.forEach((_, j) => { if (!rows[j].has(k)) rows[j].set(k, 0); }));
+
+  const lower: [number, number][][] = order.map(() => []);
+  const upper: [number, number][][] = order.map(() => []);
+  const pivot = Array(n).fill(0);
+  for (let k = 0; k < n; k++) {
+    pivot[k] = rows[k].get(k) ?? 0;
+    rows[k].forEach((value, j) => { if (j > k) upper[k].push([j, value]); });
+    // Rows below with an entry in column k are exactly the columns of U's row k
+    upper[k].forEach(([i]) => {
+      const l = (rows[i].get(k) ?? 0) / pivot[k];
+      rows[i].delete(k);
+      lower[i].push([k, l]);
+      if (l === 0) {
+        upper[k].forEach(([j]) => { if (!rows[i].has(j)) rows[i].set(j, 0); });
+        return;
+      }
+      upper[k].forEach(([j, u]) => rows[i].set(j, (rows[i].get(j) ?? 0) - l * u));
+    });
+    rows[k].clear();
+  }
+  return { order, position, lower, upper, pivot };
+}
+
+// Solve A x = b with the factors of A
+export function solveFactored(f: SparseFactor, b: number[]): number[] {
+  const n = f.order.length;
+  const y = f.order.map(i => b[i]);
+  for (let k = 0; k < n; k++) {
+    f.lower[k].forEach(([j, l]) => { y[k] -= l * y[j]; });
+  }
+  for (let k = n - 1; k >= 0; k--) {
+    f.upper[k].forEach(([j, u]) => { y[k] -= u * y[j]; });
+    y[k] /= f.pivot[k];
+  }
+  const x = Array(n).fill(0);
+  f.order.forEach((i, k) => { x[i] = y[k]; });
+  return x;
+}
@@ -0,0 +1,14 @@
+import { StorageUnit } from './types';
+
+// Storage energy limits (MWh)
+
+export const minEnergy = (s: StorageUnit) => (s.minSoc ?? 0) * s.energyMWh;
+export const maxEnergy = (s: StorageUnit) => (s.maxSoc ?? 1) * s.energyMWh;
+export const initialEnergy = (s: StorageUnit) => s.initialSoc * s.energyMWh;
+
+// Energy required at the end of a horizon of `hours`, lowered to what charging at full power can reach
+export function finalEnergyTarget(s: StorageUnit, hours: number): number {
+  const target = (s.finalSoc ?? s.initialSoc) * s.energyMWh;
+  const reachable = initialEnergy(s) + hours * s.chargeMW * s.chargeEfficiency;
+  return Math.min(target, reachable, maxEnergy(s));
+}
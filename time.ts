@@ -0,0 +1,36 @@
+import { SystemData } from './types';
+
+// Time model: dispatch intervals of 5, 15 or 60 minutes over a horizon of one
+// or more days. Profiles stay hourly and repeat when shorter than the horizon
+// (a 168-value profile describes a week); sub-hourly intervals interpolate
+// linearly between the hourly values.
+
+export const intervalMinutes = (data: SystemData) => data.timeModel?.intervalMinutes ?? 60;
+export const intervalHours = (data: SystemData) => intervalMinutes(data) / 60;
+export const horizonHours = (data: SystemData) => data.timeModel?.horizonHours ?? 24;
+
+// Number of intervals in the horizon
+export const intervalCount = (data: SystemData) =>
+  Math.max(1, Math.round(horizonHours(data) * 60 / intervalMinutes(data)));
+
+// Start of interval t in hours since the start of the horizon
+export const hourOf = (data: SystemData, t: number) => t * intervalHours(data);
+
+// A duration in hours as a whole number of intervals (at least one)
+export const toIntervals = (data: SystemData, hours: number) => Math.max(1, Math.round(hours / intervalHours(data)));
+
+// Value of an hourly profile at a (fractional) hour
+export function profileAt(profile: number[], hour: number): number {
+  const n = profile.length;
+  const h = Math.floor(hour);
+  const frac = hour - h;
+  const value = profile[((h % n) + n) % n];
+  return frac < 1e-9 ? value : value + frac * (profile[(h + 1) % n] - value);
+}
+
+// "13:15", or "D2 13:15" on multi-day horizons
+export function intervalLabel(data: SystemData, t: number): string {
+  const minutes = Math.round(hourOf(data, t) * 60);
+  const clock = `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return horizonHours(data) > 24 ? `D${Math.floor(minutes / 1440) + 1} ${clock}` : clock;
+}
@@ -0,0 +1,167 @@
+import { Diagnostic, Outage, SystemData } from './types';
+import { hourOf, intervalCount } from './time';
+
+// Topology and data validation, run before the simulation.
+// Errors (broken references, duplicate ids, unusable parameters) stop the
+// simulation; warnings (islands, a missing slack) describe how the case will be
+// solved. Scheduled outages take lines and units out of service interval by
+// interval; each island left by them is solved with its own reference bus.
+
+export interface OutageSet {
+  lines: Set<string>;
+  generators: Set<string>;
+}
+
+const active = (o: Outage, hour: number) => hour >= o.startHour && hour < o.endHour;
+
+// Lines and units on scheduled outage in interval t
+export function outagesAt(data: SystemData, t: number): OutageSet {
+  const hour = hourOf(data, t);
+  const out: OutageSet = { lines: new Set(), generators: new Set() };
+  (data.outages ?? []).forEach(o => {
+    if (active(o, hour)) (o.type === 'Line' ? out.lines : out.generators).add(o.elementId);
+  });
+  return out;
+}
+
+// Whether a line or unit is on scheduled outage in interval t
+export const onOutage = (data: SystemData, type: Outage['type'], elementId: string, t: number) =>
+  (data.outages ?? []).some(o => o.type === type && o.elementId === elementId && active(o, hourOf(data, t)));
+
+// Connected groups of buses (indices into data.buses) over the lines in service
+export function findIslands(data: SystemData, inService: boolean[]): number[][] {
+  const index = new Map(data.buses.map((b, i) => [b.id, i]));
+  const parent = data.buses.map((_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  data.lines.forEach((line, l) => {
+    const from = index.get(line.fromBus);
+    const to = index.get(line.toBus);
+    if (!inService[l] || from === undefined || to === undefined) return;
+    parent[root(from)] = root(to);
+  });
+  const groups = new Map<number, number[]>();
+  data.buses.forEach((_, i) => {
+    const r = root(i);
+    if (!groups.has(r)) groups.set(r, []);
+    groups.get(r)!.push(i);
+  });
+  return [...groups.values()];
+}
+
+function duplicates<T>(ids: T[]): T[] {
+  const seen = new Set<T>();
+  const repeated = new Set<T>();
+  ids.forEach(id => (seen.has(id) ? repeated.add(id) : seen.add(id)));
+  return [...repeated];
+}
+
+const busList = (data: SystemData, island: number[]) => island.map(i => data.buses[i].id).join(', ');
+
+// Islands of one topology: a split network is solved island by island,
+// loads in an island without generation cannot be served
+function islandDiagnostics(data: SystemData, inService: boolean[], interval?: number): Diagnostic[] {
+  const islands = findIslands(data, inService);
+  if (islands.length <= 1) return [];
+  const when = interval === undefined ? '' : `时段 ${interval + 1} 起`;
+  const diagnostics: Diagnostic[] = [{
+    severity: 'Warning', code: 'Island', interval,
+    message: `${when}网络分为 ${islands.length} 个电气岛, 各岛分别平衡`,
+  }];
+  islands.forEach(island => {
+    const ids = new Set(island.map(i => data.buses[i].id));
+    const hasSupply = data.generators.some(g => ids.has(g.busId)) || (data.storage ?? []).some(st => ids.has(st.busId));
+    const hasLoad = island.some(i => data.buses[i].baseLoad > 0);
+    if (hasLoad && !hasSupply) {
+      diagnostics.push({
+        severity: 'Warning', code: 'Island', interval, elementId: String(data.buses[island[0]].id),
+        message: `${when}节点 ${busList(data, island)} 无电源, 负荷将被切除`,
+      });
+    }
+  });
+  return diagnostics;
+}
+
+export const hasErrors = (diagnostics: Diagnostic[]) => diagnostics.some(d => d.severity === 'Error');
+
+export function validateSystem(data: SystemData): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const error = (code: Diagnostic['code'], message: string, elementId?: string) =>
+    diagnostics.push({ severity: 'Error', code, message, elementId });
+
+  if (data.buses.length === 0) error('MissingBus', '系统中没有节点');
+
+  // Duplicate ids per kind of element
+  const kinds: [string, (string | number)[]][] = [
+    ['节点', data.buses.map(b => b.id)],
+    ['机组', data.generators.map(g => g.id)],
+    ['线路', data.lines.map(l => l.id)],
+    ['储能', (data.storage ?? []).map(st => st.id)],
+    ['需求报价', (data.demandBids ?? []).map(bid => bid.id)],
+    ['输电权', (data.ftrs ?? []).map(f => f.id)],
+    ['检修计划', (data.outages ?? []).map(o => o.id)],
+  ];
+  kinds.forEach(([kind, ids]) => duplicates(ids).forEach(id => error('DuplicateId', `${kind} ID 重复: ${id}`, String(id))));
+
+  // References to buses
+  const busIds = new Set(data.buses.map(b => b.id));
+  const checkBus = (busId: number, owner: string, ownerId: string) => {
+    if (!busIds.has(busId)) error('MissingBus', `${owner} ${ownerId} 引用了不存在的节点 ${busId}`, ownerId);
+  };
+  data.generators.forEach(g => checkBus(g.busId, '机组', g.id));
+  (data.storage ?? []).forEach(st => checkBus(st.busId, '储能', st.id));
+  (data.demandBids ?? []).forEach(bid => checkBus(bid.busId, '需求报价', bid.id));
+  (data.ftrs ?? []).forEach(f => {
+    checkBus(f.sourceBus, '输电权', f.id);
+    checkBus(f.sinkBus, '输电权', f.id);
+  });
+  data.lines.forEach(line => {
+    checkBus(line.fromBus, '线路', line.id);
+    checkBus(line.toBus, '线路', line.id);
+  });
+
+  // Parameters the DC network and the dispatch cannot work with
+  data.lines.forEach(line => {
+    if (!(line.reactance > 0) || !Number.isFinite(line.reactance)) {
+      error('InvalidReactance', `线路 ${line.id} 电抗必须为正: ${line.reactance}`, line.id);
+    }
+    if (line.fromBus === line.toBus) error('InvalidLine', `线路 ${line.id} 两端为同一节点 ${line.fromBus}`, line.id);
+  });
+  data.generators.forEach(g => {
+    if (g.pMin > g.pMax) error('InvalidLimits', `机组 ${g.id} 最小出力 ${g.pMin} MW 大于最大出力 ${g.pMax} MW`, g.id);
+  });
+
+  // Outages must name an existing line or unit and a non-empty period
+  const lineIds = new Set(data.lines.map(l => l.id));
+  const genIds = new Set(data.generators.map(g => g.id));
+  (data.outages ?? []).forEach(o => {
+    const known = o.type === 'Line' ? lineIds : genIds;
+    if (!known.has(o.elementId)) error('MissingElement', `检修计划 ${o.id} 引用了不存在的${o.type === 'Line' ? '线路' : '机组'} ${o.elementId}`, o.id);
+    if (!(o.endHour > o.startHour)) error('InvalidLimits', `检修计划 ${o.id} 结束时间须晚于开始时间`, o.id);
+  });
+
+  // Reference bus
+  const slacks = data.buses.filter(b => b.type === 'Slack');
+  if (data.buses.length > 0 && slacks.length === 0) {
+    diagnostics.push({ severity: 'Warning', code: 'Slack', message: `未指定平衡节点: 以节点 ${data.buses[0].id} 为参考` });
+  }
+  if (slacks.length > 1) {
+    diagnostics.push({ severity: 'Warning', code: 'Slack', message: `多个平衡节点 (${slacks.map(b => b.id).join(', ')}): 以节点 ${slacks[0].id} 为参考` });
+  }
+
+  // Islands of the full network and of every outage topology in the horizon
+  if (hasErrors(diagnostics)) return diagnostics;
+  diagnostics.push(...islandDiagnostics(data, data.lines.map(() => true)));
+  let previous = '';
+  for (let t = 0; t < intervalCount(data); t++) {
+    const out = outagesAt(data, t).lines;
+    const key = [...out].sort().join(',');
+    if (key !== previous && out.size > 0) {
+      diagnostics.push(...islandDiagnostics(data, data.lines.map(line => !out.has(line.id)), t));
+    }
+    previous = key;
+  }
+  return diagnostics;
+}
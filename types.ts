@@ -1,3 +1,8 @@
+export interface OfferSegment {
+  mw: number; // Block size (MW), blocks stack from 0 MW in ascending price order
+  price: number; // $/MWh
+}
+
 export interface Generator {
   id: string;
   name: string;
@@ -7,7 +12,28 @@ export interface Generator {
   costA: number; // $/MW^2
   costB: number; // $/MW (Linear cost)
   costC: number; // No-load cost ($/hr)
+  offerCurve?: OfferSegment[]; // Piecewise-linear offer, replaces costA/costB when present
+  spinReserveCost?: number; // $/MW, default 0
+  nonSpinReserveCost?: number; // $/MW, default 0
+  maxSpinReserve?: number; // MW while online (default: pMax - pMin)
+  maxNonSpinReserve?: number; // MW while offline, quick-start units only (default 0)
   startUpCost: number;
+  minUpTime?: number; // hours, default 1
+  minDownTime?: number; // hours, default 1
+  initialStatus?: number; // hours already on (>0) or off (<0) before the horizon
+  initialOutput?: number; // MW before the horizon, when initially on
+  rampUp?: number; // MW/h, unlimited when omitted
+  rampDown?: number; // MW/h, unlimited when omitted
+  startupRamp?: number; // MW reachable in the startup interval (default: one interval of rampUp, at least pMin)
+  shutdownRamp?: number; // MW from which the unit can shut down (default: one interval of rampDown, at least pMin)
+  mustTake?: boolean; // Available output is taken unless it cannot be absorbed (curtailed as a last resort)
+  energyBudget?: number; // MWh per day (hydro), unlimited when omitted
+  qMin?: number; // MVAr, unlimited when omitted (AC power flow)
+  qMax?: number; // MVAr, unlimited when omitted (AC power flow)
+  voltageSetpoint?: number; // p.u. held at a PV or slack bus while committed (default 1.0)
+  co2Rate?: number; // t CO2 per MWh, default 0
+  noxRate?: number; // kg NOx per MWh, default 0
+  so2Rate?: number; // kg SO2 per MWh, default 0
   type: 'Thermal' | 'Hydro' | 'Renewable' | 'Nuclear';
   color: string;
 }
@@ -17,6 +43,11 @@ export interface Bus {
   name: string;
   type: 'Slack' | 'PV' | 'PQ';
   baseLoad: number; // MW
+  loadProfile?: number[]; // Hourly factors on baseLoad for this bus (default: the system profile)
+  reactiveLoad?: number; // MVAr at the base load, follows the same profile (AC power flow)
+  vMin?: number; // p.u., default 0.95
+  vMax?: number; // p.u., default 1.05
+  slackWeight?: number; // Share in a distributed slack (relative to the other buses' weights)
   x: number; // Visual coordinates 0-100
   y: number; // Visual coordinates 0-100
 }
@@ -26,26 +57,276 @@ export interface TransmissionLine {
   fromBus: number;
   toBus: number;
   reactance: number; // p.u.
-  capacity: number; // MW
+  resistance?: number; // p.u., default 0 (losses, AC power flow)
+  susceptance?: number; // p.u., total line charging, default 0 (AC power flow)
+  tap?: number; // Off-nominal transformer ratio at the from end, default 1 (AC power flow)
+  capacity: number; // MW (MVA in the AC power flow)
+  emergencyCapacity?: number; // MW, post-contingency rating (default: capacity)
+}
+
+// Battery (or other) storage: charges from and discharges into its bus.
+// SOC values are fractions of the energy rating.
+export interface StorageUnit {
+  id: string;
+  name: string;
+  busId: number;
+  chargeMW: number; // Max charging power
+  dischargeMW: number; // Max discharging power
+  energyMWh: number; // Energy rating
+  chargeEfficiency: number; // 0-1
+  dischargeEfficiency: number; // 0-1
+  initialSoc: number; // SOC before the horizon
+  finalSoc?: number; // Minimum SOC at the end of the horizon (default: initialSoc)
+  minSoc?: number; // default 0
+  maxSoc?: number; // default 1
+  color: string;
+}
+
+// Price-responsive demand: served when the price at its bus is at or below the bid
+export interface DemandBid {
+  id: string;
+  busId: number;
+  mw: number; // Block size
+  price: number; // $/MWh
+  interruptible?: boolean; // Part of the bus load that is interrupted above the bid (otherwise extra demand)
+  profile?: number[]; // Hourly factors on mw (default 1)
+}
+
+export interface ReserveRequirement {
+  id: string;
+  product: 'Spinning' | 'NonSpinning'; // Spinning awards also count towards non-spinning
+  fixedMW?: number; // MW
+  loadFraction?: number; // Share of the (zonal) load
+  buses?: number[]; // Zonal requirement: only these buses' load and units (default: whole system)
+  shortfallPrice: number; // $/MW, caps the reserve price
+}
+
+// Financial transmission right: paid the difference of the congestion components
+// of the LMPs between its sink and source for every MW held, in every interval
+export interface FinancialTransmissionRight {
+  id: string;
+  holder?: string;
+  sourceBus: number;
+  sinkBus: number;
+  mw: number;
+  kind: 'Obligation' | 'Option'; // An option is never charged when the difference is negative
+}
+
+// Scheduled outage of a line or unit, in hours since the start of the horizon
+export interface Outage {
+  id: string;
+  type: 'Line' | 'Generator';
+  elementId: string; // Line or generator id
+  startHour: number; // Out of service from
+  endHour: number; // Back in service at
+}
+
+// Result of validating a case before it is simulated; errors stop the simulation
+export interface Diagnostic {
+  severity: 'Error' | 'Warning';
+  code: 'DuplicateId' | 'MissingBus' | 'MissingElement' | 'InvalidReactance' | 'InvalidLimits' | 'InvalidLine' | 'Slack' | 'Island';
+  message: string;
+  elementId?: string; // Offending element
+  interval?: number; // First interval concerned, for outage topologies
+}
+
+// Standard case file formats that can be read and written
+export type CaseFormat = 'MATPOWER' | 'IEEE-CDF' | 'PSSE-RAW';
+
+// Problem found while reading a case file; any error rejects the file
+export interface ParseMessage {
+  severity: 'Error' | 'Warning';
+  line: number; // 1-based line in the file (0: the file as a whole)
+  message: string;
+}
+
+export interface TimeModel {
+  intervalMinutes: 5 | 15 | 60; // Dispatch interval length
+  horizonHours: number; // 24, or multi-day (48, 168, ...)
 }
 
 export interface SystemData {
   buses: Bus[];
   generators: Generator[];
   lines: TransmissionLine[];
-  loadProfile: number[]; // 24 hourly factors (0.0 - 1.5)
+  loadProfile: number[]; // Hourly factors (0.0 - 1.5), repeated when shorter than the horizon
+  timeModel?: TimeModel; // default: 60-minute intervals over 24 hours
+  securityConstrained?: boolean; // Enforce N-1 post-contingency limits in dispatch
+  reserveRequirements?: ReserveRequirement[];
+  storage?: StorageUnit[];
+  availabilityProfiles?: Record<string, number[]>; // Hourly capacity factors (0-1) per generator id
+  demandBids?: DemandBid[];
+  outages?: Outage[]; // Scheduled line and unit outages
+  ftrs?: FinancialTransmissionRight[]; // Settled after the dispatch, no effect on it
+  acPowerFlow?: boolean; // Check every interval's dispatch with an AC power flow
+  baseMVA?: number; // Per-unit base of the line impedances (default 100)
+  modelLosses?: boolean; // Supply the I²R line losses in the dispatch (needs line resistance)
+  valueOfLostLoad?: number; // $/MWh paid for shed load (default 10000)
+  overGenerationPenalty?: number; // $/MWh paid for curtailed generation (default 1000)
+  carbonPrice?: number; // $/t CO2, added to the unit offers
+  emissionCap?: number; // t CO2 over the horizon, enforced through an implied carbon price
+}
+
+// Load shedding or over-generation at a bus in one interval
+export interface SupplyEvent {
+  type: 'LoadShedding' | 'OverGeneration';
+  busId: number;
+  mw: number; // Load shed or generation curtailed
+  price: number; // LMP at the bus ($/MWh)
+  cost: number; // At VOLL or the over-generation penalty, over the interval ($)
+}
+
+export interface ContingencyResult {
+  id: string; // Outaged line or generator id
+  type: 'Line' | 'Generator';
+  islanding: boolean; // Outage splits the network or leaves no unit to pick up; not evaluated
+  maxLoading: number; // Highest post-contingency loading, % of emergency rating
+  worstLineId: string | null;
+  overloads: { lineId: string; flow: number; loading: number }[];
+}
+
+export interface BindingContingency {
+  lineId: string; // Monitored line
+  contingencyId: string; // Outaged element
+  shadowPrice: number; // $/MWh per MW, signed with the post-contingency flow direction
+}
+
+export interface AcBusVoltage {
+  vm: number; // p.u.
+  va: number; // degrees, relative to the slack bus
+}
+
+export interface AcLineFlow {
+  pFrom: number; // MW into the line at the from end
+  qFrom: number; // MVAr
+  pTo: number; // MW into the line at the to end
+  qTo: number; // MVAr
+  loading: number; // % of capacity, larger end MVA
 }
 
+export interface AcViolation {
+  type: 'Voltage' | 'Thermal' | 'ReactiveLimit';
+  id: string; // Bus id (Voltage, ReactiveLimit) or line id (Thermal)
+  value: number; // p.u., % loading or MVAr
+  limit: number;
+}
+
+// AC power flow of the final dispatch: unit outputs and bus withdrawals as dispatched,
+// the slack bus makes up the losses
+export interface AcFlowResult {
+  converged: boolean;
+  iterations: number;
+  voltages: Record<number, AcBusVoltage>;
+  lineFlows: Record<string, AcLineFlow>;
+  genReactive: Record<string, number>; // MVAr per committed unit at a voltage-controlled bus
+  slackPower: number; // MW generated at the slack bus, incl. losses
+  losses: number; // MW
+  reactiveLosses: number; // MVAr, net of line charging
+  pqBuses: number[]; // PV buses switched to PQ at a reactive limit
+  violations: AcViolation[];
+}
+
+// Available output of a unit with an availability profile that was not dispatched
+export interface Curtailment {
+  mw: number;
+  available: number; // MW
+  reason: 'Surplus' | 'Congestion'; // System-wide energy surplus, or export-limited by the network
+}
+
+export interface Emissions {
+  co2: number; // t
+  nox: number; // kg
+  so2: number; // kg
+}
+
+// Limit violation or notable condition found in a run. value and limit are in
+// the unit of the code: % loading, MW, p.u., MVAr, $/MW or t CO2.
+export type ViolationCode =
+  | 'ScedInfeasible' // No dispatch met the line limits: merit order dispatch
+  | 'SecurityRelaxed' // N-1 limits dropped from the dispatch of the window
+  | 'RampRelaxed' // Ramp limits dropped: intervals dispatched on their own
+  | 'LineOverload'
+  | 'ContingencyOverload' // Post-contingency loading (N-1 screening)
+  | 'LoadShedding'
+  | 'OverGeneration'
+  | 'Curtailment' // Available output of a profiled unit not dispatched
+  | 'ReserveShortfall'
+  | 'RampLimit' // Unit held by a ramp limit (value: shadow price)
+  | 'EnergyBudget' // Unit over its energy budget (value and limit in MWh)
+  | 'Islanding'
+  | 'AcNotConverged'
+  | 'Voltage'
+  | 'ReactiveLimit'
+  | 'AcOverload'
+  | 'EmissionCap';
+
+export interface Violation {
+  code: ViolationCode;
+  severity: 'Error' | 'Warning' | 'Info';
+  elementId?: string; // Line, unit, bus, reserve requirement or contingency element
+  interval: number;
+  value?: number;
+  limit?: number;
+  message: string;
+}
+
+// Results of one dispatch interval. MW values are interval averages, costs are
+// for the whole interval.
 export interface HourlyDispatch {
-  hour: number;
+  interval: number; // Index in the horizon
+  hour: number; // Start of the interval, hours since the start of the horizon
   totalLoad: number;
+  requestedLoad: number; // Bus loads plus the demand bids (MW)
+  servedLoad: number; // Requested load minus shed load and demand not cleared (MW)
+  demandServed: Record<string, number>; // MW per demand bid
+  demandWelfare: number; // Value of the served demand bids at their bid prices over the interval ($)
+  busWithdrawals: Record<number, number>; // Net MW taken at each bus besides the generators (load, storage, curtailment)
+  netLoad: number; // Load minus the available output of units with an availability profile
   genStatus: Record<string, boolean>; // Unit Commitment
   genOutput: Record<string, number>; // Economic Dispatch
+  startups: string[]; // Units started in this interval
+  shutdowns: string[]; // Units shut down in this interval
   lineFlows: Record<string, number>; // Power Flow
   lineLoading: Record<string, number>; // % Loading
-  systemCost: number;
-  lmp: Record<number, number>; // Locational Marginal Price (Simplified)
-  alerts: string[];
+  systemCost: number; // Production + startup + reserve cost and supply event costs over the interval ($)
+  startupCost: number; // $
+  outages: string[]; // Lines and units on scheduled outage
+  islands: number[][]; // Bus ids per electrical island, the one with the reference bus first
+  lmp: Record<number, number>; // Locational Marginal Price
+  lmpEnergy: number; // Energy component of the LMP (reference bus price)
+  islandEnergy: number[]; // Energy component per island (islandEnergy[0] = lmpEnergy)
+  lmpCongestion: Record<number, number>; // Congestion component of the LMP per bus
+  lmpLoss: Record<number, number>; // Marginal loss component of the LMP per bus
+  losses: number; // MW of line losses supplied by the dispatch (data.modelLosses)
+  lossCost: number; // Losses at the energy price over the interval ($)
+  lineShadowPrices: Record<string, number>; // Binding lines, $/MWh per MW (signed with flow direction)
+  congested: boolean; // Dispatch was constrained by at least one line limit
+  contingencies: ContingencyResult[]; // N-1 screening of the final dispatch
+  bindingContingencies: BindingContingency[]; // Post-contingency limits that constrained dispatch
+  rampShadowPrices: Record<string, number>; // Units held by a ramp limit, $/MW (+ up, - down)
+  reserveAwards: Record<string, { spinning: number; nonSpinning: number }>; // MW per unit
+  reserveRequired: Record<string, number>; // MW per requirement id
+  reservePrices: Record<string, number>; // $/MW shadow price per requirement id
+  reserveShortfall: Record<string, number>; // MW per requirement id
+  reserveCost: number; // $ over the interval
+  supplyEvents: SupplyEvent[]; // Load shedding and over-generation
+  storageOutput: Record<string, number>; // MW per storage unit, + discharging / - charging
+  storageSoc: Record<string, number>; // MWh per storage unit at the end of the interval
+  curtailment: Record<string, Curtailment>; // Per unit with an availability profile
+  acFlow: AcFlowResult | null; // With data.acPowerFlow
+  emissions: Record<string, Emissions>; // Per committed unit over the interval
+  carbonPrice: number; // $/t CO2 in the offers: data.carbonPrice plus the cap's shadow price
+  carbonShadowPrice: number; // $/t CO2 implied by the emission cap (0 when not binding)
+  carbonCost: number; // $ over the interval, part of systemCost
+  violations: Violation[];
 }
 
 export type SimulationResult = HourlyDispatch[];
+
+// Progress of a run: commitment, then the dispatch windows, then the per-interval
+// results (N-1 screening, AC power flow); done and total count intervals
+export interface SimulationProgress {
+  stage: 'EmissionCap' | 'Commitment' | 'Dispatch' | 'Results'; // EmissionCap: done and total count carbon price runs
+  done: number;
+  total: number;
+}
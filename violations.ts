@@ -0,0 +1,77 @@
+import { SimulationResult, Violation, ViolationCode } from './types';
+
+// Violations of a run: the severity of each code, the constructor the
+// simulation reports them with, and filtering for the views and exports.
+
+export const VIOLATION_SEVERITY: Record<ViolationCode, Violation['severity']> = {
+  ScedInfeasible: 'Error',
+  SecurityRelaxed: 'Warning',
+  RampRelaxed: 'Warning',
+  LineOverload: 'Error',
+  ContingencyOverload: 'Warning',
+  LoadShedding: 'Error',
+  OverGeneration: 'Warning',
+  Curtailment: 'Info',
+  ReserveShortfall: 'Warning',
+  RampLimit: 'Info',
+  EnergyBudget: 'Warning',
+  Islanding: 'Warning',
+  AcNotConverged: 'Error',
+  Voltage: 'Warning',
+  ReactiveLimit: 'Warning',
+  AcOverload: 'Warning',
+  EmissionCap: 'Error',
+};
+
+export const VIOLATION_LABELS: Record<ViolationCode, string> = {
+  ScedInfeasible: 'SCED 无可行解',
+  SecurityRelaxed: 'N-1 约束放松',
+  RampRelaxed: '爬坡约束放松',
+  LineOverload: '线路过载',
+  ContingencyOverload: 'N-1 过载',
+  LoadShedding: '切负荷',
+  OverGeneration: '弃发电',
+  Curtailment: '弃电',
+  ReserveShortfall: '备用短缺',
+  RampLimit: '爬坡受限',
+  EnergyBudget: '电量预算超限',
+  Islanding: '电气岛',
+  AcNotConverged: 'AC 不收敛',
+  Voltage: '电压越限',
+  ReactiveLimit: '无功越限',
+  AcOverload: 'AC 过载',
+  EmissionCap: '排放上限',
+};
+
+export const SEVERITY_LABELS: Record<Violation['severity'], string> = { Error: '错误', Warning: '警告', Info: '提示' };
+
+export const violation = (
+  code: ViolationCode, interval: number, message: string, fields: Pick<Violation, 'elementId' | 'value' | 'limit'> = {},
+): Violation => ({ code, severity: VIOLATION_SEVERITY[code], interval, message, ...fields });
+
+export interface ViolationFilter {
+  severities?: Violation['severity'][];
+  codes?: ViolationCode[];
+  elementId?: string;
+  intervals?: [number, number]; // First and last interval, inclusive
+}
+
+export const allViolations = (results: SimulationResult) => results.flatMap(r => r.violations);
+
+export function filterViolations(violations: Violation[], filter: ViolationFilter): Violation[] {
+  return violations.filter(v =>
+    (!filter.severities || filter.severities.includes(v.severity))
+    && (!filter.codes || filter.codes.includes(v.code))
+    && (!filter.elementId || v.elementId === filter.elementId)
+    && (!filter.intervals || (v.interval >= filter.intervals[0] && v.interval <= filter.intervals[1])));
+}
+
+// Violations per code, codes in the order of VIOLATION_SEVERITY
+export function countByCode(violations: Violation[]): { code: ViolationCode; count: number; intervals: number }[] {
+  return (Object.keys(VIOLATION_SEVERITY) as ViolationCode[])
+    .map(code => {
+      const of = violations.filter(v => v.code === code);
+      return { code, count: of.length, intervals: new Set(of.map(v => v.interval)).size };
+    })
+    .filter(c => c.count > 0);
+}